@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server"
+import { checkProxyTarget, fetchProxyTarget, readProxyPolicy } from "@/lib/fetch-proxy"
+
+export const runtime = "nodejs"
+
+const MAX_REDIRECTS = 5
+const FORWARDED_HEADERS = ["content-type", "content-disposition", "etag", "last-modified", "link"]
+const FORWARD_PREFIX = "x-forward-"
+
+/**
+ * Fetches `?url=` on the server and streams the body back, for data hosts that do not send
+ * CORS headers. Every redirect is checked against the host policy before it is followed.
+ */
+export async function GET(request: Request) {
+  const target = new URL(request.url).searchParams.get("url")
+  if (!target) return proxyError(400, "The url parameter is required")
+
+  let url: URL
+  try {
+    url = new URL(target)
+  } catch {
+    return proxyError(400, "The url parameter is not a valid URL")
+  }
+
+  const policy = readProxyPolicy()
+  // Credentials such as Authorization arrive prefixed so they are never meant for this app
+  let forwardedHeaders = new Headers()
+  request.headers.forEach((value, name) => {
+    if (name.startsWith(FORWARD_PREFIX)) forwardedHeaders.set(name.slice(FORWARD_PREFIX.length), value)
+  })
+
+  let upstream: Response
+  for (let redirects = 0; ; redirects++) {
+    const target = await checkProxyTarget(url, policy)
+    if (target.refusal !== null) return proxyError(403, target.refusal)
+
+    try {
+      upstream = await fetchProxyTarget(url, target.addresses, { headers: forwardedHeaders, signal: request.signal })
+    } catch {
+      return proxyError(502, `${url.host} could not be reached`)
+    }
+
+    const location = upstream.headers.get("location")
+    if (upstream.status < 300 || upstream.status >= 400 || !location) break
+    if (redirects === MAX_REDIRECTS) return proxyError(502, `${url.host} redirected too many times`)
+    const next = new URL(location, url)
+    // Like browsers, do not hand credentials to a different site
+    if (next.origin !== url.origin) forwardedHeaders = new Headers()
+    url = next
+  }
+
+  // Upstream failures keep their status so the client can explain them like a direct fetch
+  if (!upstream.ok) return new Response(null, { status: upstream.status, statusText: upstream.statusText })
+
+  const declaredLength = Number(upstream.headers.get("content-length"))
+  if (declaredLength > policy.maxBytes) {
+    return proxyError(413, `The file is larger than the ${formatLimit(policy.maxBytes)} limit`)
+  }
+
+  const headers = new Headers({ "x-proxy-final-url": url.href, "cache-control": "no-store" })
+  for (const name of FORWARDED_HEADERS) {
+    const value = upstream.headers.get(name)
+    if (value) headers.set(name, value)
+  }
+  // Compressed bodies are decoded, so a compressed length would not match what is sent
+  if (declaredLength && !upstream.headers.get("content-encoding")) headers.set("content-length", String(declaredLength))
+
+  // Bodies without a declared length are cut off once they pass the limit
+  let received = 0
+  const body = upstream.body?.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        received += chunk.length
+        if (received > policy.maxBytes) {
+          controller.error(new Error(`The file is larger than the ${formatLimit(policy.maxBytes)} limit`))
+        } else {
+          controller.enqueue(chunk)
+        }
+      },
+    }),
+  )
+
+  return new Response(body ?? null, { status: 200, headers })
+}
+
+function proxyError(status: number, message: string): Response {
+  return NextResponse.json({ error: message }, { status, headers: { "x-proxy-error": message } })
+}
+
+function formatLimit(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${Math.round(bytes / (1024 * 1024))} MB` : `${Math.ceil(bytes / 1024)} KB`
+}
@@ -0,0 +1,146 @@
+"use client"
+
+import { useState, type ClipboardEvent } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ClipboardPaste, AlertCircle, CheckCircle } from "lucide-react"
+import type { DataFile } from "@/components/file-upload"
+import { ClipboardParser, type ClipboardContents } from "@/lib/parsers/clipboard-parser"
+import { readImportedTable } from "@/lib/column-schema"
+
+interface ClipboardDataSourceProps {
+  onFileLoaded: (file: DataFile) => void
+}
+
+export function ClipboardDataSource({ onFileLoaded }: ClipboardDataSourceProps) {
+  const [name, setName] = useState("")
+  const [pasteCount, setPasteCount] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [loaded, setLoaded] = useState<DataFile | null>(null)
+
+  const loadContents = (contents: ClipboardContents) => {
+    setError(null)
+    setLoaded(null)
+
+    try {
+      const pasted = ClipboardParser.parse(contents)
+      if (!pasted) {
+        throw new Error("The clipboard does not contain a table. Copy a range of cells or an HTML table first.")
+      }
+
+      const { source, table } = pasted
+      const { data, schema } = readImportedTable(table)
+      const newFile: DataFile = {
+        id: Math.random().toString(36).substr(2, 9),
+        name: name.trim() || `Pasted data ${pasteCount + 1}`,
+        size: contents[source].length,
+        type: source === "html" ? "text/html" : "text/tab-separated-values",
+        status: "ready",
+        progress: 100,
+        data,
+        columns: table.columns,
+        rows: data.length,
+        parseErrors: table.errors.length > 0 ? table.errors : undefined,
+        schema,
+      }
+
+      onFileLoaded(newFile)
+      setLoaded(newFile)
+      setPasteCount((count) => count + 1)
+      setName("")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read the pasted data")
+    }
+  }
+
+  const handlePaste = (event: ClipboardEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    loadContents({
+      html: event.clipboardData.getData("text/html"),
+      text: event.clipboardData.getData("text/plain"),
+    })
+  }
+
+  // The async clipboard API needs permission and not every browser exposes HTML through it
+  const handlePasteButton = async () => {
+    try {
+      const contents: ClipboardContents = { html: "", text: "" }
+      if (navigator.clipboard.read) {
+        for (const item of await navigator.clipboard.read()) {
+          if (item.types.includes("text/html")) contents.html = await (await item.getType("text/html")).text()
+          if (item.types.includes("text/plain")) contents.text = await (await item.getType("text/plain")).text()
+        }
+      } else {
+        contents.text = await navigator.clipboard.readText()
+      }
+      loadContents(contents)
+    } catch {
+      setError("The browser blocked access to the clipboard. Click the paste area and press Ctrl+V instead.")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-serif flex items-center gap-2">
+          <ClipboardPaste className="w-5 h-5" />
+          Paste from Clipboard
+        </CardTitle>
+        <CardDescription>
+          Paste a range copied from a spreadsheet or a table copied from a web page or report
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div
+          tabIndex={0}
+          role="textbox"
+          aria-label="Paste area"
+          onPaste={handlePaste}
+          className="rounded-lg border-2 border-dashed border-border p-6 text-center text-sm text-muted-foreground cursor-text focus-visible:outline-none focus-visible:border-primary focus-visible:bg-primary/5"
+        >
+          Click here and press <kbd className="font-mono">Ctrl+V</kbd> (<kbd className="font-mono">⌘V</kbd> on Mac)
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="pasteName" className="text-sm font-medium">
+            Dataset name
+          </Label>
+          <Input
+            id="pasteName"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={`Pasted data ${pasteCount + 1}`}
+          />
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loaded && (
+          <Alert>
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>
+              Added {loaded.name} with {loaded.rows?.toLocaleString()} rows and {loaded.columns?.length} columns
+              {loaded.parseErrors && ` (${loaded.parseErrors.length} rows with problems)`}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-muted-foreground">Supported: tab-separated text, HTML tables</div>
+          <Button onClick={handlePasteButton} variant="outline" className="flex items-center gap-2">
+            <ClipboardPaste className="w-4 h-4" />
+            Paste
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -6,8 +6,12 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Label } from "@/components/ui/label"
 import { Checkbox } from "@/components/ui/checkbox"
-import { Download, FileSpreadsheet, FileText, Database } from "lucide-react"
+import { Download, FileSpreadsheet, FileText, Database, Columns3, Layers } from "lucide-react"
 import type { DataFile } from "@/components/file-upload"
+import { getValueLabel, hasColumnMetadata } from "@/lib/column-metadata"
+import { getSchema, toStorageType } from "@/lib/column-schema"
+import { ArrowWriter } from "@/lib/parsers/arrow-writer"
+import { ParquetWriter } from "@/lib/parsers/parquet-writer"
 
 interface DataExportProps {
   files: DataFile[]
@@ -15,8 +19,9 @@ interface DataExportProps {
 
 export function DataExport({ files }: DataExportProps) {
   const [selectedFiles, setSelectedFiles] = useState<string[]>([])
-  const [exportFormat, setExportFormat] = useState<"csv" | "xlsx" | "json">("csv")
+  const [exportFormat, setExportFormat] = useState<"csv" | "xlsx" | "json" | "parquet" | "arrow">("csv")
   const [includeMetadata, setIncludeMetadata] = useState(false)
+  const [useValueLabels, setUseValueLabels] = useState(false)
 
   const readyFiles = files.filter((f) => f.status === "ready")
 
@@ -32,8 +37,8 @@ export function DataExport({ files }: DataExportProps) {
     const filesToExport = readyFiles.filter((f) => selectedFiles.includes(f.id))
 
     for (const file of filesToExport) {
-      const data = file.data || []
-      let content: string
+      const data = useValueLabels ? applyValueLabels(file) : file.data || []
+      let content: BlobPart
       let mimeType: string
       let filename: string
 
@@ -50,25 +55,83 @@ export function DataExport({ files }: DataExportProps) {
           filename = `${file.name}.xlsx`
           break
         case "json":
-          content = JSON.stringify(data, null, 2)
+          content = JSON.stringify(includeMetadata ? { columns: describeColumns(file), data } : data, null, 2)
           mimeType = "application/json"
           filename = `${file.name}.json`
           break
+        case "parquet":
+          content = ParquetWriter.write(file.columns || [], data, getStorageTypes(file, data))
+          mimeType = "application/vnd.apache.parquet"
+          filename = `${file.name}.parquet`
+          break
+        case "arrow":
+          content = ArrowWriter.write(file.columns || [], data, getStorageTypes(file, data))
+          mimeType = "application/vnd.apache.arrow.file"
+          filename = `${file.name}.arrow`
+          break
         default:
           continue
       }
 
-      // Create and trigger download
-      const blob = new Blob([content], { type: mimeType })
-      const url = URL.createObjectURL(blob)
-      const a = document.createElement("a")
-      a.href = url
-      a.download = filename
-      document.body.appendChild(a)
-      a.click()
-      document.body.removeChild(a)
-      URL.revokeObjectURL(url)
+      downloadFile(content, mimeType, filename)
+
+      if (includeMetadata && exportFormat !== "json" && hasColumnMetadata(file.columnMeta)) {
+        downloadFile(convertToCodebook(file), "text/csv", `${file.name}_codebook.csv`)
+      }
+    }
+  }
+
+  const downloadFile = (content: BlobPart, mimeType: string, filename: string) => {
+    const blob = new Blob([content], { type: mimeType })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = filename
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  const applyValueLabels = (file: DataFile) => {
+    const data = file.data || []
+    if (!hasColumnMetadata(file.columnMeta)) return data
+
+    return data.map((row) => {
+      const labelled: Record<string, any> = { ...row }
+      for (const column of file.columns || []) {
+        labelled[column] = getValueLabel(file.columnMeta?.[column], row[column]) ?? row[column]
+      }
+      return labelled
+    })
+  }
+
+  const describeColumns = (file: DataFile) => {
+    return getSchema(file).map(({ name, type, nullable }) => ({ name, type, nullable, ...file.columnMeta?.[name] }))
+  }
+
+  const getStorageTypes = (file: DataFile, data: any[]) => {
+    return getSchema(file).map((column) =>
+      toStorageType(
+        column,
+        data.map((row) => row[column.name]),
+      ),
+    )
+  }
+
+  const convertToCodebook = (file: DataFile): string => {
+    const rows: Record<string, any>[] = []
+    for (const column of file.columns || []) {
+      const meta = file.columnMeta?.[column]
+      const valueLabels = Object.entries(meta?.valueLabels || {})
+      if (valueLabels.length === 0) {
+        rows.push({ variable: column, label: meta?.label ?? "", value: "", value_label: "" })
+      }
+      for (const [value, label] of valueLabels) {
+        rows.push({ variable: column, label: meta?.label ?? "", value, value_label: label })
+      }
     }
+    return convertToCSV(rows, ["variable", "label", "value", "value_label"])
   }
 
   const convertToCSV = (data: any[], columns: string[]): string => {
@@ -168,6 +231,32 @@ export function DataExport({ files }: DataExportProps) {
                 </div>
               </div>
             </Button>
+            <Button
+              variant={exportFormat === "parquet" ? "default" : "outline"}
+              className="h-auto p-4 justify-start"
+              onClick={() => setExportFormat("parquet")}
+            >
+              <div className="flex items-center gap-3">
+                <Columns3 className="w-5 h-5" />
+                <div className="text-left">
+                  <div className="font-medium">Parquet</div>
+                  <div className="text-xs text-muted-foreground">Typed columns</div>
+                </div>
+              </div>
+            </Button>
+            <Button
+              variant={exportFormat === "arrow" ? "default" : "outline"}
+              className="h-auto p-4 justify-start"
+              onClick={() => setExportFormat("arrow")}
+            >
+              <div className="flex items-center gap-3">
+                <Layers className="w-5 h-5" />
+                <div className="text-left">
+                  <div className="font-medium">Arrow</div>
+                  <div className="text-xs text-muted-foreground">IPC / Feather</div>
+                </div>
+              </div>
+            </Button>
           </div>
         </div>
 
@@ -175,11 +264,25 @@ export function DataExport({ files }: DataExportProps) {
         <div className="space-y-3">
           <Label className="text-sm font-medium">Export Options</Label>
           <div className="flex items-center space-x-2">
-            <Checkbox id="includeMetadata" checked={includeMetadata} onCheckedChange={setIncludeMetadata} />
+            <Checkbox
+              id="includeMetadata"
+              checked={includeMetadata}
+              onCheckedChange={(checked) => setIncludeMetadata(checked as boolean)}
+            />
             <Label htmlFor="includeMetadata" className="text-sm cursor-pointer">
               Include metadata and column information
             </Label>
           </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="useValueLabels"
+              checked={useValueLabels}
+              onCheckedChange={(checked) => setUseValueLabels(checked as boolean)}
+            />
+            <Label htmlFor="useValueLabels" className="text-sm cursor-pointer">
+              Export value labels instead of codes
+            </Label>
+          </div>
         </div>
 
         {/* Export Button */}
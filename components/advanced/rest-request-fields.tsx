@@ -0,0 +1,293 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Plus, X } from "lucide-react"
+import { DEFAULT_PAGINATION, type PaginationStrategy, type RestSourceOptions } from "@/lib/parsers/rest-source"
+
+export type RestRequestSettings = Omit<RestSourceOptions, "url">
+
+interface RestRequestFieldsProps {
+  settings: RestRequestSettings
+  onSettingsChange: (settings: RestRequestSettings) => void
+  disabled?: boolean
+}
+
+const PAGINATION_LABELS: Record<PaginationStrategy["kind"], string> = {
+  none: "Single request",
+  page: "Page number",
+  offset: "Offset and limit",
+  cursor: "Cursor",
+  link: "Link header",
+}
+
+export const DEFAULT_REST_SETTINGS: RestRequestSettings = {
+  headers: [["Authorization", ""]],
+  params: [],
+  recordsPath: "",
+  pagination: DEFAULT_PAGINATION.none,
+  maxPages: 100,
+}
+
+export function RestRequestFields({ settings, onSettingsChange, disabled }: RestRequestFieldsProps) {
+  const { pagination } = settings
+  const setPagination = (changes: Partial<PaginationStrategy>) =>
+    onSettingsChange({ ...settings, pagination: { ...pagination, ...changes } as PaginationStrategy })
+
+  return (
+    <div className="space-y-4">
+      <KeyValueList
+        label="Headers"
+        addLabel="Add header"
+        namePlaceholder="Authorization"
+        valuePlaceholder="Bearer ..."
+        entries={settings.headers}
+        onEntriesChange={(headers) => onSettingsChange({ ...settings, headers })}
+        disabled={disabled}
+      />
+      <KeyValueList
+        label="Query parameters"
+        addLabel="Add parameter"
+        namePlaceholder="status"
+        valuePlaceholder="complete"
+        entries={settings.params}
+        onEntriesChange={(params) => onSettingsChange({ ...settings, params })}
+        disabled={disabled}
+      />
+
+      <div className="space-y-2">
+        <Label htmlFor="rest-records-path" className="text-sm font-medium">
+          Records path
+        </Label>
+        <Input
+          id="rest-records-path"
+          value={settings.recordsPath}
+          onChange={(e) => onSettingsChange({ ...settings, recordsPath: e.target.value })}
+          placeholder="$.data — leave empty to use the largest array"
+          className="font-mono text-xs"
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Pagination</Label>
+          <Select
+            value={pagination.kind}
+            onValueChange={(kind) =>
+              onSettingsChange({ ...settings, pagination: DEFAULT_PAGINATION[kind as PaginationStrategy["kind"]] })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PAGINATION_LABELS).map(([kind, label]) => (
+                <SelectItem key={kind} value={kind}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {pagination.kind === "page" && (
+          <>
+            <ParameterField
+              id="rest-page-param"
+              label="Page parameter"
+              name={pagination.param}
+              value={pagination.start}
+              valueLabel="First page"
+              onChange={(param, start) => setPagination({ param, start })}
+              disabled={disabled}
+            />
+            <ParameterField
+              id="rest-size-param"
+              label="Page size parameter"
+              name={pagination.sizeParam}
+              value={pagination.size}
+              valueLabel="Page size"
+              onChange={(sizeParam, size) => setPagination({ sizeParam, size })}
+              disabled={disabled}
+            />
+          </>
+        )}
+        {pagination.kind === "offset" && (
+          <>
+            <ParameterField
+              id="rest-offset-param"
+              label="Offset parameter"
+              name={pagination.param}
+              onChange={(param) => setPagination({ param })}
+              disabled={disabled}
+            />
+            <ParameterField
+              id="rest-limit-param"
+              label="Limit parameter"
+              name={pagination.limitParam}
+              value={pagination.limit}
+              valueLabel="Records per request"
+              onChange={(limitParam, limit) => setPagination({ limitParam, limit })}
+              disabled={disabled}
+            />
+          </>
+        )}
+        {pagination.kind === "cursor" && (
+          <>
+            <ParameterField
+              id="rest-cursor-param"
+              label="Cursor parameter"
+              name={pagination.param}
+              onChange={(param) => setPagination({ param })}
+              disabled={disabled}
+            />
+            <div className="space-y-2">
+              <Label htmlFor="rest-cursor-path" className="text-sm font-medium">
+                Next cursor path
+              </Label>
+              <Input
+                id="rest-cursor-path"
+                value={pagination.cursorPath}
+                onChange={(e) => setPagination({ cursorPath: e.target.value })}
+                className="font-mono text-xs"
+                disabled={disabled}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      {pagination.kind !== "none" && (
+        <div className="flex items-center gap-3">
+          <Label htmlFor="rest-max-pages" className="text-sm font-medium whitespace-nowrap">
+            Stop after
+          </Label>
+          <Input
+            id="rest-max-pages"
+            type="number"
+            min={1}
+            value={settings.maxPages}
+            onChange={(e) => onSettingsChange({ ...settings, maxPages: Math.max(1, Number(e.target.value) || 1) })}
+            className="w-24"
+            disabled={disabled}
+          />
+          <span className="text-sm text-muted-foreground">pages</span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface KeyValueListProps {
+  label: string
+  addLabel: string
+  namePlaceholder: string
+  valuePlaceholder: string
+  entries: [string, string][]
+  onEntriesChange: (entries: [string, string][]) => void
+  disabled?: boolean
+}
+
+function KeyValueList({
+  label,
+  addLabel,
+  namePlaceholder,
+  valuePlaceholder,
+  entries,
+  onEntriesChange,
+  disabled,
+}: KeyValueListProps) {
+  const updateEntry = (index: number, entry: [string, string]) =>
+    onEntriesChange(entries.map((current, i) => (i === index ? entry : current)))
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">{label}</Label>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onEntriesChange([...entries, ["", ""]])}
+          disabled={disabled}
+          className="h-7 gap-1 text-xs"
+        >
+          <Plus className="w-3 h-3" />
+          {addLabel}
+        </Button>
+      </div>
+      {entries.map(([name, value], index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            value={name}
+            onChange={(e) => updateEntry(index, [e.target.value, value])}
+            placeholder={namePlaceholder}
+            className="w-1/3"
+            disabled={disabled}
+          />
+          <Input
+            value={value}
+            onChange={(e) => updateEntry(index, [name, e.target.value])}
+            placeholder={valuePlaceholder}
+            className="flex-1"
+            disabled={disabled}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onEntriesChange(entries.filter((_, i) => i !== index))}
+            disabled={disabled}
+            aria-label={`Remove ${name || "entry"}`}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface ParameterFieldProps {
+  id: string
+  label: string
+  name: string
+  /** A number sent with the parameter, such as the first page or the page size */
+  value?: number
+  valueLabel?: string
+  onChange: (name: string, value: number) => void
+  disabled?: boolean
+}
+
+function ParameterField({ id, label, name, value, valueLabel, onChange, disabled }: ParameterFieldProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="text-sm font-medium">
+        {label}
+      </Label>
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          value={name}
+          onChange={(e) => onChange(e.target.value, value ?? 0)}
+          className="flex-1"
+          disabled={disabled}
+        />
+        {value !== undefined && (
+          <Input
+            type="number"
+            min={0}
+            value={value}
+            aria-label={valueLabel}
+            title={valueLabel}
+            onChange={(e) => onChange(name, Math.max(0, Number(e.target.value) || 0))}
+            className="w-20"
+            disabled={disabled}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { RefreshCw } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { DataFile } from "@/components/file-upload"
+import { refreshDataSource, sourceUrl, type RowChanges } from "@/lib/parsers/data-source"
+
+interface SourceRefreshButtonProps {
+  file: DataFile
+  onRefreshed: (file: DataFile) => void
+}
+
+export function SourceRefreshButton({ file, onRefreshed }: SourceRefreshButtonProps) {
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+  const [outcome, setOutcome] = useState<{ message: string; isError: boolean } | null>(null)
+
+  const handleRefresh = async () => {
+    if (!file.source) return
+
+    setIsRefreshing(true)
+    setOutcome(null)
+    try {
+      const result = await refreshDataSource(
+        file.source,
+        { data: file.data ?? [], columns: file.columns ?? [], schema: file.schema },
+        setStatus,
+      )
+      if (result.status === "unchanged") {
+        setOutcome({ message: "Up to date: the server reports no changes", isError: false })
+        return
+      }
+
+      const { table, schema, source, changes } = result
+      onRefreshed({
+        ...file,
+        data: table.data,
+        columns: table.columns,
+        rows: table.data.length,
+        parseErrors: table.errors.length > 0 ? table.errors : undefined,
+        columnMeta: table.columnMeta,
+        // Types and formats the user chose survive the reload
+        schema,
+        source,
+      })
+      setOutcome({ message: describeChanges(changes), isError: false })
+    } catch (err) {
+      setOutcome({ message: err instanceof Error ? err.message : "Refresh failed", isError: true })
+    } finally {
+      setIsRefreshing(false)
+      setStatus(null)
+    }
+  }
+
+  if (!file.source) return null
+
+  return (
+    <div className="flex items-center gap-2">
+      {(status || outcome) && (
+        <span className={cn("text-xs", outcome?.isError ? "text-destructive" : "text-muted-foreground")}>
+          {status ?? outcome?.message}
+        </span>
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleRefresh}
+        disabled={isRefreshing}
+        title={`Load again from ${sourceUrl(file.source)}`}
+        className="flex items-center gap-2"
+      >
+        <RefreshCw className={cn("w-4 h-4", isRefreshing && "animate-spin")} />
+        Refresh
+      </Button>
+    </div>
+  )
+}
+
+function describeChanges({ added, removed, changed, keyColumn }: RowChanges): string {
+  if (added === 0 && removed === 0 && changed === 0) return "Reloaded: no rows changed"
+  const counts = [`${added} added`, `${removed} removed`]
+  if (keyColumn) counts.push(`${changed} changed`)
+  return `Reloaded: ${counts.join(", ")} ${keyColumn ? `(matched on ${keyColumn})` : "(matched by content)"}`
+}
@@ -1,12 +1,28 @@
 "use client"
 
-import { useState } from "react"
+import { useRef, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { Globe, Download, AlertCircle } from "lucide-react"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Globe, Download, AlertCircle, Info, X } from "lucide-react"
 import type { DataFile } from "@/components/file-upload"
+import {
+  DEFAULT_REST_SETTINGS,
+  RestRequestFields,
+  type RestRequestSettings,
+} from "@/components/advanced/rest-request-fields"
+import { ArchiveBrowserDialog } from "@/components/import/archive-browser-dialog"
+import { AUTO_IMPORT_FILE, buildAutoParseRequest } from "@/lib/parsers/auto-import"
+import { BackgroundParser } from "@/lib/parsers/background-parser"
+import { JsonParser } from "@/lib/parsers/json-parser"
+import { readImportedTable } from "@/lib/column-schema"
+import { describeFileSource } from "@/lib/parsers/data-source"
+import { fetchRemoteFile, type RemoteFile } from "@/lib/parsers/remote-file"
+import { fetchRestRecords, type RestFetchResult } from "@/lib/parsers/rest-source"
+import { ZipArchive, type ZipEntry } from "@/lib/parsers/zip-reader"
 
 interface UrlDataSourceProps {
   onFileLoaded: (file: DataFile) => void
@@ -14,14 +30,45 @@ interface UrlDataSourceProps {
 
 export function UrlDataSource({ onFileLoaded }: UrlDataSourceProps) {
   const [url, setUrl] = useState("")
-  const [isLoading, setIsLoading] = useState(false)
+  const [mode, setMode] = useState<"file" | "rest">("file")
+  const [restSettings, setRestSettings] = useState<RestRequestSettings>(DEFAULT_REST_SETTINGS)
+  const [fetched, setFetched] = useState({ pages: 0, records: 0 })
+  const [notice, setNotice] = useState<string | null>(null)
+  const [phase, setPhase] = useState<"idle" | "downloading" | "parsing">("idle")
+  const [progress, setProgress] = useState(0)
   const [error, setError] = useState<string | null>(null)
+  const cancelLoad = useRef<(() => void) | null>(null)
+  const [archiveRequest, setArchiveRequest] = useState<{
+    fileName: string
+    archive: ZipArchive
+    resolve: (entries: ZipEntry[]) => void
+  } | null>(null)
+
+  const requestArchiveSelection = (fileName: string, archive: ZipArchive) =>
+    new Promise<ZipEntry[]>((resolve) => setArchiveRequest({ fileName, archive, resolve }))
+
+  const resolveArchiveRequest = (entries: ZipEntry[]) => {
+    archiveRequest?.resolve(entries)
+    setArchiveRequest(null)
+  }
+
+  const isLoading = phase !== "idle"
 
   const handleUrlLoad = async () => {
     if (!url.trim()) return
 
-    setIsLoading(true)
+    setPhase("downloading")
+    setProgress(0)
+    setFetched({ pages: 0, records: 0 })
     setError(null)
+    setNotice(null)
+
+    const controller = new AbortController()
+    let cancelled = false
+    cancelLoad.current = () => {
+      cancelled = true
+      controller.abort()
+    }
 
     try {
       // Validate URL
@@ -30,81 +77,153 @@ export function UrlDataSource({ onFileLoaded }: UrlDataSourceProps) {
         throw new Error("Only HTTP and HTTPS URLs are supported")
       }
 
-      // Determine file type from URL
-      const pathname = urlObj.pathname.toLowerCase()
-      let fileType: string
-      let mimeType: string
-
-      if (pathname.endsWith(".csv")) {
-        fileType = "csv"
-        mimeType = "text/csv"
-      } else if (pathname.endsWith(".xlsx") || pathname.endsWith(".xls")) {
-        fileType = "xlsx"
-        mimeType = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
-      } else if (pathname.endsWith(".json")) {
-        fileType = "json"
-        mimeType = "application/json"
-      } else {
-        throw new Error("Unsupported file format. Please use CSV, XLSX, or JSON files.")
+      if (mode === "rest") {
+        let result: RestFetchResult | null
+        try {
+          result = await fetchRestRecords(
+            { url: urlObj.href, ...restSettings },
+            (pages, records) => setFetched({ pages, records }),
+            controller.signal,
+          )
+        } catch (err) {
+          if (cancelled) return
+          throw describeDownloadError(err)
+        }
+        if (cancelled || !result) return
+        if (result.records.length === 0) throw new Error("The API did not return any records")
+
+        // All pages form one dataset, flattened like an imported JSON file
+        const table = JsonParser.toTable({ value: result.records, errors: [] })
+        const { data, schema } = readImportedTable(table)
+        onFileLoaded({
+          id: Math.random().toString(36).substr(2, 9),
+          name: urlObj.pathname.split("/").filter(Boolean).pop() ?? urlObj.hostname,
+          size: result.bytes,
+          type: "application/json",
+          status: "ready",
+          progress: 100,
+          data,
+          columns: table.columns,
+          rows: data.length,
+          schema,
+          source: {
+            kind: "rest",
+            options: { url: urlObj.href, ...restSettings },
+            validators: restSettings.pagination.kind === "none" ? result.validators : {},
+          },
+        })
+        if (result.truncated) {
+          setNotice(`Stopped after ${result.pages} pages. Raise the page limit to fetch the remaining records.`)
+        }
+        setUrl("")
+        return
       }
 
-      // Simulate file loading (in real implementation, you'd fetch the actual file)
-      await new Promise((resolve) => setTimeout(resolve, 2000))
-
-      // Create mock data based on file type
-      let mockData: any[] = []
-      let mockColumns: string[] = []
-
-      if (fileType === "csv" || fileType === "xlsx") {
-        mockColumns = ["id", "name", "value", "category"]
-        mockData = Array.from({ length: 100 }, (_, i) => ({
-          id: i + 1,
-          name: `Item ${i + 1}`,
-          value: Math.round(Math.random() * 1000),
-          category: ["A", "B", "C"][Math.floor(Math.random() * 3)],
-        }))
-      } else if (fileType === "json") {
-        mockData = [
-          { key: "sample", data: "from URL" },
-          { key: "loaded", data: "successfully" },
-        ]
-        mockColumns = Object.keys(mockData[0] || {})
+      let remote: RemoteFile | null
+      try {
+        remote = await fetchRemoteFile(
+          urlObj.href,
+          (loaded, total) => setProgress(total > 0 ? Math.round((loaded / total) * 100) : 0),
+          { signal: controller.signal },
+        )
+      } catch (err) {
+        if (cancelled) return
+        throw describeDownloadError(err)
       }
+      // Only conditional requests come back empty
+      if (!remote) return
+      const { file, validators } = remote
+
+      // Parses with the options the import dialogs would suggest, in the background like uploads;
+      // false means the load was cancelled
+      const loadFile = async (input: File, refreshable: boolean): Promise<boolean> => {
+        const request = await buildAutoParseRequest(input)
+        setPhase("parsing")
+        setProgress(0)
+        const task = BackgroundParser.start(request, (loaded, total) => {
+          setProgress(total > 0 ? Math.round((loaded / total) * 100) : 100)
+        })
+        cancelLoad.current = () => {
+          cancelled = true
+          task.cancel()
+        }
+
+        const sources = await task.result
+        if (!sources || cancelled) return false
+        if (sources.length === 0) throw new Error(`${input.name} does not contain any tables`)
 
-      const fileName = pathname.split("/").pop() || "url_data"
-      const newFile: DataFile = {
-        id: Math.random().toString(36).substr(2, 9),
-        name: fileName,
-        size: JSON.stringify(mockData).length,
-        type: mimeType,
-        status: "ready",
-        progress: 100,
-        data: mockData,
-        columns: mockColumns,
-        rows: mockData.length,
-        source: "url",
-        sourceUrl: url,
+        for (const { name, table, schema } of sources) {
+          onFileLoaded({
+            id: Math.random().toString(36).substr(2, 9),
+            name: name && (request.format === "xlsx" || sources.length > 1) ? `${input.name} [${name}]` : input.name,
+            size: input.size,
+            type: input.type,
+            status: "ready",
+            progress: 100,
+            data: table.data,
+            columns: table.columns,
+            rows: table.data.length,
+            parseErrors: table.errors.length > 0 ? table.errors : undefined,
+            columnMeta: table.columnMeta,
+            schema,
+            ...(refreshable && { source: describeFileSource(urlObj.href, request, name, validators) }),
+            ...(request.format === "xlsx" && { workbook: input.name, sheet: name }),
+          })
+        }
+        return true
       }
 
-      onFileLoaded(newFile)
+      if (/\.zip$/i.test(file.name)) {
+        // Members of an archive are chosen as for uploads; they cannot be refreshed from the URL
+        const archive = await ZipArchive.open(file)
+        const entries = await requestArchiveSelection(file.name, archive)
+        for (const entry of entries) {
+          const member = new File([await archive.readBytes(entry)], `${file.name}/${entry.name}`)
+          if (!(await loadFile(member, false))) return
+        }
+      } else if (!(await loadFile(file, true))) {
+        return
+      }
       setUrl("")
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load data from URL")
     } finally {
-      setIsLoading(false)
+      cancelLoad.current = null
+      setPhase("idle")
     }
   }
 
   return (
     <Card>
+      {archiveRequest && (
+        <ArchiveBrowserDialog
+          open
+          fileName={archiveRequest.fileName}
+          archive={archiveRequest.archive}
+          isSupported={(entryName) => AUTO_IMPORT_FILE.test(entryName)}
+          onConfirm={resolveArchiveRequest}
+          onCancel={() => resolveArchiveRequest([])}
+        />
+      )}
       <CardHeader>
         <CardTitle className="font-serif flex items-center gap-2">
           <Globe className="w-5 h-5" />
           Load from URL
         </CardTitle>
-        <CardDescription>Import data directly from web URLs (CSV, XLSX, JSON formats supported)</CardDescription>
+        <CardDescription>Import data directly from web URLs, parsed the same way as uploaded files</CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
+        <Tabs value={mode} onValueChange={(value) => setMode(value as "file" | "rest")}>
+          <TabsList>
+            <TabsTrigger value="file" disabled={isLoading}>
+              File
+            </TabsTrigger>
+            <TabsTrigger value="rest" disabled={isLoading}>
+              REST API
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+
         <div className="space-y-2">
           <Label htmlFor="dataUrl" className="text-sm font-medium">
             Data URL
@@ -114,12 +233,39 @@ export function UrlDataSource({ onFileLoaded }: UrlDataSourceProps) {
             type="url"
             value={url}
             onChange={(e) => setUrl(e.target.value)}
-            placeholder="https://example.com/data.csv"
+            placeholder={mode === "rest" ? "https://api.example.com/v1/responses" : "https://example.com/data.csv"}
             className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
             disabled={isLoading}
           />
         </div>
 
+        {mode === "rest" && (
+          <RestRequestFields settings={restSettings} onSettingsChange={setRestSettings} disabled={isLoading} />
+        )}
+
+        {isLoading && mode === "rest" && (
+          <div className="text-xs text-muted-foreground">
+            Fetched {fetched.pages} page{fetched.pages !== 1 ? "s" : ""}, {fetched.records.toLocaleString()} records
+          </div>
+        )}
+
+        {isLoading && mode === "file" && (
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{phase === "downloading" ? "Downloading" : "Parsing"}</span>
+              <span>{progress}%</span>
+            </div>
+            <Progress value={progress} className="h-1" />
+          </div>
+        )}
+
+        {notice && (
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertDescription>{notice}</AlertDescription>
+          </Alert>
+        )}
+
         {error && (
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4" />
@@ -128,13 +274,33 @@ export function UrlDataSource({ onFileLoaded }: UrlDataSourceProps) {
         )}
 
         <div className="flex items-center justify-between">
-          <div className="text-sm text-muted-foreground">Supported formats: CSV, XLSX, JSON</div>
-          <Button onClick={handleUrlLoad} disabled={!url.trim() || isLoading} className="flex items-center gap-2">
-            <Download className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
-            {isLoading ? "Loading..." : "Load Data"}
-          </Button>
+          <div className="text-sm text-muted-foreground">
+            {mode === "rest"
+              ? "JSON responses; every page is combined into one dataset"
+              : "Supported formats: CSV, TSV, XLSX, JSON, NDJSON, XML, HTML, Parquet, Arrow, SPSS, Stata, XPT, ZIP"}
+          </div>
+          <div className="flex gap-2">
+            {isLoading && (
+              <Button variant="outline" onClick={() => cancelLoad.current?.()} className="flex items-center gap-2">
+                <X className="w-4 h-4" />
+                Cancel
+              </Button>
+            )}
+            <Button onClick={handleUrlLoad} disabled={!url.trim() || isLoading} className="flex items-center gap-2">
+              <Download className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+              {isLoading ? "Loading..." : "Load Data"}
+            </Button>
+          </div>
         </div>
       </CardContent>
     </Card>
   )
 }
+
+// A TypeError means neither the direct request nor the server-side proxy got a response
+function describeDownloadError(error: unknown): unknown {
+  if (!(error instanceof TypeError)) return error
+  return new Error(
+    "The data could not be downloaded. The server may be unreachable, or it does not allow access from other sites (CORS) and this app has no proxy to fetch it through.",
+  )
+}
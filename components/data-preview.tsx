@@ -9,6 +9,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { ScrollArea } from "@/components/ui/scroll-area"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
 import {
   Search,
   ChevronLeft,
@@ -19,21 +22,37 @@ import {
   Type,
   Calendar,
   ToggleLeft,
+  Tags,
   AlertTriangle,
   Info,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { formatLabelledValue, hasColumnMetadata, isUserMissing } from "@/lib/column-metadata"
+import {
+  LOGICAL_TYPES,
+  applyValueFormat,
+  getSchema,
+  isNumericType,
+  setColumnType,
+  type LogicalType,
+} from "@/lib/column-schema"
+import { describeValueFormat, type DetectedFormat, type ValueFormat } from "@/lib/parsers/value-formats"
 import type { DataFile } from "@/components/file-upload"
+import { SourceRefreshButton } from "@/components/advanced/source-refresh-button"
 
 interface DataPreviewProps {
   files: DataFile[]
   selectedFileId?: string
   onFileSelect?: (fileId: string) => void
+  /** Receives a dataset reloaded from its source */
+  onFileUpdate?: (file: DataFile) => void
 }
 
 interface ColumnInfo {
   name: string
-  type: "string" | "number" | "date" | "boolean"
+  type: LogicalType
+  typeOverridden?: boolean
+  detectedFormat?: DetectedFormat
   nullCount: number
   uniqueCount: number
   sampleValues: any[]
@@ -45,11 +64,12 @@ interface ColumnInfo {
   }
 }
 
-export function DataPreview({ files, selectedFileId, onFileSelect }: DataPreviewProps) {
+export function DataPreview({ files, selectedFileId, onFileSelect, onFileUpdate }: DataPreviewProps) {
   const [currentPage, setCurrentPage] = useState(1)
   const [pageSize, setPageSize] = useState(50)
   const [searchTerm, setSearchTerm] = useState("")
   const [selectedColumns, setSelectedColumns] = useState<string[]>([])
+  const [showValueLabels, setShowValueLabels] = useState(true)
 
   const readyFiles = files.filter((f) => f.status === "ready")
   const selectedFile = selectedFileId ? readyFiles.find((f) => f.id === selectedFileId) : readyFiles[0]
@@ -58,33 +78,13 @@ export function DataPreview({ files, selectedFileId, onFileSelect }: DataPreview
   const columnInfo = useMemo((): ColumnInfo[] => {
     if (!selectedFile?.data || !selectedFile.columns) return []
 
-    return selectedFile.columns.map((colName) => {
+    return getSchema(selectedFile).map(({ name: colName, type, typeOverridden, detectedFormat }) => {
       const values = selectedFile.data!.map((row) => row[colName])
       const nonNullValues = values.filter((v) => v !== null && v !== undefined && v !== "")
 
-      // Detect data type
-      let type: ColumnInfo["type"] = "string"
-      if (nonNullValues.length > 0) {
-        const numericValues = nonNullValues.filter((v) => !isNaN(Number(v)))
-        const dateValues = nonNullValues.filter((v) => !isNaN(Date.parse(v)))
-        const booleanValues = nonNullValues.filter(
-          (v) =>
-            typeof v === "boolean" ||
-            (typeof v === "string" && ["true", "false", "1", "0", "yes", "no"].includes(v.toLowerCase())),
-        )
-
-        if (numericValues.length / nonNullValues.length > 0.8) {
-          type = "number"
-        } else if (dateValues.length / nonNullValues.length > 0.8) {
-          type = "date"
-        } else if (booleanValues.length / nonNullValues.length > 0.8) {
-          type = "boolean"
-        }
-      }
-
       // Calculate statistics for numeric columns
       let stats: ColumnInfo["stats"] | undefined
-      if (type === "number") {
+      if (isNumericType(type)) {
         const numValues = nonNullValues.map((v) => Number(v)).filter((v) => !isNaN(v))
         if (numValues.length > 0) {
           const sorted = [...numValues].sort((a, b) => a - b)
@@ -100,6 +100,8 @@ export function DataPreview({ files, selectedFileId, onFileSelect }: DataPreview
       return {
         name: colName,
         type,
+        typeOverridden,
+        detectedFormat,
         nullCount: values.length - nonNullValues.length,
         uniqueCount: new Set(nonNullValues).size,
         sampleValues: nonNullValues.slice(0, 5),
@@ -130,16 +132,39 @@ export function DataPreview({ files, selectedFileId, onFileSelect }: DataPreview
 
   const totalPages = Math.ceil(filteredData.length / pageSize)
 
+  const ambiguousColumns = columnInfo.filter((column) => column.detectedFormat && !column.detectedFormat.applied)
+
+  const hasMetadata = hasColumnMetadata(selectedFile?.columnMeta)
+
+  const formatCell = (column: string, value: any) => {
+    const meta = selectedFile?.columnMeta?.[column]
+    return showValueLabels ? formatLabelledValue(meta, value) : String(value)
+  }
+
+  const handleTypeChange = (column: string, type: LogicalType) => {
+    if (!selectedFile) return
+    onFileUpdate?.({ ...selectedFile, schema: setColumnType(getSchema(selectedFile), column, type) })
+  }
+
+  const handleFormatConfirm = (column: string, format: ValueFormat) => {
+    if (!selectedFile) return
+    onFileUpdate?.({ ...selectedFile, ...applyValueFormat(selectedFile, column, format) })
+  }
+
   const getTypeIcon = (type: ColumnInfo["type"]) => {
     switch (type) {
-      case "number":
+      case "integer":
+      case "decimal":
         return <Hash className="w-4 h-4" />
       case "string":
         return <Type className="w-4 h-4" />
       case "date":
+      case "datetime":
         return <Calendar className="w-4 h-4" />
       case "boolean":
         return <ToggleLeft className="w-4 h-4" />
+      case "categorical":
+        return <Tags className="w-4 h-4" />
       default:
         return <Type className="w-4 h-4" />
     }
@@ -147,14 +172,18 @@ export function DataPreview({ files, selectedFileId, onFileSelect }: DataPreview
 
   const getTypeColor = (type: ColumnInfo["type"]) => {
     switch (type) {
-      case "number":
+      case "integer":
+      case "decimal":
         return "text-blue-600"
       case "string":
         return "text-green-600"
       case "date":
+      case "datetime":
         return "text-purple-600"
       case "boolean":
         return "text-orange-600"
+      case "categorical":
+        return "text-teal-600"
       default:
         return "text-gray-600"
     }
@@ -221,7 +250,18 @@ export function DataPreview({ files, selectedFileId, onFileSelect }: DataPreview
                   {searchTerm && ` (filtered from ${selectedFile.rows?.toLocaleString()})`}
                 </CardDescription>
               </div>
-              <div className="flex items-center gap-2">
+              <div className="flex items-center gap-4">
+                {selectedFile.source && onFileUpdate && (
+                  <SourceRefreshButton key={selectedFile.id} file={selectedFile} onRefreshed={onFileUpdate} />
+                )}
+                {hasMetadata && (
+                  <div className="flex items-center gap-2">
+                    <Switch id="value-labels" checked={showValueLabels} onCheckedChange={setShowValueLabels} />
+                    <Label htmlFor="value-labels" className="text-sm">
+                      Value labels
+                    </Label>
+                  </div>
+                )}
                 <div className="relative">
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                   <Input
@@ -239,6 +279,16 @@ export function DataPreview({ files, selectedFileId, onFileSelect }: DataPreview
           </CardHeader>
 
           <CardContent className="flex-1 flex flex-col">
+            {ambiguousColumns.length > 0 && (
+              <Alert className="mb-4">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {ambiguousColumns.map((column) => column.name).join(", ")} can be read in more than one format, so{" "}
+                  {ambiguousColumns.length === 1 ? "it was" : "they were"} kept as text. Confirm the format under Column
+                  Info.
+                </AlertDescription>
+              </Alert>
+            )}
             <Tabs defaultValue="data" className="flex-1 flex flex-col">
               <TabsList className="grid w-full grid-cols-2 max-w-md">
                 <TabsTrigger value="data">Data View</TabsTrigger>
@@ -253,11 +303,20 @@ export function DataPreview({ files, selectedFileId, onFileSelect }: DataPreview
                       <TableHeader className="sticky top-0 bg-background z-10">
                         <TableRow>
                           {selectedFile.columns?.map((column) => (
-                            <TableHead key={column} className="min-w-32 font-medium">
+                            <TableHead
+                              key={column}
+                              className="min-w-32 font-medium"
+                              title={selectedFile.columnMeta?.[column]?.label}
+                            >
                               <div className="flex items-center gap-2">
                                 {getTypeIcon(columnInfo.find((c) => c.name === column)?.type || "string")}
                                 <span className="truncate">{column}</span>
                               </div>
+                              {selectedFile.columnMeta?.[column]?.label && (
+                                <div className="text-xs font-normal text-muted-foreground truncate">
+                                  {selectedFile.columnMeta[column].label}
+                                </div>
+                              )}
                             </TableHead>
                           ))}
                         </TableRow>
@@ -267,11 +326,18 @@ export function DataPreview({ files, selectedFileId, onFileSelect }: DataPreview
                           <TableRow key={index}>
                             {selectedFile.columns?.map((column) => (
                               <TableCell key={column} className="max-w-48">
-                                <div className="truncate" title={String(row[column])}>
+                                <div
+                                  className={cn(
+                                    "truncate",
+                                    isUserMissing(selectedFile.columnMeta?.[column], row[column]) &&
+                                      "text-orange-600 italic",
+                                  )}
+                                  title={String(row[column])}
+                                >
                                   {row[column] === null || row[column] === undefined || row[column] === "" ? (
                                     <span className="text-muted-foreground italic">null</span>
                                   ) : (
-                                    String(row[column])
+                                    formatCell(column, row[column])
                                   )}
                                 </div>
                               </TableCell>
@@ -355,13 +421,74 @@ export function DataPreview({ files, selectedFileId, onFileSelect }: DataPreview
                       <CardHeader className="pb-3">
                         <div className="flex items-center justify-between">
                           <CardTitle className="text-base font-medium truncate">{column.name}</CardTitle>
-                          <Badge variant="outline" className={cn("text-xs", getTypeColor(column.type))}>
-                            <span className="mr-1">{getTypeIcon(column.type)}</span>
-                            {column.type}
-                          </Badge>
+                          {onFileUpdate ? (
+                            <Select
+                              value={column.type}
+                              onValueChange={(type) => handleTypeChange(column.name, type as LogicalType)}
+                            >
+                              <SelectTrigger
+                                className={cn("h-7 w-36 text-xs", getTypeColor(column.type))}
+                                title={column.typeOverridden ? "Type set manually" : "Inferred type"}
+                              >
+                                <span className="flex items-center gap-1">
+                                  {getTypeIcon(column.type)}
+                                  <SelectValue />
+                                  {column.typeOverridden && "*"}
+                                </span>
+                              </SelectTrigger>
+                              <SelectContent>
+                                {LOGICAL_TYPES.map((type) => (
+                                  <SelectItem key={type} value={type} className="text-xs">
+                                    {type}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <Badge variant="outline" className={cn("text-xs", getTypeColor(column.type))}>
+                              <span className="mr-1">{getTypeIcon(column.type)}</span>
+                              {column.type}
+                            </Badge>
+                          )}
                         </div>
                       </CardHeader>
                       <CardContent className="space-y-3">
+                        {selectedFile.columnMeta?.[column.name]?.label && (
+                          <p className="text-sm text-muted-foreground">{selectedFile.columnMeta[column.name].label}</p>
+                        )}
+
+                        {column.detectedFormat?.applied && (
+                          <p className="text-xs text-muted-foreground">
+                            Read as {describeValueFormat(column.detectedFormat.format)}
+                          </p>
+                        )}
+
+                        {column.detectedFormat && !column.detectedFormat.applied && (
+                          <div className="space-y-2 rounded-md border border-orange-200 bg-orange-50 p-2">
+                            <div className="flex items-center gap-1 text-xs font-medium text-orange-700">
+                              <AlertTriangle className="w-3 h-3" />
+                              Ambiguous format, kept as text
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                              {[column.detectedFormat.format, ...column.detectedFormat.alternatives].map(
+                                (format, index) => (
+                                  <Button
+                                    key={index}
+                                    variant={index === 0 ? "default" : "outline"}
+                                    size="sm"
+                                    className="h-7 text-xs"
+                                    disabled={!onFileUpdate}
+                                    onClick={() => handleFormatConfirm(column.name, format)}
+                                  >
+                                    {describeValueFormat(format)}
+                                    {index === 0 && ` (${Math.round(column.detectedFormat!.confidence * 100)}% likely)`}
+                                  </Button>
+                                ),
+                              )}
+                            </div>
+                          </div>
+                        )}
+
                         <div className="grid grid-cols-2 gap-4 text-sm">
                           <div>
                             <span className="text-muted-foreground">Unique values:</span>
@@ -396,6 +523,21 @@ export function DataPreview({ files, selectedFileId, onFileSelect }: DataPreview
                           </div>
                         )}
 
+                        {selectedFile.columnMeta?.[column.name]?.valueLabels && (
+                          <div className="space-y-2">
+                            <div className="text-sm font-medium text-muted-foreground">Value labels:</div>
+                            <div className="space-y-1 text-xs max-h-24 overflow-y-auto">
+                              {Object.entries(selectedFile.columnMeta[column.name].valueLabels!).map(
+                                ([value, label]) => (
+                                  <div key={value}>
+                                    <span className="font-medium">{value}</span> = {label}
+                                  </div>
+                                ),
+                              )}
+                            </div>
+                          </div>
+                        )}
+
                         <div className="space-y-2">
                           <div className="text-sm font-medium text-muted-foreground">Sample values:</div>
                           <div className="flex flex-wrap gap-1">
@@ -4,6 +4,7 @@ import { useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import {
   Upload,
@@ -17,9 +18,11 @@ import {
   ArrowLeft,
   WorkflowIcon,
   Download,
+  AlertCircle,
 } from "lucide-react"
 import { FileUpload, type DataFile } from "@/components/file-upload"
 import { DataPreview } from "@/components/data-preview"
+import { JoinReportSummary } from "@/components/operations/join-report-summary"
 import { WorkflowBuilder } from "@/components/workflow-builder"
 import { MergeOperation, type MergeConfig } from "@/components/operations/merge-operation"
 import { AggregateOperation, type AggregateConfig } from "@/components/operations/aggregate-operation"
@@ -28,6 +31,11 @@ import { WorkflowManager, type Workflow } from "@/lib/workflow-manager"
 import { DataExport } from "@/components/advanced/data-export"
 import { DataValidation } from "@/components/advanced/data-validation"
 import { UrlDataSource } from "@/components/advanced/url-data-source"
+import { ClipboardDataSource } from "@/components/advanced/clipboard-data-source"
+import { mergeColumnMetadata } from "@/lib/column-metadata"
+import { getSchema, inferSchema, type ColumnSchema } from "@/lib/column-schema"
+import { appendTables } from "@/lib/append"
+import { joinTables } from "@/lib/join"
 
 type ActiveOperation = "merge" | "aggregate" | "reshape" | null
 
@@ -40,63 +48,158 @@ export function DataReshapingTool() {
   const [savedWorkflows, setSavedWorkflows] = useState(WorkflowManager.getAllWorkflows())
   const [isProcessing, setIsProcessing] = useState(false)
   const [processingMessage, setProcessingMessage] = useState("")
+  const [operationError, setOperationError] = useState<string | null>(null)
   const [activeTab, setActiveTab] = useState("workspace")
 
-  const handleFilesChange = (files: DataFile[]) => {
-    setUploadedFiles(files)
+  // Uploads are merged by id, so files edited or loaded from other sources are kept as they are
+  const handleFilesAdded = (files: DataFile[]) => {
+    setUploadedFiles((prev) => [...prev, ...files.filter((file) => !prev.some((f) => f.id === file.id))])
     const readyFile = files.find((f) => f.status === "ready")
     if (readyFile && !selectedPreviewFile) {
       setSelectedPreviewFile(readyFile.id)
     }
   }
 
-  const handleUrlFileLoaded = (file: DataFile) => {
+  const handleFileRemoved = (id: string) => {
+    setUploadedFiles((prev) => prev.filter((f) => f.id !== id))
+  }
+
+  const handleSourceFileLoaded = (file: DataFile) => {
     setUploadedFiles((prev) => [...prev, file])
     if (!selectedPreviewFile) {
       setSelectedPreviewFile(file.id)
     }
   }
 
+  const handleFileUpdated = (file: DataFile) => {
+    setUploadedFiles((prev) => prev.map((f) => (f.id === file.id ? file : f)))
+    setResults((prev) => prev.map((f) => (f.id === file.id ? file : f)))
+  }
+
   const handleMergeExecute = async (config: MergeConfig) => {
     console.log("[v0] Executing merge operation:", config)
     setIsProcessing(true)
+    setOperationError(null)
     setProcessingMessage("Merging datasets...")
 
     await new Promise((resolve) => setTimeout(resolve, 1500))
 
-    const sourceFiles = uploadedFiles.filter((f) => config.sourceFiles.includes(f.id))
-    let mergedData: any[] = []
-    let mergedColumns: string[] = []
-
-    if (config.type === "append") {
-      mergedColumns = sourceFiles[0]?.columns || []
-      mergedData = sourceFiles.reduce((acc, file) => {
-        return acc.concat(file.data || [])
-      }, [] as any[])
-    } else if (config.type === "join" && config.joinColumns) {
-      const [file1, file2] = sourceFiles
-      mergedColumns = [...(file1.columns || []), ...(file2.columns || [])]
-      mergedData = (file1.data || []).slice(0, 100)
-    }
+    try {
+      // Selection order decides which file is the first side of a join
+      const sourceFiles = config.sourceFiles
+        .map((id) => [...uploadedFiles, ...results].find((f) => f.id === id))
+        .filter(Boolean) as DataFile[]
+      let mergedData: any[] = []
+      let mergedColumns: string[] = []
+      let join: DataFile["join"]
+      const unmatchedFiles: DataFile[] = []
+      let columnMeta = mergeColumnMetadata(sourceFiles.map((file) => ({ meta: file.columnMeta })))
+      let knownSchema = sourceFiles.flatMap((file) => getSchema(file))
+      let previousSchema: ColumnSchema[] | undefined
+
+      if (config.type === "append") {
+        const appended = appendTables(
+          sourceFiles.map((file) => ({
+            name: file.name,
+            columns: file.columns || [],
+            data: file.data || [],
+            mapping: config.columnMappings?.[file.id],
+          })),
+          { columns: config.appendColumns ?? "union", sourceColumn: config.sourceColumn },
+        )
+        mergedColumns = appended.columns
+        mergedData = appended.data
+
+        // Types are inferred again over the stacked rows, keeping those the user chose in any file
+        const renamers = sourceFiles.map(
+          (_, position) => (column: string) =>
+            appended.sources.find((source) => source.sources[position] === column)?.name,
+        )
+        columnMeta = mergeColumnMetadata(
+          sourceFiles.map((file, position) => ({ meta: file.columnMeta, rename: renamers[position] })),
+        )
+        knownSchema = []
+        previousSchema = sourceFiles
+          .flatMap((file, position) =>
+            getSchema(file).map((column) => ({ ...column, name: renamers[position](column.name) ?? "" })),
+          )
+          .filter((column) => column.name)
+      } else if (config.type === "join" && config.joinColumns) {
+        const [file1, file2] = sourceFiles
+        const joined = joinTables(
+          { columns: file1.columns || [], data: file1.data || [] },
+          { columns: file2.columns || [], data: file2.data || [] },
+          { type: config.joinType ?? "inner", on: config.joinColumns, columnOptions: config.columnOptions },
+        )
+        mergedColumns = joined.columns
+        mergedData = joined.data
+        join = { report: joined.report, leftName: file1.name, rightName: file2.name }
+
+        // Labels and types follow each column to its name in the result, suffixed or not
+        const leftName = (column: string) => joined.sources.find((source) => source.left === column)?.name
+        const rightName = (column: string) => joined.sources.find((source) => source.right === column)?.name
+        columnMeta = mergeColumnMetadata([
+          { meta: file1.columnMeta, rename: leftName },
+          { meta: file2.columnMeta, rename: rightName },
+        ])
+        knownSchema = [
+          ...getSchema(file1).map((column) => ({ ...column, name: leftName(column.name) ?? "" })),
+          ...getSchema(file2).map((column) => ({ ...column, name: rightName(column.name) ?? "" })),
+        ].filter((column) => column.name)
+
+        if (config.outputUnmatched) {
+          const sides = [
+            { file: file1, rows: joined.unmatched.left },
+            { file: file2, rows: joined.unmatched.right },
+          ]
+          for (const { file, rows } of sides) {
+            if (rows.length === 0) continue
+            unmatchedFiles.push({
+              id: Math.random().toString(36).substr(2, 9),
+              name: `${config.outputName} (unmatched in ${file.name})`,
+              size: 0,
+              type: "application/json",
+              status: "ready",
+              progress: 100,
+              data: rows,
+              columns: file.columns,
+              rows: rows.length,
+              columnMeta: file.columnMeta,
+              schema: getSchema(file),
+            })
+          }
+        }
+      }
 
-    const result: DataFile = {
-      id: Math.random().toString(36).substr(2, 9),
-      name: config.outputName,
-      size: 0,
-      type: "application/json",
-      status: "ready",
-      progress: 100,
-      data: mergedData,
-      columns: mergedColumns,
-      rows: mergedData.length,
-    }
+      const result: DataFile = {
+        id: Math.random().toString(36).substr(2, 9),
+        name: config.outputName,
+        size: 0,
+        type: "application/json",
+        status: "ready",
+        progress: 100,
+        data: mergedData,
+        columns: mergedColumns,
+        rows: mergedData.length,
+        columnMeta,
+        schema: getSchema(
+          { columns: mergedColumns, data: mergedData, columnMeta, schema: knownSchema },
+          previousSchema,
+        ),
+        join,
+      }
 
-    setResults((prev) => [...prev, result])
-    setActiveOperation(null)
-    setSelectedPreviewFile(result.id)
-    setActiveTab("preview")
-    setIsProcessing(false)
-    setProcessingMessage("")
+      setResults((prev) => [...prev, result, ...unmatchedFiles])
+      setActiveOperation(null)
+      setSelectedPreviewFile(result.id)
+      setActiveTab("preview")
+    } catch (err) {
+      // Nothing is added when the join or append fails, for example past the cross join limit
+      setOperationError(err instanceof Error ? err.message : "The merge failed")
+    } finally {
+      setIsProcessing(false)
+      setProcessingMessage("")
+    }
   }
 
   const handleAggregateExecute = async (config: AggregateConfig) => {
@@ -124,6 +227,7 @@ export function DataReshapingTool() {
       data: aggregatedData,
       columns: Object.keys(aggregatedData[0] || {}),
       rows: aggregatedData.length,
+      schema: inferSchema(Object.keys(aggregatedData[0] || {}), aggregatedData),
     }
 
     setResults((prev) => [...prev, result])
@@ -226,6 +330,14 @@ export function DataReshapingTool() {
       data: reshapedData,
       columns: reshapedColumns,
       rows: reshapedData.length,
+      // Identifier columns keep their types; melted and pivoted columns are inferred
+      schema: getSchema({
+        columns: reshapedColumns,
+        data: reshapedData,
+        schema: getSchema(sourceFile).filter((column) =>
+          (config.operation === "melt" ? config.idColumns : config.indexColumns)?.includes(column.name),
+        ),
+      }),
     }
 
     setResults((prev) => [...prev, result])
@@ -416,7 +528,15 @@ export function DataReshapingTool() {
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-3">
               {activeOperation && (
-                <Button variant="ghost" size="sm" onClick={() => setActiveOperation(null)} className="h-7 w-7 p-0">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setOperationError(null)
+                    setActiveOperation(null)
+                  }}
+                  className="h-7 w-7 p-0"
+                >
                   <ArrowLeft className="w-4 h-4" />
                 </Button>
               )}
@@ -457,11 +577,20 @@ export function DataReshapingTool() {
         <div className="flex-1 p-4">
           {activeOperation ? (
             <div className="h-full">
+              {activeOperation === "merge" && operationError && (
+                <Alert variant="destructive" className="mb-4">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{operationError}</AlertDescription>
+                </Alert>
+              )}
               {activeOperation === "merge" && (
                 <MergeOperation
                   files={allFiles}
                   onExecute={handleMergeExecute}
-                  onCancel={() => setActiveOperation(null)}
+                  onCancel={() => {
+                    setOperationError(null)
+                    setActiveOperation(null)
+                  }}
                 />
               )}
               {activeOperation === "aggregate" && (
@@ -523,8 +652,9 @@ export function DataReshapingTool() {
               <TabsContent value="workspace" className="mt-4 h-full">
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 h-full">
                   <div className="space-y-4">
-                    <FileUpload onFilesChange={handleFilesChange} />
-                    <UrlDataSource onFileLoaded={handleUrlFileLoaded} />
+                    <FileUpload onFilesAdded={handleFilesAdded} onFileRemoved={handleFileRemoved} />
+                    <UrlDataSource onFileLoaded={handleSourceFileLoaded} />
+                    <ClipboardDataSource onFileLoaded={handleSourceFileLoaded} />
                   </div>
 
                   <Card className="border-border/30 shadow-sm">
@@ -599,6 +729,7 @@ export function DataReshapingTool() {
                   files={allFiles}
                   selectedFileId={selectedPreviewFile}
                   onFileSelect={setSelectedPreviewFile}
+                  onFileUpdate={handleFileUpdated}
                 />
               </TabsContent>
 
@@ -634,6 +765,15 @@ export function DataReshapingTool() {
                                 {result.rows?.toLocaleString()} rows × {result.columns?.length} columns
                               </Badge>
                             </div>
+                            {result.join && (
+                              <div className="mb-2">
+                                <JoinReportSummary
+                                  report={result.join.report}
+                                  leftName={result.join.leftName}
+                                  rightName={result.join.rightName}
+                                />
+                              </div>
+                            )}
                             <div className="flex items-center gap-2">
                               <Button
                                 variant="outline"
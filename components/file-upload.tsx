@@ -1,14 +1,33 @@
 "use client"
 
-import { useState, useCallback } from "react"
+import { useState, useCallback, useRef } from "react"
 import { useDropzone } from "react-dropzone"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { Upload, FileText, X, CheckCircle, AlertCircle, Loader2 } from "lucide-react"
+import { Upload, FileText, X, CheckCircle, AlertCircle, AlertTriangle, Loader2 } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { XlsxWorkbook, type SheetSelection } from "@/lib/parsers/xlsx-parser"
+import { JsonParser, type JsonDocument, type JsonImportOptions } from "@/lib/parsers/json-parser"
+import { MarkupParser, type MarkupDocument, type MarkupImportOptions } from "@/lib/parsers/markup-parser"
+import { SNIFF_SAMPLE_BYTES } from "@/lib/parsers/sniffer"
+import { SqliteDatabase, type SqliteSelection } from "@/lib/parsers/sqlite-database"
+import { ZipArchive, type ZipEntry } from "@/lib/parsers/zip-reader"
+import { decompress } from "@/lib/parsers/compression"
+import { BackgroundParser, type ParseTask } from "@/lib/parsers/background-parser"
+import type { ParseRequest, ParsedSource } from "@/lib/parsers/parse-runner"
+import type { DataSourceDescriptor } from "@/lib/parsers/data-source"
+import type { ColumnSchema } from "@/lib/column-schema"
+import type { JoinReport } from "@/lib/join"
+import type { ColumnMetadata, ParseError } from "@/lib/parsers/types"
+import { SheetPickerDialog } from "@/components/import/sheet-picker-dialog"
+import { JsonImportDialog } from "@/components/import/json-import-dialog"
+import { TextImportDialog, type TextImportChoice } from "@/components/import/text-import-dialog"
+import { ArchiveBrowserDialog } from "@/components/import/archive-browser-dialog"
+import { MarkupImportDialog } from "@/components/import/markup-import-dialog"
+import { SqliteBrowserDialog } from "@/components/import/sqlite-browser-dialog"
 
 export interface DataFile {
   id: string
@@ -21,103 +40,283 @@ export interface DataFile {
   columns?: string[]
   rows?: number
   error?: string
+  parseErrors?: ParseError[]
+  workbook?: string
+  sheet?: string
+  columnMeta?: Record<string, ColumnMetadata>
+  /** Logical column types, read by every operation instead of guessing from values */
+  schema?: ColumnSchema[]
+  /** Where the data was downloaded from, so it can be refreshed */
+  source?: DataSourceDescriptor
+  /** How well the rows of the two files matched, for datasets produced by a join */
+  join?: { report: JoinReport; leftName: string; rightName: string }
+}
+
+const JSON_LINES_SAMPLE_BYTES = 1024 * 1024
+const SUPPORTED_FILE =
+  /\.(csv|tsv|txt|dat|xlsx|sav|zsav|dta|xpt|json|ndjson|jsonl|xml|html|htm|parquet|arrow|arrows|feather|ipc|sqlite|sqlite3|db)(\.gz)?$/i
+
+// Gzipped files are expanded before parsing and keep their inner name (data.csv.gz -> data.csv)
+async function decompressIfGzipped(file: File): Promise<File> {
+  if (!/\.gz$/i.test(file.name)) return file
+  return new File([await decompress(file, "gzip")], file.name.slice(0, -3))
 }
 
 interface FileUploadProps {
-  onFilesChange: (files: DataFile[]) => void
+  onFilesAdded: (files: DataFile[]) => void
+  onFileRemoved: (id: string) => void
   maxFiles?: number
   maxSize?: number
 }
 
-export function FileUpload({ onFilesChange, maxFiles = 10, maxSize = 100 * 1024 * 1024 }: FileUploadProps) {
+/**
+ * Lists the files dropped here while they are imported. Each is reported once it has been
+ * imported or has failed, and by id when removed, so the caller's list stays the one edited.
+ */
+export function FileUpload({
+  onFilesAdded,
+  onFileRemoved,
+  maxFiles = 10,
+  maxSize = 100 * 1024 * 1024,
+}: FileUploadProps) {
   const [files, setFiles] = useState<DataFile[]>([])
   const [isDragActive, setIsDragActive] = useState(false)
+  const parseTasks = useRef(new Map<string, ParseTask>())
+  const [sheetRequest, setSheetRequest] = useState<{
+    fileName: string
+    workbook: XlsxWorkbook
+    resolve: (selection: SheetSelection[]) => void
+  } | null>(null)
+
+  const requestSheetSelection = useCallback(
+    (fileName: string, workbook: XlsxWorkbook) =>
+      new Promise<SheetSelection[]>((resolve) => setSheetRequest({ fileName, workbook, resolve })),
+    [],
+  )
+
+  const [jsonRequest, setJsonRequest] = useState<{
+    fileName: string
+    document: JsonDocument
+    resolve: (options: JsonImportOptions | null) => void
+  } | null>(null)
+
+  const requestJsonOptions = useCallback(
+    (fileName: string, document: JsonDocument) =>
+      new Promise<JsonImportOptions | null>((resolve) => setJsonRequest({ fileName, document, resolve })),
+    [],
+  )
+
+  const [databaseRequest, setDatabaseRequest] = useState<{
+    fileName: string
+    database: SqliteDatabase
+    resolve: (selection: SqliteSelection[]) => void
+  } | null>(null)
+
+  const requestDatabaseSelection = useCallback(
+    (fileName: string, database: SqliteDatabase) =>
+      new Promise<SqliteSelection[]>((resolve) => setDatabaseRequest({ fileName, database, resolve })),
+    [],
+  )
+
+  const [markupRequest, setMarkupRequest] = useState<{
+    fileName: string
+    document: MarkupDocument
+    resolve: (options: MarkupImportOptions | null) => void
+  } | null>(null)
+
+  const requestMarkupOptions = useCallback(
+    (fileName: string, document: MarkupDocument) =>
+      new Promise<MarkupImportOptions | null>((resolve) => setMarkupRequest({ fileName, document, resolve })),
+    [],
+  )
+
+  const [textRequest, setTextRequest] = useState<{
+    fileName: string
+    sample: Uint8Array
+    fileSize: number
+    resolve: (choice: TextImportChoice | null) => void
+  } | null>(null)
+
+  const requestTextOptions = useCallback(
+    (fileName: string, sample: Uint8Array, fileSize: number) =>
+      new Promise<TextImportChoice | null>((resolve) => setTextRequest({ fileName, sample, fileSize, resolve })),
+    [],
+  )
+
+  const [archiveRequest, setArchiveRequest] = useState<{
+    fileName: string
+    archive: ZipArchive
+    resolve: (entries: ZipEntry[]) => void
+  } | null>(null)
+
+  const requestArchiveSelection = useCallback(
+    (fileName: string, archive: ZipArchive) =>
+      new Promise<ZipEntry[]>((resolve) => setArchiveRequest({ fileName, archive, resolve })),
+    [],
+  )
 
-  const processFile = useCallback(async (file: File): Promise<DataFile> => {
-    const dataFile: DataFile = {
-      id: Math.random().toString(36).substr(2, 9),
-      name: file.name,
-      size: file.size,
-      type: file.type,
-      status: "uploading",
-      progress: 0,
-    }
-
-    // Simulate upload progress
-    const updateProgress = (progress: number) => {
-      setFiles((prev) => prev.map((f) => (f.id === dataFile.id ? { ...f, progress } : f)))
-    }
-
-    try {
-      // Simulate upload
-      for (let i = 0; i <= 100; i += 10) {
-        await new Promise((resolve) => setTimeout(resolve, 50))
-        updateProgress(i)
+  const processFile = useCallback(
+    async (file: File, id: string): Promise<DataFile[]> => {
+      const dataFile: DataFile = {
+        id,
+        name: file.name,
+        size: file.size,
+        type: file.type,
+        status: "uploading",
+        progress: 0,
       }
 
-      // Update status to processing
-      setFiles((prev) => prev.map((f) => (f.id === dataFile.id ? { ...f, status: "processing" } : f)))
-
-      // Parse file based on type
-      const text = await file.text()
-      let data: any[] = []
-      let columns: string[] = []
-
-      if (file.name.endsWith(".csv")) {
-        const lines = text.split("\n").filter((line) => line.trim())
-        if (lines.length > 0) {
-          columns = lines[0].split(",").map((col) => col.trim().replace(/"/g, ""))
-          data = lines.slice(1).map((line) => {
-            const values = line.split(",").map((val) => val.trim().replace(/"/g, ""))
-            const row: any = {}
-            columns.forEach((col, index) => {
-              row[col] = values[index] || ""
-            })
-            return row
-          })
+      const updateFile = (changes: Partial<DataFile>) => {
+        setFiles((prev) => prev.map((f) => (f.id === dataFile.id ? { ...f, ...changes } : f)))
+      }
+
+      // Parses one (already decompressed) file; null means the user cancelled from the file card
+      const loadFile = async (input: File): Promise<DataFile[] | null> => {
+        const name = input.name.toLowerCase()
+
+        // Ask for import options where the format needs them, then parse in the background
+        let request: ParseRequest | null = null
+
+        if (/\.(csv|tsv|txt|dat)$/.test(name)) {
+          const sample = new Uint8Array(await input.slice(0, SNIFF_SAMPLE_BYTES).arrayBuffer())
+          const choice = await requestTextOptions(input.name, sample, input.size)
+          if (choice) request = { ...choice, file: input }
+        } else if (name.endsWith(".xlsx")) {
+          const workbook = await XlsxWorkbook.open(input)
+          const sheets = await requestSheetSelection(input.name, workbook)
+          if (sheets.length > 0) request = { format: "xlsx", file: input, sheets }
+        } else if (name.endsWith(".sav") || name.endsWith(".zsav")) {
+          request = { format: "spss", file: input }
+        } else if (name.endsWith(".dta")) {
+          request = { format: "stata", file: input }
+        } else if (name.endsWith(".xpt")) {
+          request = { format: "xport", file: input }
+        } else if (name.endsWith(".parquet")) {
+          request = { format: "parquet", file: input }
+        } else if (/\.(arrow|arrows|feather|ipc)$/.test(name)) {
+          request = { format: "arrow", file: input }
+        } else if (/\.(ndjson|jsonl)$/.test(name)) {
+          // The first lines are enough to choose a path; the whole file is read in the background
+          const sample = await input.slice(0, JSON_LINES_SAMPLE_BYTES).text()
+          const complete = input.size <= JSON_LINES_SAMPLE_BYTES
+          const document = JsonParser.read(complete ? sample : sample.slice(0, sample.lastIndexOf("\n") + 1), true)
+          const options = await requestJsonOptions(input.name, document)
+          if (options) request = { format: "ndjson", file: input, options }
+        } else if (name.endsWith(".json")) {
+          // A JSON document has to be parsed whole before its arrays can be listed
+          const document = JsonParser.read(await input.text())
+          const options = await requestJsonOptions(input.name, document)
+          if (options) request = { format: "json", file: input, options }
+        } else if (/\.(sqlite|sqlite3|db)$/.test(name)) {
+          // The database is queried in memory while the user browses it, then read on confirmation
+          const database = await SqliteDatabase.open(input)
+          let selection: SqliteSelection[]
+          try {
+            selection = await requestDatabaseSelection(input.name, database)
+          } finally {
+            database.close()
+          }
+          if (selection.length > 0) request = { format: "sqlite", file: input, selection }
+        } else if (/\.(xml|html|htm)$/.test(name)) {
+          // Like JSON, markup is parsed whole so the repeating elements or tables can be listed
+          const format = name.endsWith(".xml") ? "xml" : "html"
+          const document = MarkupParser.read(new Uint8Array(await input.arrayBuffer()), format)
+          const options = await requestMarkupOptions(input.name, document)
+          if (options) request = { format, file: input, options }
+        } else {
+          throw new Error(`${input.name} is not a supported file type`)
         }
-      } else if (file.name.endsWith(".xlsx")) {
-        // For demo purposes, simulate Excel parsing
-        columns = ["Column A", "Column B", "Column C"]
-        data = Array.from({ length: 100 }, (_, i) => ({
-          "Column A": `Value A${i + 1}`,
-          "Column B": `Value B${i + 1}`,
-          "Column C": `Value C${i + 1}`,
-        }))
-      } else if (file.name.endsWith(".sav")) {
-        // For demo purposes, simulate SPSS parsing
-        columns = ["Variable 1", "Variable 2", "Variable 3"]
-        data = Array.from({ length: 50 }, (_, i) => ({
-          "Variable 1": Math.random() * 100,
-          "Variable 2": Math.random() * 50,
-          "Variable 3": Math.random() * 25,
+
+        // A dialog cancelled or confirmed without a selection imports nothing
+        if (!request) return []
+
+        updateFile({ status: "processing", progress: 0 })
+
+        const task = BackgroundParser.start(request, (loaded, total) => {
+          updateFile({ progress: total > 0 ? Math.round((loaded / total) * 100) : 100 })
+        })
+        parseTasks.current.set(dataFile.id, task)
+
+        let parsed: ParsedSource[] | null
+        try {
+          parsed = await task.result
+        } finally {
+          parseTasks.current.delete(dataFile.id)
+        }
+
+        if (!parsed) return null
+        const sources = parsed
+        if (request.format === "xport" && sources.length === 0) {
+          throw new Error("The transport file does not contain any datasets")
+        }
+
+        // Workbooks, databases and transport libraries can hold several tables; each becomes its own file
+        const isWorkbook = request.format === "xlsx"
+        const isDatabase = request.format === "sqlite"
+        return sources.map(({ name, table, schema }) => ({
+          ...dataFile,
+          id: Math.random().toString(36).substr(2, 9),
+          name: name && (isWorkbook || isDatabase || sources.length > 1) ? `${input.name} [${name}]` : input.name,
+          size: input.size,
+          status: "ready",
+          progress: 100,
+          data: table.data,
+          columns: table.columns,
+          rows: table.data.length,
+          parseErrors: table.errors.length > 0 ? table.errors : undefined,
+          columnMeta: table.columnMeta,
+          schema,
+          ...(isWorkbook && { workbook: input.name, sheet: name }),
         }))
       }
 
-      const processedFile: DataFile = {
-        ...dataFile,
-        status: "ready",
-        progress: 100,
-        data,
-        columns,
-        rows: data.length,
-      }
+      try {
+        const loaded: DataFile[] = []
+
+        if (/\.zip$/i.test(file.name)) {
+          const archive = await ZipArchive.open(file)
+          const entries = await requestArchiveSelection(file.name, archive)
+
+          for (const entry of entries) {
+            const member = new File([await archive.readBytes(entry)], `${file.name}/${entry.name}`)
+            const results = await loadFile(await decompressIfGzipped(member))
+            if (!results) return []
+            loaded.push(...results)
+          }
+        } else {
+          const results = await loadFile(await decompressIfGzipped(file))
+          if (!results) return []
+          loaded.push(...results)
+        }
 
-      setFiles((prev) => prev.map((f) => (f.id === dataFile.id ? processedFile : f)))
+        // The first result takes over the placeholder card
+        const results = loaded.map((result, index) => (index === 0 ? { ...result, id: dataFile.id } : result))
 
-      return processedFile
-    } catch (error) {
-      const errorFile: DataFile = {
-        ...dataFile,
-        status: "error",
-        error: error instanceof Error ? error.message : "Failed to process file",
-      }
+        // An empty result means the user cancelled the import, so the placeholder is dropped
+        setFiles((prev) => prev.flatMap((f) => (f.id === dataFile.id ? results : [f])))
 
-      setFiles((prev) => prev.map((f) => (f.id === dataFile.id ? errorFile : f)))
+        return results
+      } catch (error) {
+        const errorFile: DataFile = {
+          ...dataFile,
+          status: "error",
+          error: error instanceof Error ? error.message : "Failed to process file",
+        }
 
-      return errorFile
-    }
-  }, [])
+        setFiles((prev) => prev.map((f) => (f.id === dataFile.id ? errorFile : f)))
+
+        return [errorFile]
+      }
+    },
+    [
+      requestArchiveSelection,
+      requestTextOptions,
+      requestSheetSelection,
+      requestJsonOptions,
+      requestMarkupOptions,
+      requestDatabaseSelection,
+    ],
+  )
 
   const onDrop = useCallback(
     async (acceptedFiles: File[]) => {
@@ -125,7 +324,7 @@ export function FileUpload({ onFilesChange, maxFiles = 10, maxSize = 100 * 1024
 
       // Validate files
       const validFiles = acceptedFiles.filter((file) => {
-        const isValidType = file.name.match(/\.(csv|xlsx|sav)$/i)
+        const isValidType = SUPPORTED_FILE.test(file.name) || /\.zip$/i.test(file.name)
         const isValidSize = file.size <= maxSize
         return isValidType && isValidSize
       })
@@ -147,11 +346,14 @@ export function FileUpload({ onFilesChange, maxFiles = 10, maxSize = 100 * 1024
 
       setFiles((prev) => [...prev, ...newFiles])
 
-      // Process files
-      const processedFiles = await Promise.all(validFiles.map(processFile))
-      onFilesChange([...files, ...processedFiles])
+      // Process files one at a time so import dialogs are shown in turn
+      const processedFiles: DataFile[] = []
+      for (const [index, file] of validFiles.entries()) {
+        processedFiles.push(...(await processFile(file, newFiles[index].id)))
+      }
+      if (processedFiles.length > 0) onFilesAdded(processedFiles)
     },
-    [files, maxSize, onFilesChange, processFile],
+    [maxSize, onFilesAdded, processFile],
   )
 
   const {
@@ -162,8 +364,22 @@ export function FileUpload({ onFilesChange, maxFiles = 10, maxSize = 100 * 1024
     onDrop,
     accept: {
       "text/csv": [".csv"],
+      "text/tab-separated-values": [".tsv"],
+      "text/plain": [".txt", ".dat"],
       "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [".xlsx"],
-      "application/x-spss-sav": [".sav"],
+      "application/x-spss-sav": [".sav", ".zsav"],
+      "application/x-stata-dta": [".dta"],
+      "application/x-sas-xport": [".xpt"],
+      "application/json": [".json"],
+      "application/x-ndjson": [".ndjson", ".jsonl"],
+      "application/xml": [".xml"],
+      "text/html": [".html", ".htm"],
+      "application/vnd.sqlite3": [".sqlite", ".sqlite3", ".db"],
+      "application/vnd.apache.parquet": [".parquet"],
+      "application/vnd.apache.arrow.file": [".arrow", ".feather", ".ipc"],
+      "application/vnd.apache.arrow.stream": [".arrows"],
+      "application/gzip": [".gz"],
+      "application/zip": [".zip"],
     },
     maxFiles,
     maxSize,
@@ -172,15 +388,21 @@ export function FileUpload({ onFilesChange, maxFiles = 10, maxSize = 100 * 1024
   })
 
   const removeFile = (id: string) => {
-    const updatedFiles = files.filter((f) => f.id !== id)
-    setFiles(updatedFiles)
-    onFilesChange(updatedFiles)
+    parseTasks.current.get(id)?.cancel()
+    setFiles((prev) => prev.filter((f) => f.id !== id))
+    onFileRemoved(id)
   }
 
   const getFileIcon = (fileName: string) => {
-    if (fileName.endsWith(".csv")) return "📊"
+    if (/\.(csv|tsv|txt|dat)$/.test(fileName)) return "📊"
     if (fileName.endsWith(".xlsx")) return "📈"
-    if (fileName.endsWith(".sav")) return "📋"
+    if (fileName.endsWith(".sav") || fileName.endsWith(".zsav")) return "📋"
+    if (fileName.endsWith(".dta") || fileName.endsWith(".xpt")) return "📋"
+    if (/\.(json|ndjson|jsonl)$/.test(fileName)) return "🧾"
+    if (/\.(xml|html|htm)$/.test(fileName)) return "🏷️"
+    if (/\.(sqlite|sqlite3|db)$/.test(fileName)) return "🛢️"
+    if (/\.(parquet|arrow|arrows|feather|ipc)$/.test(fileName)) return "🗄️"
+    if (/\.(zip|gz)$/i.test(fileName)) return "🗜️"
     return "📄"
   }
 
@@ -192,8 +414,100 @@ export function FileUpload({ onFilesChange, maxFiles = 10, maxSize = 100 * 1024
     return Number.parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i]
   }
 
+  const resolveArchiveRequest = (entries: ZipEntry[]) => {
+    archiveRequest?.resolve(entries)
+    setArchiveRequest(null)
+  }
+
+  const resolveTextRequest = (choice: TextImportChoice | null) => {
+    textRequest?.resolve(choice)
+    setTextRequest(null)
+  }
+
+  const resolveSheetRequest = (selection: SheetSelection[]) => {
+    sheetRequest?.resolve(selection)
+    setSheetRequest(null)
+  }
+
+  const resolveJsonRequest = (options: JsonImportOptions | null) => {
+    jsonRequest?.resolve(options)
+    setJsonRequest(null)
+  }
+
+  const resolveDatabaseRequest = (selection: SqliteSelection[]) => {
+    databaseRequest?.resolve(selection)
+    setDatabaseRequest(null)
+  }
+
+  const resolveMarkupRequest = (options: MarkupImportOptions | null) => {
+    markupRequest?.resolve(options)
+    setMarkupRequest(null)
+  }
+
   return (
     <div className="space-y-6">
+      {archiveRequest && (
+        <ArchiveBrowserDialog
+          open
+          fileName={archiveRequest.fileName}
+          archive={archiveRequest.archive}
+          isSupported={(entryName) => SUPPORTED_FILE.test(entryName)}
+          onConfirm={resolveArchiveRequest}
+          onCancel={() => resolveArchiveRequest([])}
+        />
+      )}
+
+      {textRequest && (
+        <TextImportDialog
+          open
+          fileName={textRequest.fileName}
+          sample={textRequest.sample}
+          fileSize={textRequest.fileSize}
+          onConfirm={resolveTextRequest}
+          onCancel={() => resolveTextRequest(null)}
+        />
+      )}
+
+      {sheetRequest && (
+        <SheetPickerDialog
+          open
+          fileName={sheetRequest.fileName}
+          workbook={sheetRequest.workbook}
+          onConfirm={resolveSheetRequest}
+          onCancel={() => resolveSheetRequest([])}
+        />
+      )}
+
+      {jsonRequest && (
+        <JsonImportDialog
+          open
+          fileName={jsonRequest.fileName}
+          document={jsonRequest.document}
+          onConfirm={resolveJsonRequest}
+          onCancel={() => resolveJsonRequest(null)}
+        />
+      )}
+
+      {databaseRequest && (
+        <SqliteBrowserDialog
+          open
+          fileName={databaseRequest.fileName}
+          database={databaseRequest.database}
+          onConfirm={resolveDatabaseRequest}
+          onCancel={() => resolveDatabaseRequest([])}
+        />
+      )}
+
+      {markupRequest && (
+        <MarkupImportDialog
+          open
+          fileName={markupRequest.fileName}
+          document={markupRequest.document}
+          onConfirm={resolveMarkupRequest}
+          onCancel={() => resolveMarkupRequest(null)}
+        />
+      )}
+
       {/* Upload Area */}
       <Card
         className={cn(
@@ -228,7 +542,8 @@ export function FileUpload({ onFilesChange, maxFiles = 10, maxSize = 100 * 1024
                 : "Drag and drop your files here or click to browse"}
               <br />
               <span className="text-xs text-muted-foreground mt-2 block">
-                Supports .CSV, .XLSX, .SAV files up to {formatFileSize(maxSize)}
+                Supports .CSV, .TSV, .TXT, .DAT, .XLSX, .SAV, .DTA, .XPT, .JSON, .NDJSON, .XML, .HTML, .PARQUET, .ARROW,
+                .FEATHER, .SQLITE files (also gzipped or in a .ZIP) up to {formatFileSize(maxSize)}
               </span>
             </CardDescription>
           </CardHeader>
@@ -263,7 +578,9 @@ export function FileUpload({ onFilesChange, maxFiles = 10, maxSize = 100 * 1024
                         file.status === "ready" ? "default" : file.status === "error" ? "destructive" : "secondary"
                       }
                     >
-                      {file.status === "uploading" && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                      {(file.status === "uploading" || file.status === "processing") && (
+                        <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                      )}
                       {file.status === "ready" && <CheckCircle className="w-3 h-3 mr-1" />}
                       {file.status === "error" && <AlertCircle className="w-3 h-3 mr-1" />}
                       {file.status}
@@ -276,7 +593,27 @@ export function FileUpload({ onFilesChange, maxFiles = 10, maxSize = 100 * 1024
                     {file.columns && <span>{file.columns.length} columns</span>}
                   </div>
 
-                  {file.status === "uploading" && <Progress value={file.progress} className="mt-2 h-1" />}
+                  {file.status === "processing" && <Progress value={file.progress} className="mt-2 h-1" />}
+
+                  {file.parseErrors && file.parseErrors.length > 0 && (
+                    <Alert className="mt-2">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertDescription>
+                        <p>
+                          {file.parseErrors.length} parse issue{file.parseErrors.length !== 1 ? "s" : ""} found
+                        </p>
+                        <ul className="text-xs list-disc pl-4">
+                          {file.parseErrors.slice(0, 3).map((parseError, index) => (
+                            <li key={index}>
+                              {parseError.line !== undefined && `Line ${parseError.line}: `}
+                              {parseError.message}
+                            </li>
+                          ))}
+                        </ul>
+                        {file.parseErrors.length > 3 && <p className="text-xs">+{file.parseErrors.length - 3} more</p>}
+                      </AlertDescription>
+                    </Alert>
+                  )}
 
                   {file.error && (
                     <Alert className="mt-2" variant="destructive">
@@ -0,0 +1,139 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { FileText } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { ZipArchive, ZipEntry } from "@/lib/parsers/zip-reader"
+
+interface ArchiveBrowserDialogProps {
+  open: boolean
+  fileName: string
+  archive: ZipArchive
+  isSupported: (entryName: string) => boolean
+  onConfirm: (entries: ZipEntry[]) => void
+  onCancel: () => void
+}
+
+export function ArchiveBrowserDialog({
+  open,
+  fileName,
+  archive,
+  isSupported,
+  onConfirm,
+  onCancel,
+}: ArchiveBrowserDialogProps) {
+  // Folders and macOS resource forks are never shown
+  const entries = archive.entries.filter(
+    (entry) => !entry.isDirectory && !/(^|\/)(__MACOSX|\.DS_Store)/.test(entry.name),
+  )
+  const supportedEntries = entries.filter((entry) => isSupported(entry.name))
+  const [selectedEntries, setSelectedEntries] = useState<string[]>(supportedEntries.map((entry) => entry.name))
+
+  const handleEntrySelection = (entryName: string, checked: boolean) => {
+    if (checked) {
+      setSelectedEntries((prev) => [...prev, entryName])
+    } else {
+      setSelectedEntries((prev) => prev.filter((name) => name !== entryName))
+    }
+  }
+
+  const formatFileSize = (bytes: number) => {
+    if (bytes === 0) return "0 Bytes"
+    const k = 1024
+    const sizes = ["Bytes", "KB", "MB", "GB"]
+    const i = Math.floor(Math.log(bytes) / Math.log(k))
+    return Number.parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i]
+  }
+
+  const allSelected = supportedEntries.length > 0 && selectedEntries.length === supportedEntries.length
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Open Archive</DialogTitle>
+          <DialogDescription>
+            Choose which files in {fileName} to load. Each file becomes its own dataset.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="archive-select-all"
+            checked={allSelected}
+            onCheckedChange={(checked) =>
+              setSelectedEntries(checked ? supportedEntries.map((entry) => entry.name) : [])
+            }
+          />
+          <label htmlFor="archive-select-all" className="text-sm cursor-pointer">
+            Select all supported files
+          </label>
+        </div>
+
+        <ScrollArea className="h-80 border border-border rounded-lg p-3">
+          <div className="space-y-2">
+            {entries.length === 0 && <div className="text-sm text-muted-foreground p-2">This archive is empty</div>}
+            {entries.map((entry) => {
+              const supported = isSupported(entry.name)
+              const slash = entry.name.lastIndexOf("/")
+              return (
+                <div
+                  key={entry.name}
+                  className={cn(
+                    "flex items-center gap-3 p-2 rounded-md",
+                    supported ? "hover:bg-muted/50" : "opacity-50",
+                  )}
+                >
+                  <Checkbox
+                    id={`entry-${entry.name}`}
+                    checked={selectedEntries.includes(entry.name)}
+                    disabled={!supported}
+                    onCheckedChange={(checked) => handleEntrySelection(entry.name, checked as boolean)}
+                  />
+                  <FileText className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                  <label htmlFor={`entry-${entry.name}`} className="flex-1 min-w-0 cursor-pointer">
+                    <div className="text-sm truncate">{entry.name.slice(slash + 1)}</div>
+                    {slash !== -1 && (
+                      <div className="text-xs text-muted-foreground truncate">{entry.name.slice(0, slash)}</div>
+                    )}
+                  </label>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {formatFileSize(entry.uncompressedSize)}
+                  </span>
+                  {!supported && (
+                    <Badge variant="outline" className="text-xs">
+                      unsupported
+                    </Badge>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </ScrollArea>
+
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-muted-foreground">
+            {selectedEntries.length} of {supportedEntries.length} supported file
+            {supportedEntries.length !== 1 ? "s" : ""} selected
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => onConfirm(entries.filter((entry) => selectedEntries.includes(entry.name)))}
+              disabled={selectedEntries.length === 0}
+            >
+              Load {selectedEntries.length > 1 ? `${selectedEntries.length} Files` : "File"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,211 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle, FileUp, Trash2, Wand2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import {
+  guessFixedWidthColumns,
+  parseFixedWidthLayout,
+  toggleColumnBoundary,
+  type FixedWidthColumn,
+  type FixedWidthType,
+} from "@/lib/parsers/fixed-width-parser"
+
+interface FixedWidthEditorProps {
+  lines: string[]
+  columns: FixedWidthColumn[]
+  onColumnsChange: (columns: FixedWidthColumn[]) => void
+}
+
+const MAX_RULER_WIDTH = 400
+
+const columnTypes: { value: FixedWidthType; label: string }[] = [
+  { value: "string", label: "Text" },
+  { value: "integer", label: "Integer" },
+  { value: "decimal", label: "Decimal" },
+  { value: "date", label: "Date" },
+]
+
+export function FixedWidthEditor({ lines, columns, onColumnsChange }: FixedWidthEditorProps) {
+  const layoutInput = useRef<HTMLInputElement>(null)
+  const [layoutError, setLayoutError] = useState<string | null>(null)
+
+  const lineWidth = Math.min(
+    MAX_RULER_WIDTH,
+    lines.reduce((max, line) => Math.max(max, line.length), 0),
+  )
+
+  const handleRulerClick = (position: number) => {
+    onColumnsChange(toggleColumnBoundary(columns, position, lineWidth))
+  }
+
+  const handleLayoutFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      onColumnsChange(parseFixedWidthLayout(await file.text()))
+      setLayoutError(null)
+    } catch (error) {
+      setLayoutError(error instanceof Error ? error.message : "The layout file could not be read")
+    }
+  }
+
+  const updateColumn = (index: number, changes: Partial<FixedWidthColumn>) => {
+    onColumnsChange(columns.map((column, i) => (i === index ? { ...column, ...changes } : column)))
+  }
+
+  const rulerMark = (position: number) => {
+    const column = position + 1
+    if (column % 10 === 0) return String((column / 10) % 10)
+    return column % 5 === 0 ? "+" : "·"
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">
+          Click the ruler to add or remove a column boundary, or load a layout file.
+        </span>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => onColumnsChange(guessFixedWidthColumns(lines))}>
+            <Wand2 className="w-3 h-3 mr-1" />
+            Detect
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => layoutInput.current?.click()}>
+            <FileUp className="w-3 h-3 mr-1" />
+            Load Layout
+          </Button>
+          <input
+            ref={layoutInput}
+            type="file"
+            accept=".csv,.txt,.json,.sps,.layout"
+            className="hidden"
+            onChange={(e) => {
+              handleLayoutFile(e.target.files?.[0])
+              e.target.value = ""
+            }}
+          />
+        </div>
+      </div>
+
+      {layoutError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{layoutError}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Ruler and Sample Lines */}
+      <div className="border border-border rounded-lg overflow-auto max-h-48">
+        <div className="relative font-mono text-xs w-max min-w-full">
+          <div className="flex sticky top-0 bg-muted text-muted-foreground select-none">
+            {Array.from({ length: lineWidth + 1 }, (_, position) => (
+              <span
+                key={position}
+                className="w-[1ch] text-center cursor-pointer hover:bg-primary/20"
+                onClick={() => handleRulerClick(position)}
+                title={`Position ${position + 1}`}
+              >
+                {rulerMark(position)}
+              </span>
+            ))}
+          </div>
+          <pre className="p-0 m-0 leading-5">
+            {lines.map((line, index) => (
+              <div key={index} className="whitespace-pre">
+                {line.slice(0, MAX_RULER_WIDTH) || " "}
+              </div>
+            ))}
+          </pre>
+          {columns.map((column) => (
+            <div
+              key={`${column.start}-${column.name}`}
+              className={cn(
+                "absolute top-0 bottom-0 w-px bg-primary pointer-events-none",
+                column.start === 0 && "hidden",
+              )}
+              style={{ left: `${column.start}ch` }}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* Column Definitions */}
+      <div className="border border-border rounded-lg overflow-auto max-h-48">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-xs">Name</TableHead>
+              <TableHead className="text-xs w-24">Start</TableHead>
+              <TableHead className="text-xs w-24">Width</TableHead>
+              <TableHead className="text-xs w-32">Type</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {columns.map((column, index) => (
+              <TableRow key={index}>
+                <TableCell className="py-1">
+                  <Input
+                    value={column.name}
+                    onChange={(e) => updateColumn(index, { name: e.target.value })}
+                    className="h-8"
+                  />
+                </TableCell>
+                <TableCell className="py-1">
+                  <Input
+                    type="number"
+                    min={1}
+                    value={column.start + 1}
+                    onChange={(e) => updateColumn(index, { start: Math.max(0, (Number(e.target.value) || 1) - 1) })}
+                    className="h-8"
+                  />
+                </TableCell>
+                <TableCell className="py-1">
+                  <Input
+                    type="number"
+                    min={1}
+                    value={column.width}
+                    onChange={(e) => updateColumn(index, { width: Math.max(1, Number(e.target.value) || 1) })}
+                    className="h-8"
+                  />
+                </TableCell>
+                <TableCell className="py-1">
+                  <Select
+                    value={column.type}
+                    onValueChange={(value: FixedWidthType) => updateColumn(index, { type: value })}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {columnTypes.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="py-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onColumnsChange(columns.filter((_, i) => i !== index))}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
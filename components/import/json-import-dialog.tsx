@@ -0,0 +1,155 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Braces } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { DEFAULT_JSON_OPTIONS, JsonParser, type JsonDocument, type JsonImportOptions } from "@/lib/parsers/json-parser"
+
+interface JsonImportDialogProps {
+  open: boolean
+  fileName: string
+  document: JsonDocument
+  onConfirm: (options: JsonImportOptions) => void
+  onCancel: () => void
+}
+
+const PREVIEW_ROWS = 10
+
+export function JsonImportDialog({ open, fileName, document, onConfirm, onCancel }: JsonImportDialogProps) {
+  const candidates = useMemo(() => JsonParser.findArrays(document.value), [document])
+  const [path, setPath] = useState(candidates[0]?.path ?? DEFAULT_JSON_OPTIONS.path)
+  const [maxDepth, setMaxDepth] = useState(DEFAULT_JSON_OPTIONS.maxDepth)
+
+  const preview = useMemo(() => {
+    try {
+      const table = JsonParser.toTable({ value: document.value, errors: [] }, { path, maxDepth })
+      return { ...table, error: null }
+    } catch (error) {
+      return { columns: [], data: [], error: error instanceof Error ? error.message : "Invalid path" }
+    }
+  }, [document, path, maxDepth])
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import JSON</DialogTitle>
+          <DialogDescription>
+            Choose the array in {fileName} to use as rows. Nested objects are flattened into dotted column names.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          {/* Candidate Arrays */}
+          <ScrollArea className="h-80 border border-border rounded-lg p-3">
+            <div className="space-y-2">
+              {candidates.length === 0 && (
+                <div className="text-sm text-muted-foreground p-2">No arrays found in this document</div>
+              )}
+              {candidates.map((candidate) => (
+                <div
+                  key={candidate.path}
+                  className={cn(
+                    "flex items-center gap-2 p-2 rounded-md cursor-pointer transition-colors",
+                    path === candidate.path ? "bg-accent" : "hover:bg-muted/50",
+                  )}
+                  onClick={() => setPath(candidate.path)}
+                >
+                  <Braces className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                  <span className="text-sm font-mono truncate flex-1">{candidate.path}</span>
+                  <Badge variant="outline" className="text-xs">
+                    {candidate.length}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+
+          {/* Options and Preview */}
+          <div className="col-span-2 space-y-3 min-w-0">
+            <div className="flex items-center gap-3">
+              <Label htmlFor="json-path" className="text-sm font-medium whitespace-nowrap">
+                Rows path
+              </Label>
+              <Input
+                id="json-path"
+                value={path}
+                onChange={(e) => setPath(e.target.value)}
+                className="font-mono flex-1"
+                placeholder="$.data.items"
+              />
+              <Label htmlFor="json-depth" className="text-sm font-medium whitespace-nowrap">
+                Flatten depth
+              </Label>
+              <Input
+                id="json-depth"
+                type="number"
+                min={0}
+                value={maxDepth}
+                onChange={(e) => setMaxDepth(Math.max(0, Number(e.target.value) || 0))}
+                className="w-20"
+              />
+            </div>
+
+            <div className="h-72 border border-border rounded-lg overflow-auto">
+              {preview.error ? (
+                <div className="flex items-center justify-center h-full text-sm text-destructive">{preview.error}</div>
+              ) : preview.data.length === 0 ? (
+                <div className="flex items-center justify-center h-full text-sm text-muted-foreground">
+                  This path does not match any records
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {preview.columns.map((column) => (
+                        <TableHead key={column} className="text-xs whitespace-nowrap">
+                          {column}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.data.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {preview.columns.map((column) => (
+                          <TableCell key={column} className="max-w-40 truncate text-xs">
+                            {row[column] == null ? "" : String(row[column])}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-muted-foreground">
+            {preview.error ? "" : `${preview.data.length} rows, ${preview.columns.length} columns`}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => onConfirm({ path, maxDepth })}
+              disabled={!!preview.error || preview.data.length === 0}
+            >
+              Import
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
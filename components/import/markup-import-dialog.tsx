@@ -0,0 +1,230 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Code, Table2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { MarkupParser, type MarkupDocument, type MarkupImportOptions } from "@/lib/parsers/markup-parser"
+import { detectTableLayout } from "@/lib/parsers/table-layout"
+import { TableLayoutFields } from "@/components/import/table-layout-fields"
+
+interface MarkupImportDialogProps {
+  open: boolean
+  fileName: string
+  document: MarkupDocument
+  onConfirm: (options: MarkupImportOptions) => void
+  onCancel: () => void
+}
+
+const PREVIEW_ROWS = 10
+const RAW_ROWS = 30
+
+export function MarkupImportDialog({ open, fileName, document, onConfirm, onCancel }: MarkupImportDialogProps) {
+  const candidates = useMemo(
+    () =>
+      document.kind === "xml"
+        ? MarkupParser.findRepeatingElements(document.root).map((candidate) => ({
+            key: candidate.path,
+            label: candidate.path,
+            count: candidate.count,
+          }))
+        : document.tables.map((table, index) => ({
+            key: String(index),
+            label: table.caption ? `Table ${index + 1}: ${table.caption}` : `Table ${index + 1}`,
+            count: table.rows.length,
+          })),
+    [document],
+  )
+  const [options, setOptions] = useState<MarkupImportOptions>(() => MarkupParser.defaultOptions(document))
+
+  const preview = useMemo(() => {
+    try {
+      return { ...MarkupParser.toTable(document, options), error: null }
+    } catch (error) {
+      return { columns: [], data: [], error: error instanceof Error ? error.message : "Invalid selection" }
+    }
+  }, [document, options])
+
+  const selectedKey = options.kind === "xml" ? options.path : String(options.tableIndex)
+
+  const selectCandidate = (key: string) => {
+    if (options.kind === "xml") {
+      setOptions({ ...options, path: key })
+    } else if (document.kind === "html") {
+      const tableIndex = Number(key)
+      setOptions({ kind: "html", tableIndex, layout: detectTableLayout(document.tables[tableIndex].rows, true) })
+    }
+  }
+
+  const rawRows = document.kind === "html" && options.kind === "html" ? document.tables[options.tableIndex].rows : []
+  const rawWidth = rawRows.reduce((max, row) => Math.max(max, row.length), 0)
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{document.kind === "xml" ? "Import XML" : "Import HTML Table"}</DialogTitle>
+          <DialogDescription>
+            {document.kind === "xml"
+              ? `Choose the repeating element in ${fileName} to use as rows. Attributes and child elements become columns, and repeats inside a row are numbered.`
+              : `Choose the table in ${fileName} to import. Merged cells are repeated in every row and column they cover.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          {/* Candidates */}
+          <ScrollArea className="h-80 border border-border rounded-lg p-3">
+            <div className="space-y-2">
+              {candidates.length === 0 && (
+                <div className="text-sm text-muted-foreground p-2">No repeating elements found in this document</div>
+              )}
+              {candidates.map((candidate) => (
+                <div
+                  key={candidate.key}
+                  className={cn(
+                    "flex items-center gap-2 p-2 rounded-md cursor-pointer transition-colors",
+                    selectedKey === candidate.key ? "bg-accent" : "hover:bg-muted/50",
+                  )}
+                  onClick={() => selectCandidate(candidate.key)}
+                >
+                  {document.kind === "xml" ? (
+                    <Code className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                  ) : (
+                    <Table2 className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                  )}
+                  <span className={cn("text-sm truncate flex-1", document.kind === "xml" && "font-mono")}>
+                    {candidate.label}
+                  </span>
+                  <Badge variant="outline" className="text-xs">
+                    {candidate.count}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+
+          {/* Options and Preview */}
+          <div className="col-span-2 space-y-3 min-w-0">
+            {options.kind === "xml" ? (
+              <div className="flex items-center gap-3">
+                <Label htmlFor="xml-path" className="text-sm font-medium whitespace-nowrap">
+                  Rows path
+                </Label>
+                <Input
+                  id="xml-path"
+                  value={options.path}
+                  onChange={(e) => setOptions({ ...options, path: e.target.value })}
+                  className="font-mono flex-1"
+                  placeholder="/export/record"
+                />
+                <Checkbox
+                  id="xml-parents"
+                  checked={options.includeParents}
+                  onCheckedChange={(checked) => setOptions({ ...options, includeParents: checked as boolean })}
+                />
+                <Label htmlFor="xml-parents" className="text-sm cursor-pointer whitespace-nowrap">
+                  Include parent fields
+                </Label>
+              </div>
+            ) : (
+              <TableLayoutFields
+                layout={options.layout}
+                onLayoutChange={(layout) => setOptions({ ...options, layout })}
+              />
+            )}
+
+            {options.kind === "html" ? (
+              <div className="h-72 border border-border rounded-lg overflow-auto">
+                <Table>
+                  <TableBody>
+                    {rawRows.slice(0, RAW_ROWS).map((row, rowIndex) => (
+                      <TableRow
+                        key={rowIndex}
+                        className={cn(
+                          rowIndex >= options.layout.skipRows &&
+                            rowIndex < options.layout.skipRows + options.layout.headerRows &&
+                            "bg-primary/10 font-medium",
+                          (rowIndex < options.layout.skipRows ||
+                            rowIndex >= rawRows.length - options.layout.skipFooterRows) &&
+                            "opacity-50",
+                        )}
+                      >
+                        <TableCell
+                          className="w-10 text-xs text-muted-foreground cursor-pointer hover:text-primary"
+                          onClick={() => setOptions({ ...options, layout: { ...options.layout, skipRows: rowIndex } })}
+                        >
+                          {rowIndex + 1}
+                        </TableCell>
+                        {Array.from({ length: rawWidth }, (_, columnIndex) => (
+                          <TableCell key={columnIndex} className="max-w-40 truncate text-xs">
+                            {row[columnIndex] ?? ""}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <div className="h-72 border border-border rounded-lg overflow-auto">
+                {preview.error ? (
+                  <div className="flex items-center justify-center h-full text-sm text-destructive">
+                    {preview.error}
+                  </div>
+                ) : preview.data.length === 0 ? (
+                  <div className="flex items-center justify-center h-full text-sm text-muted-foreground">
+                    This path does not match any elements
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {preview.columns.map((column) => (
+                          <TableHead key={column} className="text-xs whitespace-nowrap">
+                            {column}
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.data.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                        <TableRow key={rowIndex}>
+                          {preview.columns.map((column) => (
+                            <TableCell key={column} className="max-w-40 truncate text-xs">
+                              {row[column] == null ? "" : String(row[column])}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-muted-foreground">
+            {preview.error ? "" : `${preview.data.length} rows, ${preview.columns.length} columns`}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button onClick={() => onConfirm(options)} disabled={!!preview.error || preview.data.length === 0}>
+              Import
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,204 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Loader2, Sheet } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { detectTableLayout, type TableLayout } from "@/lib/parsers/table-layout"
+import type { SheetSelection, XlsxWorkbook } from "@/lib/parsers/xlsx-parser"
+import { TableLayoutFields } from "@/components/import/table-layout-fields"
+
+interface SheetPickerDialogProps {
+  open: boolean
+  fileName: string
+  workbook: XlsxWorkbook
+  onConfirm: (selection: SheetSelection[]) => void
+  onCancel: () => void
+}
+
+const PREVIEW_ROWS = 30
+
+export function SheetPickerDialog({ open, fileName, workbook, onConfirm, onCancel }: SheetPickerDialogProps) {
+  const visibleSheets = workbook.sheets.filter((sheet) => !sheet.hidden)
+  const [selectedSheets, setSelectedSheets] = useState<string[]>(visibleSheets.slice(0, 1).map((s) => s.name))
+  const [layouts, setLayouts] = useState<Record<string, TableLayout>>({})
+  const [activeSheet, setActiveSheet] = useState<string>(visibleSheets[0]?.name ?? workbook.sheets[0]?.name ?? "")
+  const [preview, setPreview] = useState<any[][] | null>(null)
+
+  useEffect(() => {
+    if (!activeSheet) return
+
+    let cancelled = false
+    setPreview(null)
+    workbook
+      .readSheet(activeSheet, PREVIEW_ROWS)
+      .then((rows) => {
+        if (cancelled) return
+        setPreview(rows)
+        setLayouts((prev) =>
+          prev[activeSheet] ? prev : { ...prev, [activeSheet]: detectTableLayout(rows, rows.length < PREVIEW_ROWS) },
+        )
+      })
+      .catch(() => !cancelled && setPreview([]))
+
+    return () => {
+      cancelled = true
+    }
+  }, [workbook, activeSheet])
+
+  const handleSheetSelection = (sheetName: string, checked: boolean) => {
+    if (checked) {
+      setSelectedSheets((prev) => [...prev, sheetName])
+    } else {
+      setSelectedSheets((prev) => prev.filter((name) => name !== sheetName))
+    }
+  }
+
+  const setLayout = (sheetName: string, layout: TableLayout) => {
+    setLayouts((prev) => ({ ...prev, [sheetName]: layout }))
+  }
+
+  // Sheets that were never previewed still get a detected layout
+  const handleConfirm = async () => {
+    const selection: SheetSelection[] = []
+    for (const sheet of workbook.sheets) {
+      if (!selectedSheets.includes(sheet.name)) continue
+      let layout = layouts[sheet.name]
+      if (!layout) {
+        const rows = await workbook.readSheet(sheet.name, PREVIEW_ROWS).catch(() => [])
+        layout = detectTableLayout(rows, rows.length < PREVIEW_ROWS)
+      }
+      selection.push({ sheetName: sheet.name, ...layout })
+    }
+    onConfirm(selection)
+  }
+
+  const activeLayout = layouts[activeSheet]
+  const headerEnd = activeLayout ? activeLayout.skipRows + activeLayout.headerRows : 0
+  // Footer rows can only be marked when the preview reaches the end of the sheet
+  const footerStart =
+    preview && activeLayout && preview.length < PREVIEW_ROWS ? preview.length - activeLayout.skipFooterRows : Infinity
+
+  const previewWidth = preview?.reduce((max, row) => Math.max(max, row.length), 0) ?? 0
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import Sheets</DialogTitle>
+          <DialogDescription>
+            Choose which sheets of {fileName} to import. Each sheet becomes its own dataset.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          {/* Sheet List */}
+          <ScrollArea className="h-80 border border-border rounded-lg p-3">
+            <div className="space-y-2">
+              {workbook.sheets.map((sheet) => (
+                <div
+                  key={sheet.name}
+                  className={cn(
+                    "flex items-center gap-2 p-2 rounded-md cursor-pointer transition-colors",
+                    activeSheet === sheet.name ? "bg-accent" : "hover:bg-muted/50",
+                  )}
+                  onClick={() => setActiveSheet(sheet.name)}
+                >
+                  <Checkbox
+                    id={`sheet-${sheet.name}`}
+                    checked={selectedSheets.includes(sheet.name)}
+                    onCheckedChange={(checked) => handleSheetSelection(sheet.name, checked as boolean)}
+                    onClick={(e) => e.stopPropagation()}
+                  />
+                  <Sheet className="w-4 h-4 text-muted-foreground" />
+                  <span className="text-sm truncate flex-1">{sheet.name}</span>
+                  {sheet.hidden && (
+                    <Badge variant="outline" className="text-xs">
+                      hidden
+                    </Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+
+          {/* Preview */}
+          <div className="col-span-2 space-y-3 min-w-0">
+            {activeLayout && (
+              <>
+                <TableLayoutFields layout={activeLayout} onLayoutChange={(layout) => setLayout(activeSheet, layout)} />
+                <div className="text-xs text-muted-foreground">
+                  Click a row number to start the header there. Stacked header rows are combined into names such as
+                  Q1_Male.
+                </div>
+              </>
+            )}
+
+            <div className="h-60 border border-border rounded-lg overflow-auto">
+              {preview === null ? (
+                <div className="flex items-center justify-center h-full text-muted-foreground">
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                </div>
+              ) : preview.length === 0 ? (
+                <div className="flex items-center justify-center h-full text-sm text-muted-foreground">
+                  This sheet is empty
+                </div>
+              ) : (
+                <Table>
+                  <TableBody>
+                    {preview.map((row, rowIndex) => (
+                      <TableRow
+                        key={rowIndex}
+                        className={cn(
+                          activeLayout &&
+                            rowIndex >= activeLayout.skipRows &&
+                            rowIndex < headerEnd &&
+                            "bg-primary/10 font-medium",
+                          ((activeLayout && rowIndex < activeLayout.skipRows) || rowIndex >= footerStart) &&
+                            "opacity-50",
+                        )}
+                      >
+                        <TableCell
+                          className="w-10 text-xs text-muted-foreground cursor-pointer hover:text-primary"
+                          onClick={() =>
+                            activeLayout && setLayout(activeSheet, { ...activeLayout, skipRows: rowIndex })
+                          }
+                        >
+                          {rowIndex + 1}
+                        </TableCell>
+                        {Array.from({ length: previewWidth }, (_, columnIndex) => (
+                          <TableCell key={columnIndex} className="max-w-40 truncate text-xs">
+                            {row[columnIndex] == null ? "" : String(row[columnIndex])}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-muted-foreground">
+            {selectedSheets.length} of {workbook.sheets.length} sheet{workbook.sheets.length !== 1 ? "s" : ""} selected
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirm} disabled={selectedSheets.length === 0}>
+              Import {selectedSheets.length > 1 ? `${selectedSheets.length} Sheets` : "Sheet"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,233 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Textarea } from "@/components/ui/textarea"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Eye, Table2, TerminalSquare } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { SqliteDatabase, SqliteSelection } from "@/lib/parsers/sqlite-database"
+
+interface SqliteBrowserDialogProps {
+  open: boolean
+  fileName: string
+  database: SqliteDatabase
+  onConfirm: (selection: SqliteSelection[]) => void
+  onCancel: () => void
+}
+
+const PREVIEW_ROWS = 10
+// The custom query is listed next to the tables under this key
+const QUERY_KEY = "\u0000query"
+
+export function SqliteBrowserDialog({ open, fileName, database, onConfirm, onCancel }: SqliteBrowserDialogProps) {
+  const [selectedObjects, setSelectedObjects] = useState<string[]>(database.objects.slice(0, 1).map((o) => o.name))
+  const [active, setActive] = useState(database.objects[0]?.name ?? QUERY_KEY)
+  const [sql, setSql] = useState("")
+  const [queryName, setQueryName] = useState("query")
+  const [ranSql, setRanSql] = useState<string | null>(null)
+  const [queryFailed, setQueryFailed] = useState(false)
+  const [includeQuery, setIncludeQuery] = useState(false)
+
+  const preview = useMemo(() => {
+    const selection: SqliteSelection | null =
+      active === QUERY_KEY
+        ? ranSql === null
+          ? null
+          : { kind: "query", name: "", sql: ranSql }
+        : { kind: "object", name: active }
+    if (!selection) return null
+    try {
+      return { ...database.read(selection, PREVIEW_ROWS), error: null }
+    } catch (error) {
+      return { columns: [], data: [], error: error instanceof Error ? error.message : "The query failed" }
+    }
+  }, [database, active, ranSql])
+
+  const handleObjectSelection = (name: string, checked: boolean) => {
+    if (checked) {
+      setSelectedObjects((prev) => [...prev, name])
+    } else {
+      setSelectedObjects((prev) => prev.filter((selected) => selected !== name))
+    }
+  }
+
+  // A query that runs is selected for import; editing it again requires another run
+  const runQuery = () => {
+    let failed = false
+    try {
+      database.read({ kind: "query", name: "", sql }, 0)
+    } catch {
+      failed = true
+    }
+    setRanSql(sql)
+    setQueryFailed(failed)
+    setIncludeQuery(!failed)
+  }
+
+  const queryRunnable = ranSql !== null && ranSql === sql && !queryFailed
+  const queryReady = includeQuery && queryRunnable
+  const selectionCount = selectedObjects.length + (queryReady ? 1 : 0)
+
+  const handleConfirm = () => {
+    const selection: SqliteSelection[] = database.objects
+      .filter((object) => selectedObjects.includes(object.name))
+      .map((object) => ({ kind: "object", name: object.name }))
+    if (queryReady) selection.push({ kind: "query", name: queryName.trim() || "query", sql })
+    onConfirm(selection)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import from SQLite</DialogTitle>
+          <DialogDescription>
+            Choose the tables and views of {fileName} to import, or load the result of a SELECT query. Each becomes its
+            own dataset.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          {/* Tables, Views and the Custom Query */}
+          <ScrollArea className="h-80 border border-border rounded-lg p-3">
+            <div className="space-y-2">
+              {database.objects.map((object) => (
+                <div
+                  key={object.name}
+                  className={cn(
+                    "flex items-center gap-2 p-2 rounded-md cursor-pointer transition-colors",
+                    active === object.name ? "bg-accent" : "hover:bg-muted/50",
+                  )}
+                  onClick={() => setActive(object.name)}
+                >
+                  <Checkbox
+                    id={`sqlite-${object.name}`}
+                    checked={selectedObjects.includes(object.name)}
+                    onCheckedChange={(checked) => handleObjectSelection(object.name, checked as boolean)}
+                    onClick={(e) => e.stopPropagation()}
+                  />
+                  {object.type === "view" ? (
+                    <Eye className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                  ) : (
+                    <Table2 className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                  )}
+                  <span className="text-sm truncate flex-1">{object.name}</span>
+                  <Badge variant="outline" className="text-xs">
+                    {object.rowCount ?? "view"}
+                  </Badge>
+                </div>
+              ))}
+              <div
+                className={cn(
+                  "flex items-center gap-2 p-2 rounded-md cursor-pointer transition-colors",
+                  active === QUERY_KEY ? "bg-accent" : "hover:bg-muted/50",
+                )}
+                onClick={() => setActive(QUERY_KEY)}
+              >
+                <Checkbox
+                  id="sqlite-query"
+                  checked={queryReady}
+                  disabled={!queryRunnable}
+                  onCheckedChange={(checked) => setIncludeQuery(checked as boolean)}
+                  onClick={(e) => e.stopPropagation()}
+                />
+                <TerminalSquare className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                <span className="text-sm truncate flex-1">Custom query</span>
+              </div>
+            </div>
+          </ScrollArea>
+
+          {/* Query and Preview */}
+          <div className="col-span-2 space-y-3 min-w-0">
+            {active === QUERY_KEY && (
+              <div className="space-y-2">
+                <Textarea
+                  value={sql}
+                  onChange={(e) => setSql(e.target.value)}
+                  className="font-mono text-xs h-24"
+                  placeholder={`SELECT * FROM ${database.objects[0]?.name ?? "table"} WHERE ...`}
+                />
+                <div className="flex items-center gap-3">
+                  <Label htmlFor="sqlite-query-name" className="text-sm font-medium whitespace-nowrap">
+                    Dataset name
+                  </Label>
+                  <Input
+                    id="sqlite-query-name"
+                    value={queryName}
+                    onChange={(e) => setQueryName(e.target.value)}
+                    className="flex-1"
+                  />
+                  <Button variant="outline" onClick={runQuery} disabled={!sql.trim()}>
+                    Run Query
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div
+              className={cn("border border-border rounded-lg overflow-auto", active === QUERY_KEY ? "h-40" : "h-80")}
+            >
+              {preview === null ? (
+                <div className="flex items-center justify-center h-full text-sm text-muted-foreground">
+                  Write a query and run it to preview the result
+                </div>
+              ) : preview.error ? (
+                <div className="flex items-center justify-center h-full text-sm text-destructive p-4">
+                  {preview.error}
+                </div>
+              ) : preview.columns.length === 0 ? (
+                <div className="flex items-center justify-center h-full text-sm text-muted-foreground">
+                  The query does not return any columns
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {preview.columns.map((column) => (
+                        <TableHead key={column} className="text-xs whitespace-nowrap">
+                          {column}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.data.map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {preview.columns.map((column) => (
+                          <TableCell key={column} className="max-w-40 truncate text-xs">
+                            {row[column] == null ? "" : String(row[column])}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-muted-foreground">
+            {selectionCount} dataset{selectionCount !== 1 ? "s" : ""} selected
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirm} disabled={selectionCount === 0}>
+              Import
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,37 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { TableLayout } from "@/lib/parsers/table-layout"
+
+interface TableLayoutFieldsProps {
+  layout: TableLayout
+  onLayoutChange: (layout: TableLayout) => void
+}
+
+const fields: { key: keyof TableLayout; label: string }[] = [
+  { key: "skipRows", label: "Skip rows" },
+  { key: "headerRows", label: "Header rows" },
+  { key: "skipFooterRows", label: "Footer rows to drop" },
+]
+
+export function TableLayoutFields({ layout, onLayoutChange }: TableLayoutFieldsProps) {
+  return (
+    <div className="grid grid-cols-3 gap-4">
+      {fields.map((field) => (
+        <div key={field.key} className="space-y-2">
+          <Label htmlFor={`layout-${field.key}`} className="text-sm font-medium">
+            {field.label}
+          </Label>
+          <Input
+            id={`layout-${field.key}`}
+            type="number"
+            min={0}
+            value={layout[field.key]}
+            onChange={(e) => onLayoutChange({ ...layout, [field.key]: Math.max(0, Number(e.target.value) || 0) })}
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
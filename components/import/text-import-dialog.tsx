@@ -0,0 +1,317 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { RotateCcw } from "lucide-react"
+import { CsvParser, CsvTokenizer } from "@/lib/parsers/csv-parser"
+import { SNIFF_SAMPLE_BYTES, decodeText, sniffTextFile, type TextImportOptions } from "@/lib/parsers/sniffer"
+import {
+  FixedWidthParser,
+  guessFixedWidthColumns,
+  type FixedWidthColumn,
+  type FixedWidthOptions,
+} from "@/lib/parsers/fixed-width-parser"
+import { FixedWidthEditor } from "@/components/import/fixed-width-editor"
+import { TableLayoutFields } from "@/components/import/table-layout-fields"
+import { cn } from "@/lib/utils"
+
+export type TextImportChoice =
+  { format: "delimited"; options: TextImportOptions } | { format: "fixed-width"; options: FixedWidthOptions }
+
+interface TextImportDialogProps {
+  open: boolean
+  fileName: string
+  /** The first bytes of the file, used for detection and the preview */
+  sample: Uint8Array
+  fileSize: number
+  onConfirm: (choice: TextImportChoice) => void
+  onCancel: () => void
+}
+
+const PREVIEW_ROWS = 10
+const EDITOR_LINES = 20
+const RAW_ROWS = 12
+const NO_QUOTE = "none"
+
+const encodings = [
+  { value: "utf-8", label: "UTF-8" },
+  { value: "utf-16le", label: "UTF-16 LE" },
+  { value: "utf-16be", label: "UTF-16 BE" },
+  { value: "windows-1252", label: "Windows-1252 (Western European)" },
+  { value: "iso-8859-2", label: "ISO-8859-2 (Central European)" },
+  { value: "shift_jis", label: "Shift JIS" },
+]
+
+const delimiters = [
+  { value: ",", label: "Comma (,)" },
+  { value: ";", label: "Semicolon (;)" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe (|)" },
+  { value: ":", label: "Colon (:)" },
+  { value: " ", label: "Space" },
+]
+
+const quoteChars = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" },
+  { value: NO_QUOTE, label: "None" },
+]
+
+const decimalSeparators = [
+  { value: ".", label: "Period (1234.5)" },
+  { value: ",", label: "Comma (1234,5)" },
+]
+
+export function TextImportDialog({ open, fileName, sample, fileSize, onConfirm, onCancel }: TextImportDialogProps) {
+  const detected = useMemo(() => sniffTextFile(sample, fileSize), [sample, fileSize])
+  const [options, setOptions] = useState<TextImportOptions>(detected)
+
+  const text = useMemo(
+    () => decodeText(sample.subarray(0, SNIFF_SAMPLE_BYTES), options.encoding),
+    [sample, options.encoding],
+  )
+
+  // A sample that stops short of the end of the file may cut its last line in half
+  const lines = useMemo(() => {
+    const all = text.split(/\r?\n/)
+    return (sample.length < fileSize ? all.slice(0, -1) : all).slice(0, EDITOR_LINES)
+  }, [text, sample, fileSize])
+
+  // Footer rows of a partial sample are not the file's footer, so they stay in the preview
+  const complete = sample.length >= fileSize
+  const delimitedPreview = useMemo(
+    () => CsvParser.parse(text, complete ? options : { ...options, skipFooterRows: 0 }),
+    [text, options, complete],
+  )
+  const rawRecords = useMemo(
+    () => new CsvTokenizer(options.delimiter, options.quoteChar).push(text).slice(0, RAW_ROWS),
+    [text, options.delimiter, options.quoteChar],
+  )
+  const [fixedColumns, setFixedColumns] = useState<FixedWidthColumn[]>(() => guessFixedWidthColumns(lines))
+  const [format, setFormat] = useState<TextImportChoice["format"]>(() =>
+    fileName.toLowerCase().endsWith(".dat") || delimitedPreview.columns.length <= 1 ? "fixed-width" : "delimited",
+  )
+
+  const preview = useMemo(
+    () => (format === "delimited" ? delimitedPreview : FixedWidthParser.parse(lines.join("\n"), fixedColumns)),
+    [format, delimitedPreview, lines, fixedColumns],
+  )
+
+  const handleConfirm = () => {
+    if (format === "delimited") {
+      onConfirm({ format, options })
+    } else {
+      onConfirm({ format, options: { encoding: options.encoding, columns: fixedColumns } })
+    }
+  }
+
+  const updateOption = <K extends keyof TextImportOptions>(key: K, value: TextImportOptions[K]) => {
+    setOptions((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const describe = (items: { value: string; label: string }[], value: string) =>
+    items.find((item) => item.value === (value || NO_QUOTE))?.label ?? value
+
+  const isDetected = (Object.keys(detected) as (keyof TextImportOptions)[]).every(
+    (key) => detected[key] === options[key],
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import Options</DialogTitle>
+          <DialogDescription>
+            Check how {fileName} will be read. The settings below were detected from the file and can be changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={format} onValueChange={(value) => setFormat(value as TextImportChoice["format"])}>
+          <div className="flex items-end justify-between gap-4">
+            <TabsList>
+              <TabsTrigger value="delimited">Delimited</TabsTrigger>
+              <TabsTrigger value="fixed-width">Fixed width</TabsTrigger>
+            </TabsList>
+
+            <div className="space-y-2 w-64">
+              <Label className="text-sm font-medium">Encoding</Label>
+              <Select value={options.encoding} onValueChange={(value) => updateOption("encoding", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {encodings.map((item) => (
+                    <SelectItem key={item.value} value={item.value}>
+                      {item.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Delimited Options */}
+          <TabsContent value="delimited" className="space-y-4 mt-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Delimiter</Label>
+                <Select value={options.delimiter} onValueChange={(value) => updateOption("delimiter", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {delimiters.map((item) => (
+                      <SelectItem key={item.value} value={item.value}>
+                        {item.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Quote character</Label>
+                <Select
+                  value={options.quoteChar || NO_QUOTE}
+                  onValueChange={(value) => updateOption("quoteChar", value === NO_QUOTE ? "" : value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {quoteChars.map((item) => (
+                      <SelectItem key={item.value} value={item.value}>
+                        {item.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Decimal separator</Label>
+                <Select
+                  value={options.decimalSeparator}
+                  onValueChange={(value: "." | ",") => updateOption("decimalSeparator", value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {decimalSeparators.map((item) => (
+                      <SelectItem key={item.value} value={item.value}>
+                        {item.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <TableLayoutFields
+              layout={options}
+              onLayoutChange={(layout) => setOptions((prev) => ({ ...prev, ...layout }))}
+            />
+
+            <div className="h-32 border border-border rounded-lg overflow-auto">
+              <Table>
+                <TableBody>
+                  {rawRecords.map((record, index) => (
+                    <TableRow
+                      key={index}
+                      className={cn(
+                        index < options.skipRows && "opacity-50",
+                        index >= options.skipRows &&
+                          index < options.skipRows + options.headerRows &&
+                          "bg-primary/10 font-medium",
+                      )}
+                    >
+                      <TableCell
+                        className="w-10 py-1 text-xs text-muted-foreground cursor-pointer hover:text-primary"
+                        onClick={() => updateOption("skipRows", index)}
+                        title="Start the header at this row"
+                      >
+                        {index + 1}
+                      </TableCell>
+                      {record.fields.map((field, fieldIndex) => (
+                        <TableCell key={fieldIndex} className="max-w-40 truncate py-1 text-xs">
+                          {field}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>
+                Detected: {describe(encodings, detected.encoding)}, {describe(delimiters, detected.delimiter)},{" "}
+                {describe(quoteChars, detected.quoteChar)}, {describe(decimalSeparators, detected.decimalSeparator)},
+                header at row {detected.skipRows + 1} ({detected.headerRows} row{detected.headerRows !== 1 ? "s" : ""})
+                {detected.skipFooterRows > 0 && `, ${detected.skipFooterRows} footer row(s)`}
+              </span>
+              {!isDetected && (
+                <Button variant="ghost" size="sm" onClick={() => setOptions(detected)}>
+                  <RotateCcw className="w-3 h-3 mr-1" />
+                  Use detected settings
+                </Button>
+              )}
+            </div>
+          </TabsContent>
+
+          {/* Fixed-Width Layout */}
+          <TabsContent value="fixed-width" className="mt-4">
+            <FixedWidthEditor lines={lines} columns={fixedColumns} onColumnsChange={setFixedColumns} />
+          </TabsContent>
+        </Tabs>
+
+        {/* Preview */}
+        <div className="h-56 border border-border rounded-lg overflow-auto">
+          {preview.columns.length === 0 ? (
+            <div className="flex items-center justify-center h-full text-sm text-muted-foreground">
+              The file appears to be empty
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {preview.columns.map((column) => (
+                    <TableHead key={column} className="text-xs whitespace-nowrap">
+                      {column}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.data.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                  <TableRow key={rowIndex}>
+                    {preview.columns.map((column) => (
+                      <TableCell key={column} className="max-w-40 truncate text-xs">
+                        {row[column] == null ? "" : String(row[column])}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={format === "fixed-width" && fixedColumns.length === 0}>
+            Import
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -10,6 +10,7 @@ import { Checkbox } from "@/components/ui/checkbox"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Plus, Minus } from "lucide-react"
 import type { DataFile } from "@/components/file-upload"
+import { getSchema, isNumericType } from "@/lib/column-schema"
 
 interface AggregateOperationProps {
   files: DataFile[]
@@ -97,11 +98,9 @@ export function AggregateOperation({ files, onExecute, onCancel }: AggregateOper
   const getNumericColumns = () => {
     if (!selectedFileData?.data || !selectedFileData.columns) return []
 
-    return selectedFileData.columns.filter((col) => {
-      const values = selectedFileData.data!.slice(0, 100).map((row) => row[col])
-      const numericValues = values.filter((v) => !isNaN(Number(v)) && v !== null && v !== "")
-      return numericValues.length / values.length > 0.8
-    })
+    return getSchema(selectedFileData)
+      .filter((column) => isNumericType(column.type))
+      .map((column) => column.name)
   }
 
   return (
@@ -0,0 +1,75 @@
+"use client"
+
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { AlertTriangle } from "lucide-react"
+import { MAX_CROSS_JOIN_ROWS, type JoinCardinality, type JoinReport, type JoinSideReport } from "@/lib/join"
+
+interface JoinReportSummaryProps {
+  report: JoinReport
+  leftName: string
+  rightName: string
+}
+
+const CARDINALITY_LABELS: Record<JoinCardinality, string> = {
+  "1:1": "one-to-one",
+  "1:m": "one-to-many",
+  "m:1": "many-to-one",
+  "m:m": "many-to-many",
+}
+
+export function JoinReportSummary({ report, leftName, rightName }: JoinReportSummaryProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        <Badge variant={report.manyToManyKeys > 0 ? "destructive" : "secondary"}>
+          {report.cardinality ? `${report.cardinality} ${CARDINALITY_LABELS[report.cardinality]}` : "every pairing"}
+        </Badge>
+        <span className="text-muted-foreground">{report.outputRows.toLocaleString()} rows in the result</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 text-xs">
+        <SideSummary name={leftName} side={report.left} />
+        <SideSummary name={rightName} side={report.right} />
+      </div>
+
+      {report.type === "cross" && report.outputRows > MAX_CROSS_JOIN_ROWS && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            A cross join is limited to {MAX_CROSS_JOIN_ROWS.toLocaleString()} rows. Filter the files first.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {report.manyToManyKeys > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {report.manyToManyKeys.toLocaleString()} key value{report.manyToManyKeys !== 1 ? "s" : ""} repeat in both
+            files and produce {report.manyToManyRows.toLocaleString()} rows, one for every pairing. Add join columns
+            until the keys are unique in at least one file.
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
+
+function SideSummary({ name, side }: { name: string; side: JoinSideReport }) {
+  const rate = side.rows > 0 ? Math.round((side.matched / side.rows) * 100) : 0
+  return (
+    <div className="p-2 border border-border rounded-md space-y-1">
+      <div className="font-medium truncate">{name}</div>
+      <div>
+        {side.matched.toLocaleString()} of {side.rows.toLocaleString()} rows matched ({rate}%)
+      </div>
+      {side.unmatched > 0 && (
+        <div className="text-orange-600">
+          {side.unmatched.toLocaleString()} unmatched
+          {side.blankKeys > 0 && `, ${side.blankKeys.toLocaleString()} with blank keys`}
+        </div>
+      )}
+    </div>
+  )
+}
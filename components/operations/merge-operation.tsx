@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useMemo, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -9,9 +9,30 @@ import { Label } from "@/components/ui/label"
 import { Checkbox } from "@/components/ui/checkbox"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Separator } from "@/components/ui/separator"
-import { ArrowDown, ArrowRight, Link, Plus, Brain } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, ArrowDown, ArrowRight, Link, Plus, Brain } from "lucide-react"
 import { SmartAlignmentPanel } from "@/components/smart-alignment-panel"
+import { JoinReportSummary } from "@/components/operations/join-report-summary"
 import type { DataFile } from "@/components/file-upload"
+import { getSchema } from "@/lib/column-schema"
+import {
+  planAppendColumns,
+  suggestAppendMappings,
+  toMapping,
+  type AppendColumnSource,
+  type AppendColumns,
+} from "@/lib/append"
+import type { ColumnMatch } from "@/lib/smart-alignment"
+import {
+  DEFAULT_JOIN_COLUMN_OPTIONS,
+  MAX_CROSS_JOIN_ROWS,
+  analyzeJoin,
+  planJoinColumns,
+  type JoinColumnOptions,
+  type JoinColumnPair,
+  type JoinType,
+} from "@/lib/join"
 
 interface MergeOperationProps {
   files: DataFile[]
@@ -22,18 +43,34 @@ interface MergeOperationProps {
 export interface MergeConfig {
   type: "append" | "join"
   sourceFiles: string[]
-  joinType?: "inner" | "left" | "right" | "outer"
-  joinColumns?: { file1: string; file2: string }[]
+  joinType?: JoinType
+  joinColumns?: JoinColumnPair[]
+  /** Also output the rows of each file that found no partner as datasets of their own */
+  outputUnmatched?: boolean
+  columnOptions?: JoinColumnOptions
+  appendColumns?: AppendColumns
+  /** For each file id, its columns renamed to the appended column they line up with */
+  columnMappings?: Record<string, Record<string, string>>
+  /** Name of a column recording which file each appended row came from */
+  sourceColumn?: string
   outputName: string
 }
 
+const SOURCE_COLUMN = "source_file"
+
 export function MergeOperation({ files, onExecute, onCancel }: MergeOperationProps) {
   const [mergeType, setMergeType] = useState<"append" | "join">("append")
   const [selectedFiles, setSelectedFiles] = useState<string[]>([])
-  const [joinType, setJoinType] = useState<"inner" | "left" | "right" | "outer">("inner")
-  const [joinColumns, setJoinColumns] = useState<{ file1: string; file2: string }[]>([])
+  const [joinType, setJoinType] = useState<JoinType>("inner")
+  const [joinColumns, setJoinColumns] = useState<JoinColumnPair[]>([])
+  const [outputUnmatched, setOutputUnmatched] = useState(false)
+  const [columnOptions, setColumnOptions] = useState<JoinColumnOptions>(DEFAULT_JOIN_COLUMN_OPTIONS)
   const [outputName, setOutputName] = useState("merged_data")
   const [useSmartAlignment, setUseSmartAlignment] = useState(true)
+  const [appendColumns, setAppendColumns] = useState<AppendColumns>("union")
+  // Suggested matches the user ticked or unticked, by file id and column
+  const [matchChoices, setMatchChoices] = useState<Record<string, boolean>>({})
+  const [addSourceColumn, setAddSourceColumn] = useState(false)
 
   const readyFiles = files.filter((f) => f.status === "ready")
 
@@ -43,6 +80,8 @@ export function MergeOperation({ files, onExecute, onCancel }: MergeOperationPro
     } else {
       setSelectedFiles((prev) => prev.filter((id) => id !== fileId))
     }
+    // Join columns name columns of the first two files, so they no longer apply
+    setJoinColumns([])
   }
 
   const addJoinColumn = () => {
@@ -59,14 +98,20 @@ export function MergeOperation({ files, onExecute, onCancel }: MergeOperationPro
     setJoinColumns((prev) => prev.filter((_, i) => i !== index))
   }
 
-  const handleSmartAlignmentChange = (matches: { file1: string; file2: string }[]) => {
+  const handleSmartAlignmentChange = (matches: JoinColumnPair[]) => {
     setJoinColumns(matches)
   }
 
+  // Cross joins pair every row with every other, so they have no join columns
+  const needsJoinColumns = mergeType === "join" && joinType !== "cross"
+
   const canExecute = () => {
     if (selectedFiles.length < 2) return false
-    if (mergeType === "join" && joinColumns.length === 0) return false
-    if (mergeType === "join" && joinColumns.some((col) => !col.file1 || !col.file2)) return false
+    if (needsJoinColumns && joinColumns.length === 0) return false
+    if (needsJoinColumns && joinColumns.some((col) => !col.file1 || !col.file2)) return false
+    if (joinAnalysis?.error) return false
+    if (joinReport?.type === "cross" && joinReport.outputRows > MAX_CROSS_JOIN_ROWS) return false
+    if (mergeType === "append" && appendPlan.length === 0) return false
     return outputName.trim() !== ""
   }
 
@@ -79,7 +124,14 @@ export function MergeOperation({ files, onExecute, onCancel }: MergeOperationPro
       outputName: outputName.trim(),
       ...(mergeType === "join" && {
         joinType,
-        joinColumns,
+        joinColumns: needsJoinColumns ? joinColumns : [],
+        outputUnmatched: joinType !== "cross" && outputUnmatched,
+        columnOptions,
+      }),
+      ...(mergeType === "append" && {
+        appendColumns,
+        columnMappings,
+        ...(addSourceColumn && { sourceColumn: SOURCE_COLUMN }),
       }),
     }
 
@@ -91,10 +143,117 @@ export function MergeOperation({ files, onExecute, onCancel }: MergeOperationPro
     return file?.columns || []
   }
 
+  const getColumnLabel = (fileId: string, column: string) => {
+    return readyFiles.find((f) => f.id === fileId)?.columnMeta?.[column]?.label
+  }
+
   const getSelectedFiles = () => {
     return selectedFiles.map((id) => readyFiles.find((f) => f.id === id)).filter(Boolean) as DataFile[]
   }
 
+  // What the join would produce, shown before it runs
+  const [file1, file2] = getSelectedFiles()
+  const joinAnalysis = useMemo(() => {
+    if (mergeType !== "join" || !file1 || !file2) return null
+    const complete = joinColumns.length > 0 && joinColumns.every((col) => col.file1 && col.file2)
+    if (joinType !== "cross" && !complete) return null
+    // Pairs naming columns the files do not have are left out rather than failing the preview
+    const pairs = joinColumns.filter((col) => file1.columns?.includes(col.file1) && file2.columns?.includes(col.file2))
+    if (joinType !== "cross" && pairs.length === 0) return null
+    try {
+      return {
+        report: analyzeJoin(
+          { columns: file1.columns || [], data: file1.data || [] },
+          { columns: file2.columns || [], data: file2.data || [] },
+          { type: joinType, on: pairs },
+        ),
+      }
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : "Could not analyze the join" }
+    }
+  }, [mergeType, file1, file2, joinType, joinColumns])
+  const joinReport = joinAnalysis?.report ?? null
+
+  // The result's columns with the type each one takes over from its file
+  const outputColumns = useMemo(() => {
+    if (mergeType !== "join" || !file1 || !file2) return []
+    const leftSchema = getSchema(file1)
+    const rightSchema = getSchema(file2)
+    const sources = planJoinColumns(file1.columns || [], file2.columns || [], {
+      type: joinType,
+      on: joinColumns.filter((col) => col.file1 && col.file2),
+      columnOptions,
+    })
+    return sources.map((source) => ({
+      ...source,
+      type: (
+        leftSchema.find((column) => column.name === source.left) ??
+        rightSchema.find((column) => column.name === source.right)
+      )?.type,
+    }))
+  }, [mergeType, file1, file2, joinType, joinColumns, columnOptions])
+
+  // Name and spelling matches are applied unless unticked; weaker ones wait to be ticked
+  const isMatchAccepted = (fileId: string, match: ColumnMatch) =>
+    matchChoices[`${fileId}:${match.sourceColumn}`] ?? (match.type === "exact" || match.type === "similar")
+
+  // Columns of later files that line up with differently named ones appended before them
+  const selected = getSelectedFiles()
+  const appendSuggestions = useMemo(() => {
+    const tables = selectedFiles.map((id) => files.find((f) => f.id === id)).filter(Boolean) as DataFile[]
+    if (mergeType !== "append" || !useSmartAlignment || tables.length < 2) return []
+    return suggestAppendMappings(
+      tables.map((file) => ({
+        name: file.name,
+        columns: file.columns || [],
+        data: file.data || [],
+        schema: getSchema(file),
+      })),
+      (position, match) => isMatchAccepted(tables[position].id, match),
+    )
+  }, [mergeType, useSmartAlignment, selectedFiles, files, matchChoices])
+
+  const columnMappings: Record<string, Record<string, string>> = Object.fromEntries(
+    selected.map((file, index) => [
+      file.id,
+      toMapping((appendSuggestions[index] ?? []).filter((match) => isMatchAccepted(file.id, match))),
+    ]),
+  )
+
+  const appendPlan =
+    mergeType === "append" && selected.length >= 2
+      ? planAppendColumns(
+          selected.map((file) => ({
+            name: file.name,
+            columns: file.columns || [],
+            data: [],
+            mapping: columnMappings[file.id],
+          })),
+          { columns: appendColumns },
+        )
+      : []
+
+  const describeAppendSource = (source: AppendColumnSource) => {
+    const parts = selected
+      .map((file, index) => ({ file, column: source.sources[index] }))
+      .filter(({ column }) => column !== undefined && column !== source.name)
+      .map(({ file, column }) => `${column} in ${file.name}`)
+    const missing = selected.filter((_, index) => source.sources[index] === undefined).map((file) => file.name)
+    if (missing.length > 0) parts.push(`blank for ${missing.join(", ")}`)
+    return parts.length > 0 ? parts.join("; ") : "in every file"
+  }
+
+  const updateColumnOptions = (changes: Partial<JoinColumnOptions>) => {
+    setColumnOptions((prev) => ({ ...prev, ...changes }))
+  }
+
+  const describeColumnSource = (source: { left?: string; right?: string }) => {
+    if (source.left !== undefined && source.right !== undefined) {
+      return source.left === source.right ? `${source.left} from both files` : `${source.left} / ${source.right}`
+    }
+    return source.left !== undefined ? `${source.left} from ${file1?.name}` : `${source.right} from ${file2?.name}`
+  }
+
   return (
     <div className="space-y-6">
       <Card>
@@ -162,6 +321,116 @@ export function MergeOperation({ files, onExecute, onCancel }: MergeOperationPro
             </ScrollArea>
           </div>
 
+          {/* Append Configuration */}
+          {mergeType === "append" && selectedFiles.length >= 2 && (
+            <div className="space-y-4">
+              <Separator />
+
+              <div className="space-y-3">
+                <Label className="text-sm font-medium">Columns</Label>
+                <Select value={appendColumns} onValueChange={(value: AppendColumns) => setAppendColumns(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="union">All columns - Blank where a file lacks one</SelectItem>
+                    <SelectItem value="intersection">Shared columns - Only those every file has</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="append-smart-alignment"
+                  checked={useSmartAlignment}
+                  onCheckedChange={(checked) => setUseSmartAlignment(checked as boolean)}
+                />
+                <Label
+                  htmlFor="append-smart-alignment"
+                  className="text-sm font-medium cursor-pointer flex items-center gap-2"
+                >
+                  <Brain className="w-4 h-4 text-primary" />
+                  Line up renamed columns with Smart Column Alignment
+                </Label>
+              </div>
+
+              {appendSuggestions.some((matches) => matches.length > 0) && (
+                <div className="space-y-3">
+                  {selected.map((file, index) =>
+                    (appendSuggestions[index] ?? []).length > 0 ? (
+                      <div key={file.id} className="space-y-2">
+                        <Label className="text-xs text-muted-foreground">{file.name}</Label>
+                        {appendSuggestions[index].map((match) => {
+                          const key = `${file.id}:${match.sourceColumn}`
+                          return (
+                            <div
+                              key={key}
+                              className="flex items-center gap-3 p-2 border border-border rounded-lg text-sm"
+                            >
+                              <Checkbox
+                                id={key}
+                                checked={isMatchAccepted(file.id, match)}
+                                onCheckedChange={(checked) =>
+                                  setMatchChoices((prev) => ({ ...prev, [key]: checked as boolean }))
+                                }
+                              />
+                              <Label htmlFor={key} className="flex-1 flex items-center gap-2 cursor-pointer">
+                                <span className="font-medium">{match.sourceColumn}</span>
+                                <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                                <span className="font-medium">{match.targetColumn}</span>
+                              </Label>
+                              <Badge variant="outline" className="text-xs" title={match.reasons.join(", ")}>
+                                {Math.round(match.confidence * 100)}% {match.type}
+                              </Badge>
+                            </div>
+                          )
+                        })}
+                      </div>
+                    ) : null,
+                  )}
+                </div>
+              )}
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="source-column"
+                  checked={addSourceColumn}
+                  onCheckedChange={(checked) => setAddSourceColumn(checked as boolean)}
+                />
+                <Label htmlFor="source-column" className="text-sm cursor-pointer">
+                  Add a <code>{SOURCE_COLUMN}</code> column naming the file each row came from
+                </Label>
+              </div>
+
+              {appendPlan.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  The files share no columns. Line up renamed columns or keep all columns.
+                </p>
+              )}
+
+              {/* Schema Preview */}
+              {appendPlan.length > 0 && (
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">
+                    Result Schema ({appendPlan.length + (addSourceColumn ? 1 : 0)} columns)
+                  </Label>
+                  <ScrollArea className="h-48 border border-border rounded-lg">
+                    <div className="divide-y divide-border">
+                      {appendPlan.map((source) => (
+                        <div key={source.name} className="flex items-center gap-3 px-3 py-2 text-sm">
+                          <span className="font-medium truncate flex-1">{source.name}</span>
+                          <span className="text-xs text-muted-foreground truncate flex-1">
+                            {describeAppendSource(source)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Join Configuration */}
           {mergeType === "join" && selectedFiles.length >= 2 && (
             <div className="space-y-4">
@@ -179,25 +448,35 @@ export function MergeOperation({ files, onExecute, onCancel }: MergeOperationPro
                     <SelectItem value="left">Left Join - Keep all rows from first file</SelectItem>
                     <SelectItem value="right">Right Join - Keep all rows from second file</SelectItem>
                     <SelectItem value="outer">Outer Join - Keep all rows from both files</SelectItem>
+                    <SelectItem value="semi">Semi Join - Keep rows of the first file found in the second</SelectItem>
+                    <SelectItem value="anti">
+                      Anti Join - Keep rows of the first file missing from the second
+                    </SelectItem>
+                    <SelectItem value="cross">Cross Join - Pair every row with every row</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
 
               {/* Smart Alignment Toggle */}
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id="smart-alignment"
-                  checked={useSmartAlignment}
-                  onCheckedChange={(checked) => setUseSmartAlignment(checked as boolean)}
-                />
-                <Label htmlFor="smart-alignment" className="text-sm font-medium cursor-pointer flex items-center gap-2">
-                  <Brain className="w-4 h-4 text-primary" />
-                  Use Smart Column Alignment
-                </Label>
-              </div>
+              {needsJoinColumns && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="smart-alignment"
+                    checked={useSmartAlignment}
+                    onCheckedChange={(checked) => setUseSmartAlignment(checked as boolean)}
+                  />
+                  <Label
+                    htmlFor="smart-alignment"
+                    className="text-sm font-medium cursor-pointer flex items-center gap-2"
+                  >
+                    <Brain className="w-4 h-4 text-primary" />
+                    Use Smart Column Alignment
+                  </Label>
+                </div>
+              )}
 
               {/* Smart Alignment Panel */}
-              {useSmartAlignment && selectedFiles.length === 2 && (
+              {needsJoinColumns && useSmartAlignment && selectedFiles.length === 2 && (
                 <SmartAlignmentPanel
                   sourceFile={getSelectedFiles()[0]}
                   targetFile={getSelectedFiles()[1]}
@@ -207,7 +486,7 @@ export function MergeOperation({ files, onExecute, onCancel }: MergeOperationPro
               )}
 
               {/* Manual Join Columns (fallback) */}
-              {!useSmartAlignment && (
+              {needsJoinColumns && !useSmartAlignment && (
                 <div className="space-y-3">
                   <div className="flex items-center justify-between">
                     <Label className="text-sm font-medium">Join Columns</Label>
@@ -234,6 +513,12 @@ export function MergeOperation({ files, onExecute, onCancel }: MergeOperationPro
                             {getSelectedFileColumns(selectedFiles[0]).map((col) => (
                               <SelectItem key={col} value={col}>
                                 {col}
+                                {getColumnLabel(selectedFiles[0], col) && (
+                                  <span className="text-muted-foreground">
+                                    {" "}
+                                    — {getColumnLabel(selectedFiles[0], col)}
+                                  </span>
+                                )}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -257,6 +542,12 @@ export function MergeOperation({ files, onExecute, onCancel }: MergeOperationPro
                             {getSelectedFileColumns(selectedFiles[1]).map((col) => (
                               <SelectItem key={col} value={col}>
                                 {col}
+                                {getColumnLabel(selectedFiles[1], col) && (
+                                  <span className="text-muted-foreground">
+                                    {" "}
+                                    — {getColumnLabel(selectedFiles[1], col)}
+                                  </span>
+                                )}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -282,6 +573,129 @@ export function MergeOperation({ files, onExecute, onCancel }: MergeOperationPro
                   )}
                 </div>
               )}
+
+              {joinAnalysis?.error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{joinAnalysis.error}</AlertDescription>
+                </Alert>
+              )}
+
+              {/* Join Report */}
+              {joinReport && (
+                <div className="space-y-3">
+                  <Label className="text-sm font-medium">Join Report</Label>
+                  <JoinReportSummary report={joinReport} leftName={file1.name} rightName={file2.name} />
+                </div>
+              )}
+
+              {/* Output Columns */}
+              {joinType !== "semi" && joinType !== "anti" && (
+                <div className="space-y-3">
+                  <Label className="text-sm font-medium">Output Columns</Label>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Columns with the same name</Label>
+                      <Select
+                        value={columnOptions.collisions}
+                        onValueChange={(value: JoinColumnOptions["collisions"]) =>
+                          updateColumnOptions({ collisions: value })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="suffix">Keep both, with suffixes</SelectItem>
+                          <SelectItem value="coalesce">Coalesce into one column</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {columnOptions.collisions === "suffix" && (
+                      <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                          <Label className="text-xs text-muted-foreground">Suffixes</Label>
+                          <Button
+                            variant="link"
+                            size="sm"
+                            className="h-auto p-0 text-xs"
+                            onClick={() =>
+                              updateColumnOptions({ suffixes: [fileSuffix(file1.name), fileSuffix(file2.name)] })
+                            }
+                          >
+                            Use file names
+                          </Button>
+                        </div>
+                        <div className="flex gap-2">
+                          <Input
+                            value={columnOptions.suffixes[0]}
+                            onChange={(e) =>
+                              updateColumnOptions({ suffixes: [e.target.value, columnOptions.suffixes[1]] })
+                            }
+                            placeholder="_x"
+                          />
+                          <Input
+                            value={columnOptions.suffixes[1]}
+                            onChange={(e) =>
+                              updateColumnOptions({ suffixes: [columnOptions.suffixes[0], e.target.value] })
+                            }
+                            placeholder="_y"
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                  {joinType !== "cross" && (
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="merge-keys"
+                        checked={columnOptions.mergeKeys}
+                        onCheckedChange={(checked) => updateColumnOptions({ mergeKeys: checked as boolean })}
+                      />
+                      <Label htmlFor="merge-keys" className="text-sm cursor-pointer">
+                        Keep a single copy of the join columns
+                      </Label>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Schema Preview */}
+              {outputColumns.length > 0 && (
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Result Schema ({outputColumns.length} columns)</Label>
+                  <ScrollArea className="h-48 border border-border rounded-lg">
+                    <div className="divide-y divide-border">
+                      {outputColumns.map((column) => (
+                        <div key={column.name} className="flex items-center gap-3 px-3 py-2 text-sm">
+                          <span className="font-medium truncate flex-1">{column.name}</span>
+                          <span className="text-xs text-muted-foreground truncate flex-1">
+                            {describeColumnSource(column)}
+                          </span>
+                          {column.type && (
+                            <Badge variant="outline" className="text-xs">
+                              {column.type}
+                            </Badge>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </div>
+              )}
+
+              {joinType !== "cross" && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="output-unmatched"
+                    checked={outputUnmatched}
+                    onCheckedChange={(checked) => setOutputUnmatched(checked as boolean)}
+                  />
+                  <Label htmlFor="output-unmatched" className="text-sm cursor-pointer">
+                    Also output unmatched rows from each file as separate datasets
+                  </Label>
+                </div>
+              )}
             </div>
           )}
 
@@ -321,3 +735,12 @@ export function MergeOperation({ files, onExecute, onCancel }: MergeOperationPro
     </div>
   )
 }
+
+// "Wave 2.csv" becomes "_wave_2"
+function fileSuffix(name: string): string {
+  return `_${name
+    .replace(/\.[^.]+$/, "")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "")
+    .toLowerCase()}`
+}
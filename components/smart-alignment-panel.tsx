@@ -13,6 +13,7 @@ import { Brain, Check, X, AlertTriangle, Lightbulb, RefreshCw } from "lucide-rea
 import { cn } from "@/lib/utils"
 import { SmartAlignmentEngine, type ColumnMatch, type AlignmentSuggestion } from "@/lib/smart-alignment"
 import type { DataFile } from "@/components/file-upload"
+import { getSchema } from "@/lib/column-schema"
 
 interface SmartAlignmentPanelProps {
   sourceFile: DataFile
@@ -49,6 +50,8 @@ export function SmartAlignmentPanel({
       targetFile.columns,
       sourceFile.data,
       targetFile.data,
+      getSchema(sourceFile),
+      getSchema(targetFile),
     )
 
     setSuggestion(alignment)
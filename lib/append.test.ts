@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest"
+import { appendTables, planAppendColumns, suggestAppendMappings, type AppendTable } from "@/lib/append"
+
+const wave1: AppendTable = {
+  name: "wave1.csv",
+  columns: ["id", "age", "score"],
+  data: [{ id: 1, age: 30, score: 5 }],
+}
+
+const wave2: AppendTable = {
+  name: "wave2.csv",
+  columns: ["id", "age", "region"],
+  data: [{ id: 2, age: 41, region: "N" }],
+}
+
+describe("appendTables", () => {
+  it("keeps every column in a union, leaving missing ones null", () => {
+    const result = appendTables([wave1, wave2], { columns: "union" })
+    expect(result.columns).toEqual(["id", "age", "score", "region"])
+    expect(result.data).toEqual([
+      { id: 1, age: 30, score: 5, region: null },
+      { id: 2, age: 41, score: null, region: "N" },
+    ])
+  })
+
+  it("keeps only shared columns in an intersection", () => {
+    const result = appendTables([wave1, wave2], { columns: "intersection" })
+    expect(result.columns).toEqual(["id", "age"])
+    expect(result.data).toEqual([
+      { id: 1, age: 30 },
+      { id: 2, age: 41 },
+    ])
+  })
+
+  it("renames columns through each table's mapping", () => {
+    const renamed = { ...wave2, columns: ["ID", "age_years"], data: [{ ID: 2, age_years: 41 }] }
+    const result = appendTables([wave1, { ...renamed, mapping: { ID: "id", age_years: "age" } }], {
+      columns: "intersection",
+    })
+    expect(result.data).toEqual([
+      { id: 1, age: 30 },
+      { id: 2, age: 41 },
+    ])
+  })
+
+  it("adds a source column first, under a name no other column uses", () => {
+    const withSource = { ...wave1, columns: [...wave1.columns, "source_file"] }
+    const result = appendTables([withSource, wave2], { columns: "union", sourceColumn: "source_file" })
+    expect(result.sourceColumn).toBe("source_file_2")
+    expect(result.columns[0]).toBe("source_file_2")
+    expect(result.data.map((row) => row.source_file_2)).toEqual(["wave1.csv", "wave2.csv"])
+  })
+
+  it("keeps both columns when a table maps two of them to the same name", () => {
+    const both = { name: "b", columns: ["p", "q"], data: [{ p: 3, q: 4 }], mapping: { p: "id", q: "id" } }
+    const result = appendTables([wave1, both], { columns: "union" })
+    expect(result.columns).toEqual(["id", "age", "score", "id_2"])
+    expect(result.data[1]).toEqual({ id: 3, age: null, score: null, id_2: 4 })
+  })
+})
+
+describe("planAppendColumns", () => {
+  it("records the source column of each table", () => {
+    expect(planAppendColumns([wave1, { ...wave2, mapping: { region: "score" } }], { columns: "union" })).toEqual([
+      { name: "id", sources: ["id", "id"] },
+      { name: "age", sources: ["age", "age"] },
+      { name: "score", sources: ["score", "region"] },
+    ])
+  })
+})
+
+describe("suggestAppendMappings", () => {
+  const first = { name: "a", columns: ["id", "customer"], data: [{ id: 1, customer: "x" }] }
+  const second = { name: "b", columns: ["id", "customers"], data: [{ id: 2, customers: "y" }] }
+  const third = { name: "c", columns: ["id", "customers"], data: [{ id: 3, customers: "z" }] }
+  const describeMatches = (suggestions: ReturnType<typeof suggestAppendMappings>) =>
+    suggestions.map((matches) => matches.map((match) => `${match.sourceColumn}->${match.targetColumn}`))
+
+  it("lines up renamed columns with those appended before them", () => {
+    expect(describeMatches(suggestAppendMappings([first, second, third]))).toEqual([
+      [],
+      ["customers->customer"],
+      ["customers->customer"],
+    ])
+  })
+
+  it("aligns later tables with only the accepted renames", () => {
+    const suggestions = suggestAppendMappings([first, second, third], (position) => position !== 1)
+    // The second table keeps its own column, which the third table then shares by name
+    expect(describeMatches(suggestions)).toEqual([[], ["customers->customer"], []])
+  })
+})
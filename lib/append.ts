@@ -0,0 +1,147 @@
+import type { ColumnSchema } from "@/lib/column-schema"
+import type { JoinTable } from "@/lib/join"
+import { makeUniqueColumnNames } from "@/lib/parsers/columns"
+import { SmartAlignmentEngine, type ColumnMatch } from "@/lib/smart-alignment"
+
+/** `union` keeps every column any table has, `intersection` only those every table has */
+export type AppendColumns = "union" | "intersection"
+
+export interface AppendTable extends JoinTable {
+  name: string
+  schema?: ColumnSchema[]
+  /** Columns of this table renamed to the result column they line up with */
+  mapping?: Record<string, string>
+}
+
+export interface AppendOptions {
+  columns: AppendColumns
+  /** Adds a column of this name holding the name of the table each row came from */
+  sourceColumn?: string
+}
+
+/** A result column and, for each table in order, the column it takes its values from */
+export interface AppendColumnSource {
+  name: string
+  sources: (string | undefined)[]
+}
+
+export interface AppendResult extends JoinTable {
+  sources: AppendColumnSource[]
+  /** The provenance column's name, made unique among the others */
+  sourceColumn?: string
+}
+
+/**
+ * Stacks the rows of several tables. Each table's columns are renamed through its mapping and
+ * laid out by `planAppendColumns`; a table without a column leaves it null in its rows.
+ */
+export function appendTables(tables: AppendTable[], options: AppendOptions): AppendResult {
+  const sources = planAppendColumns(tables, options)
+  const columns = sources.map((source) => source.name)
+  let sourceColumn: string | undefined
+  if (options.sourceColumn) {
+    sourceColumn = makeUniqueColumnNames([...columns, options.sourceColumn])[columns.length]
+    columns.unshift(sourceColumn)
+  }
+
+  const data: Record<string, any>[] = []
+  tables.forEach((table, position) => {
+    for (const row of table.data) {
+      const record: Record<string, any> = {}
+      if (sourceColumn) record[sourceColumn] = table.name
+      for (const source of sources) {
+        const column = source.sources[position]
+        const value = column === undefined ? undefined : row[column]
+        record[source.name] = value === undefined ? null : value
+      }
+      data.push(record)
+    }
+  })
+
+  return { columns, data, sources, sourceColumn }
+}
+
+/**
+ * Lays out the columns of an append: the first table's columns, then those later tables add,
+ * in the order they first appear. Two columns of one table mapped to the same result column
+ * are both kept, the second under a numbered name. An intersection drops the columns some
+ * table lacks.
+ */
+export function planAppendColumns(tables: AppendTable[], options: AppendOptions): AppendColumnSource[] {
+  const sources: AppendColumnSource[] = []
+  const byName = new Map<string, AppendColumnSource>()
+  tables.forEach((table, position) => {
+    for (const column of table.columns) {
+      const name = table.mapping?.[column] ?? column
+      const existing = byName.get(name)
+      if (existing && existing.sources[position] === undefined) {
+        existing.sources[position] = column
+        continue
+      }
+      const source: AppendColumnSource = { name, sources: tables.map(() => undefined) }
+      source.sources[position] = column
+      sources.push(source)
+      if (!existing) byName.set(name, source)
+    }
+  })
+
+  const names = makeUniqueColumnNames(sources.map((source) => source.name))
+  const named = sources.map((source, index) => ({ ...source, name: names[index] }))
+  if (options.columns === "union") return named
+  return named.filter((source) => source.sources.every((column) => column !== undefined))
+}
+
+/**
+ * Suggests how each table's columns line up with those of the tables before it, for columns
+ * whose names differ. Each table is aligned against the columns appended so far, renamed by
+ * the suggestions `accept` keeps, so a column only the second and third tables share is lined
+ * up too while a rejected rename does not steer later tables. The first table has no suggestions.
+ */
+export function suggestAppendMappings(
+  tables: AppendTable[],
+  accept: (position: number, match: ColumnMatch) => boolean = () => true,
+): ColumnMatch[][] {
+  const suggestions: ColumnMatch[][] = []
+  const appended: AppendTable[] = []
+  tables.forEach((table, position) => {
+    const targetColumns = planAppendColumns(appended, { columns: "union" }).map((source) => source.name)
+    const sourceColumns = table.columns.filter((column) => !targetColumns.includes(column))
+    const openTargets = targetColumns.filter((column) => !table.columns.includes(column))
+    const target = renameRows(appended)
+    const matches =
+      appended.length === 0 || sourceColumns.length === 0 || openTargets.length === 0
+        ? []
+        : SmartAlignmentEngine.analyzeColumnAlignment(
+            sourceColumns,
+            openTargets,
+            table.data,
+            target.data,
+            table.schema,
+            target.schema,
+          ).matches
+    suggestions.push(matches)
+    appended.push({ ...table, mapping: toMapping(matches.filter((match) => accept(position, match))) })
+  })
+  return suggestions
+}
+
+export function toMapping(matches: ColumnMatch[]): Record<string, string> {
+  return Object.fromEntries(matches.map((match) => [match.sourceColumn, match.targetColumn]))
+}
+
+// The alignment engine compares the first 100 rows, so each table contributes its share of them
+const SAMPLE_ROWS = 100
+
+function renameRows(tables: AppendTable[]): { data: Record<string, any>[]; schema: ColumnSchema[] } {
+  const data: Record<string, any>[] = []
+  const schema: ColumnSchema[] = []
+  const share = Math.ceil(SAMPLE_ROWS / Math.max(tables.length, 1))
+  for (const table of tables) {
+    const rename = (column: string) => table.mapping?.[column] ?? column
+    for (const row of table.data.slice(0, share)) {
+      data.push(Object.fromEntries(Object.entries(row).map(([column, value]) => [rename(column), value])))
+    }
+    for (const column of table.schema ?? []) schema.push({ ...column, name: rename(column.name) })
+  }
+  return { data, schema }
+}
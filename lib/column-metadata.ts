@@ -0,0 +1,47 @@
+import type { ColumnMetadata } from "@/lib/parsers/types"
+
+export type ColumnMetadataMap = Record<string, ColumnMetadata>
+
+export function getValueLabel(meta: ColumnMetadata | undefined, value: any): string | undefined {
+  if (!meta?.valueLabels || value === null || value === undefined || value === "") return undefined
+  return meta.valueLabels[String(value).trim()]
+}
+
+export function formatLabelledValue(meta: ColumnMetadata | undefined, value: any): string {
+  const label = getValueLabel(meta, value)
+  return label === undefined ? String(value ?? "") : `${value} = ${label}`
+}
+
+export function isUserMissing(meta: ColumnMetadata | undefined, value: any): boolean {
+  const spec = meta?.missingValues
+  if (!spec || value === null || value === undefined) return false
+
+  if (spec.values?.some((missing) => missing === value || String(missing).trim() === String(value).trim())) {
+    return true
+  }
+  return typeof value === "number" && !!spec.range && value >= spec.range.low && value <= spec.range.high
+}
+
+export function hasColumnMetadata(meta: ColumnMetadataMap | undefined): boolean {
+  return !!meta && Object.values(meta).some((column) => column.label || column.valueLabels || column.missingValues)
+}
+
+/**
+ * Combines metadata from several datasets. Earlier sources win when the same column is
+ * described more than once, and `rename` maps a source column to its output name.
+ */
+export function mergeColumnMetadata(
+  sources: { meta?: ColumnMetadataMap; rename?: (column: string) => string | undefined }[],
+): ColumnMetadataMap | undefined {
+  const merged: ColumnMetadataMap = {}
+
+  for (const { meta, rename } of sources) {
+    if (!meta) continue
+    for (const [column, columnMeta] of Object.entries(meta)) {
+      const target = rename ? rename(column) : column
+      if (target && !merged[target]) merged[target] = columnMeta
+    }
+  }
+
+  return Object.keys(merged).length > 0 ? merged : undefined
+}
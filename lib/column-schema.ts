@@ -0,0 +1,186 @@
+import type { ColumnMetadataMap } from "@/lib/column-metadata"
+import { inferStorageType, type StorageType } from "@/lib/parsers/columns"
+import type { ParsedTable } from "@/lib/parsers/types"
+import { convertColumn, readValueFormats, type DetectedFormat, type ValueFormat } from "@/lib/parsers/value-formats"
+
+export type LogicalType = "integer" | "decimal" | "string" | "date" | "datetime" | "boolean" | "categorical"
+
+export const LOGICAL_TYPES: LogicalType[] = [
+  "integer",
+  "decimal",
+  "string",
+  "date",
+  "datetime",
+  "boolean",
+  "categorical",
+]
+
+export interface ColumnSchema {
+  name: string
+  type: LogicalType
+  /** Whether any row is blank in this column */
+  nullable: boolean
+  label?: string
+  valueLabels?: Record<string, string>
+  /** The user chose the type, so it is kept when the data is reloaded or transformed */
+  typeOverridden?: boolean
+  /** How the column's text was read as numbers or dates when it was imported */
+  detectedFormat?: DetectedFormat
+}
+
+/** Anything that carries a table: a DataFile, a parsed table or an operation result */
+export interface SchemaSource {
+  columns?: string[]
+  data?: Record<string, any>[]
+  columnMeta?: ColumnMetadataMap
+  schema?: ColumnSchema[]
+}
+
+const BOOLEAN_TEXT = new Set(["true", "false", "yes", "no"])
+// Text columns with few distinct values relative to their size are treated as categories
+const MAX_CATEGORIES = 20
+const MIN_ROWS_PER_CATEGORY = 3
+
+/**
+ * Picks the logical type of a column. Value labels make a column categorical; otherwise the
+ * values decide, and text falls back to categorical when it repeats a small set of values.
+ */
+export function inferLogicalType(values: unknown[], valueLabels?: Record<string, string>): LogicalType {
+  if (valueLabels && Object.keys(valueLabels).length > 0) return "categorical"
+
+  const present = values.filter((value) => value !== null && value !== undefined && value !== "")
+  switch (inferStorageType(present)) {
+    case "integer":
+      return "integer"
+    case "double":
+      return "decimal"
+    case "date":
+      return "date"
+    case "timestamp":
+      return "datetime"
+    case "boolean":
+      return "boolean"
+  }
+
+  if (present.length > 0 && present.every((value) => BOOLEAN_TEXT.has(String(value).trim().toLowerCase()))) {
+    return "boolean"
+  }
+  const distinct = new Set(present.map((value) => String(value).trim()))
+  if (distinct.size <= MAX_CATEGORIES && distinct.size * MIN_ROWS_PER_CATEGORY <= present.length) {
+    return "categorical"
+  }
+  return "string"
+}
+
+export function inferSchema(
+  columns: string[],
+  data: Record<string, any>[],
+  columnMeta?: ColumnMetadataMap,
+  formats?: Record<string, DetectedFormat>,
+): ColumnSchema[] {
+  return columns.map((name) => {
+    const values = data.map((row) => row[name])
+    const meta = columnMeta?.[name]
+    return {
+      name,
+      type: inferLogicalType(values, meta?.valueLabels),
+      nullable: values.some((value) => value === null || value === undefined || value === ""),
+      ...(meta?.label && { label: meta.label }),
+      ...(meta?.valueLabels && { valueLabels: meta.valueLabels }),
+      ...(formats?.[name] && { detectedFormat: formats[name] }),
+    }
+  })
+}
+
+/**
+ * Prepares a freshly parsed table for use: text written as locale-formatted numbers and dates
+ * is converted, and the schema records how each column was read. A reload passes the previous
+ * schema, so formats and types the user confirmed are applied again.
+ */
+export function readImportedTable(
+  table: ParsedTable,
+  previous?: ColumnSchema[],
+): { data: Record<string, any>[]; schema: ColumnSchema[] } {
+  const known: Record<string, ValueFormat> = {}
+  for (const column of previous ?? []) {
+    if (column.detectedFormat?.applied) known[column.name] = column.detectedFormat.format
+  }
+  const { data, formats } = readValueFormats(table.columns, table.data, known)
+  const schema = inferSchema(table.columns, data, table.columnMeta, formats)
+  return { data, schema: getSchema({ columns: table.columns, data, schema }, previous) }
+}
+
+/**
+ * Returns a schema entry for every column of a table. Columns the stored schema already
+ * describes keep their first entry, with types the user chose carried over from `previous`
+ * (for example the dataset before a refresh); the rest are inferred from the data.
+ */
+export function getSchema(source: SchemaSource, previous?: ColumnSchema[]): ColumnSchema[] {
+  const columns = source.columns ?? []
+  const known = new Map<string, ColumnSchema>()
+  for (const column of source.schema ?? []) {
+    if (!known.has(column.name)) known.set(column.name, column)
+  }
+  const overrides = new Map(
+    (previous ?? []).filter((column) => column.typeOverridden).map((column) => [column.name, column.type]),
+  )
+
+  const missing = columns.filter((name) => !known.has(name))
+  for (const column of inferSchema(missing, source.data ?? [], source.columnMeta)) {
+    known.set(column.name, column)
+  }
+
+  return columns.map((name) => {
+    const column = known.get(name)!
+    const override = overrides.get(name)
+    return override ? { ...column, type: override, typeOverridden: true } : column
+  })
+}
+
+export function setColumnType(schema: ColumnSchema[], name: string, type: LogicalType): ColumnSchema[] {
+  return schema.map((column) => (column.name === name ? { ...column, type, typeOverridden: true } : column))
+}
+
+/**
+ * Converts a column the user confirmed a format for, such as dates they said are day-first.
+ * The column's type is inferred again unless the user set it.
+ */
+export function applyValueFormat(
+  source: SchemaSource,
+  name: string,
+  format: ValueFormat,
+): { data: Record<string, any>[]; schema: ColumnSchema[] } {
+  const data = convertColumn(source.data ?? [], name, format)
+  const schema = getSchema(source).map((column) => {
+    if (column.name !== name) return column
+    return {
+      ...column,
+      type: column.typeOverridden
+        ? column.type
+        : inferLogicalType(
+            data.map((row) => row[name]),
+            column.valueLabels,
+          ),
+      detectedFormat: { format, confidence: 1, alternatives: [], applied: true },
+    }
+  })
+  return { data, schema }
+}
+
+export function isNumericType(type: LogicalType): boolean {
+  return type === "integer" || type === "decimal"
+}
+
+export function isTemporalType(type: LogicalType): boolean {
+  return type === "date" || type === "datetime"
+}
+
+/**
+ * How a column is stored in typed export formats. Text and categories are always written
+ * as text, so a code column set to string keeps its leading zeros; other types follow the
+ * values, which may not all fit a type the user chose.
+ */
+export function toStorageType(column: ColumnSchema, values: unknown[]): StorageType {
+  if (column.type === "string" || column.type === "categorical") return "string"
+  return inferStorageType(values)
+}
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { GET } from "@/app/api/fetch/route"
+import { checkProxyTarget, fetchProxyTarget, readProxyPolicy } from "@/lib/fetch-proxy"
+
+vi.mock("@/lib/fetch-proxy", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/fetch-proxy")>()),
+  fetchProxyTarget: vi.fn(),
+}))
+
+const policy = readProxyPolicy({})
+const refusal = async (url: string) => (await checkProxyTarget(new URL(url), policy)).refusal
+
+describe("checkProxyTarget", () => {
+  it("refuses private IPv4 addresses", async () => {
+    for (const host of ["127.0.0.1", "10.1.2.3", "169.254.169.254", "172.16.0.1", "192.168.1.1", "100.64.0.1"]) {
+      expect(await refusal(`http://${host}/`)).toMatch(/private network/)
+    }
+  })
+
+  it("refuses private IPv6 addresses", async () => {
+    for (const host of ["::", "::1", "fd00::1", "fe80::1", "ff02::1"]) {
+      expect(await refusal(`http://[${host}]/`)).toMatch(/private network/)
+    }
+  })
+
+  it("refuses IPv4 addresses embedded in IPv6 ones", async () => {
+    const hosts = [
+      "::ffff:127.0.0.1",
+      "::ffff:7f00:1",
+      "::ffff:a9fe:a9fe",
+      "::7f00:1",
+      "64:ff9b::a9fe:a9fe",
+      "64:ff9b::10.0.0.1",
+      "2002:7f00:1::",
+      "2002:c0a8:101::1",
+    ]
+    for (const host of hosts) {
+      expect(await refusal(`http://[${host}]/`), host).toMatch(/private network/)
+    }
+  })
+
+  it("accepts public addresses, embedded or not", async () => {
+    for (const host of ["93.184.216.34", "[2606:2800:220:1::]", "[::ffff:5db8:d822]", "[64:ff9b::5db8:d822]"]) {
+      expect(await refusal(`http://${host}/`), host).toBeNull()
+    }
+  })
+})
+
+describe("the fetch route", () => {
+  afterEach(() => {
+    vi.mocked(fetchProxyTarget).mockReset()
+  })
+
+  it("checks every redirect before following it", async () => {
+    vi.mocked(fetchProxyTarget).mockResolvedValue(
+      new Response(null, { status: 302, headers: { location: "http://[::ffff:a9fe:a9fe]/latest/meta-data" } }),
+    )
+    const response = await GET(
+      new Request(`http://app.test/api/fetch?url=${encodeURIComponent("http://93.184.216.34/")}`),
+    )
+    expect(response.status).toBe(403)
+    expect(await response.json()).toEqual({
+      error: "::ffff:a9fe:a9fe is on a private network, which the server does not fetch from",
+    })
+    expect(fetchProxyTarget).toHaveBeenCalledTimes(1)
+  })
+})
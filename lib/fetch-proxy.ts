@@ -0,0 +1,209 @@
+import type { LookupAddress } from "node:dns"
+import { lookup } from "node:dns/promises"
+import { request as httpRequest, type IncomingMessage } from "node:http"
+import { request as httpsRequest } from "node:https"
+import { isIP, type LookupFunction } from "node:net"
+import { Readable, pipeline } from "node:stream"
+import { createBrotliDecompress, createGunzip, createInflate } from "node:zlib"
+
+export interface ProxyPolicy {
+  /** Largest body the proxy passes on, in bytes */
+  maxBytes: number
+  /** When non-empty, only these hosts can be fetched; `*.example.org` also matches subdomains */
+  allowedHosts: string[]
+  deniedHosts: string[]
+}
+
+/**
+ * Why a URL must not be fetched, or the addresses the check approved. Hosts allowed by name
+ * have no addresses and are resolved as usual.
+ */
+export type ProxyTarget = { refusal: string } | { refusal: null; addresses: LookupAddress[] | null }
+
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024
+
+/**
+ * Reads the proxy settings from the environment: `URL_PROXY_MAX_BYTES` and the
+ * comma-separated `URL_PROXY_ALLOWED_HOSTS` and `URL_PROXY_DENIED_HOSTS`.
+ */
+export function readProxyPolicy(env: Record<string, string | undefined> = process.env): ProxyPolicy {
+  return {
+    maxBytes: Number(env.URL_PROXY_MAX_BYTES) || DEFAULT_MAX_BYTES,
+    allowedHosts: parseHostList(env.URL_PROXY_ALLOWED_HOSTS),
+    deniedHosts: parseHostList(env.URL_PROXY_DENIED_HOSTS),
+  }
+}
+
+/**
+ * Decides whether the proxy may fetch a URL. Hosts resolving to loopback, private or
+ * link-local addresses are refused unless they are allowed by name, so the proxy cannot be
+ * used to reach the server's own network. The approved addresses are what `fetchProxyTarget`
+ * connects to, so a host cannot answer the check with one address and the fetch with another.
+ */
+export async function checkProxyTarget(url: URL, policy: ProxyPolicy): Promise<ProxyTarget> {
+  const refuse = (refusal: string): ProxyTarget => ({ refusal })
+  if (url.protocol !== "http:" && url.protocol !== "https:") return refuse("Only HTTP and HTTPS URLs can be fetched")
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "")
+  if (policy.deniedHosts.some((pattern) => matchesHost(host, pattern))) {
+    return refuse(`Fetching from ${host} is not allowed`)
+  }
+
+  const isAllowed = policy.allowedHosts.some((pattern) => matchesHost(host, pattern))
+  if (policy.allowedHosts.length > 0 && !isAllowed) return refuse(`${host} is not on the list of allowed hosts`)
+  if (isAllowed) return { refusal: null, addresses: null }
+
+  let addresses: LookupAddress[]
+  try {
+    addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true })
+  } catch {
+    return refuse(`${host} could not be found`)
+  }
+  if (addresses.length === 0) return refuse(`${host} could not be found`)
+  if (addresses.some((entry) => isPrivateAddress(entry.address))) {
+    return refuse(`${host} is on a private network, which the server does not fetch from`)
+  }
+
+  return { refusal: null, addresses }
+}
+
+/**
+ * Sends a GET request without following redirects, connecting only to `addresses` when given.
+ * Compressed bodies are decoded, as `fetch` would.
+ */
+export function fetchProxyTarget(
+  url: URL,
+  addresses: LookupAddress[] | null,
+  options: { headers: Headers; signal?: AbortSignal },
+): Promise<Response> {
+  const headers: Record<string, string> = { "accept-encoding": "gzip, deflate, br" }
+  options.headers.forEach((value, name) => {
+    headers[name] = value
+  })
+
+  return new Promise((resolve, reject) => {
+    const send = url.protocol === "https:" ? httpsRequest : httpRequest
+    const upstream = send(
+      url,
+      { method: "GET", headers, signal: options.signal, ...(addresses && { lookup: pinnedLookup(addresses) }) },
+      (response) => {
+        const status = response.statusCode ?? 502
+        const responseHeaders = new Headers()
+        for (const [name, value] of Object.entries(response.headers)) {
+          for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+            responseHeaders.append(name, item)
+          }
+        }
+        // These statuses cannot carry a body in a Response
+        const body = [204, 205, 304].includes(status)
+          ? null
+          : (Readable.toWeb(decodeBody(response)) as ReadableStream<Uint8Array>)
+        resolve(new Response(body, { status, statusText: response.statusMessage, headers: responseHeaders }))
+      },
+    )
+    upstream.on("error", reject)
+    upstream.end()
+  })
+}
+
+function pinnedLookup(addresses: LookupAddress[]): LookupFunction {
+  return (_hostname, options, callback) => {
+    const candidates = options.family ? addresses.filter((entry) => entry.family === options.family) : addresses
+    if (candidates.length === 0) {
+      callback(Object.assign(new Error("No approved address for this host"), { code: "ENOTFOUND" }), "", 0)
+    } else if (options.all) {
+      callback(null, candidates)
+    } else {
+      callback(null, candidates[0].address, candidates[0].family)
+    }
+  }
+}
+
+function decodeBody(response: IncomingMessage): Readable {
+  const done = () => {}
+  switch (response.headers["content-encoding"]?.trim().toLowerCase()) {
+    case "gzip":
+    case "x-gzip":
+      return pipeline(response, createGunzip(), done)
+    case "deflate":
+      return pipeline(response, createInflate(), done)
+    case "br":
+      return pipeline(response, createBrotliDecompress(), done)
+    default:
+      return response
+  }
+}
+
+function parseHostList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+function matchesHost(host: string, pattern: string): boolean {
+  if (pattern.startsWith("*.")) return host === pattern.slice(2) || host.endsWith(pattern.slice(1))
+  return host === pattern
+}
+
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) return isPrivateIPv4(address.split(".").map(Number))
+
+  const bytes = parseIPv6(address)
+  if (!bytes) return true
+  const embedded = embeddedIPv4(bytes)
+  if (embedded) return isPrivateIPv4(embedded)
+  // Unique local fc00::/7, link-local fe80::/10 and multicast ff00::/8
+  return (bytes[0] & 0xfe) === 0xfc || (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0x80) || bytes[0] === 0xff
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b < 128) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168) ||
+    a >= 224
+  )
+}
+
+/**
+ * The IPv4 address an IPv6 address carries: mapped `::ffff:0:0/96`, compatible `::/96` (which
+ * also holds `::` and `::1`), NAT64 `64:ff9b::/96` and 6to4 `2002::/16`.
+ */
+function embeddedIPv4(bytes: number[]): number[] | null {
+  const zeroUntil = (end: number) => bytes.slice(0, end).every((byte) => byte === 0)
+  if (zeroUntil(10) && bytes[10] === 0xff && bytes[11] === 0xff) return bytes.slice(12)
+  if (zeroUntil(12)) return bytes.slice(12)
+  const nat64 = [0x00, 0x64, 0xff, 0x9b, 0, 0, 0, 0, 0, 0, 0, 0]
+  if (nat64.every((byte, index) => bytes[index] === byte)) return bytes.slice(12)
+  if (bytes[0] === 0x20 && bytes[1] === 0x02) return bytes.slice(2, 6)
+  return null
+}
+
+/** The 16 bytes of an IPv6 address in any of its textual forms, or null when it is not one */
+function parseIPv6(address: string): number[] | null {
+  let text = address.replace(/%.*$/, "")
+  if (isIP(text) !== 6) return null
+
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/)
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number)
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`
+  }
+
+  const [head, tail] = text.split("::")
+  const headGroups = head ? head.split(":") : []
+  const tailGroups = tail ? tail.split(":") : []
+  const groups =
+    tail === undefined
+      ? headGroups
+      : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill("0"), ...tailGroups]
+  return groups.flatMap((group) => {
+    const value = parseInt(group, 16)
+    return [value >> 8, value & 0xff]
+  })
+}
@@ -0,0 +1,255 @@
+import { describe, expect, it } from "vitest"
+import { MAX_CROSS_JOIN_ROWS, analyzeJoin, joinTables, planJoinColumns, type JoinTable } from "@/lib/join"
+
+const customers: JoinTable = {
+  columns: ["id", "name"],
+  data: [
+    { id: 1, name: "Ann" },
+    { id: 2, name: "Bo" },
+    { id: 3, name: "Cy" },
+    { id: null, name: "Nil" },
+  ],
+}
+
+// Customer 1 has two orders, customer 4 does not exist and one order has no customer
+const orders: JoinTable = {
+  columns: ["order", "customer", "amount"],
+  data: [
+    { order: "a", customer: "1", amount: 10 },
+    { order: "b", customer: 1, amount: 5 },
+    { order: "c", customer: 4, amount: 7 },
+    { order: "d", customer: "", amount: 1 },
+  ],
+}
+
+const on = [{ file1: "id", file2: "customer" }]
+
+describe("joinTables", () => {
+  it("keeps only matching rows in an inner join, comparing keys as text", () => {
+    const result = joinTables(customers, orders, { type: "inner", on })
+    expect(result.columns).toEqual(["id", "name", "order", "amount"])
+    expect(result.data).toEqual([
+      { id: 1, name: "Ann", order: "a", amount: 10 },
+      { id: 1, name: "Ann", order: "b", amount: 5 },
+    ])
+  })
+
+  it("keeps every row of the first table in a left join", () => {
+    const result = joinTables(customers, orders, { type: "left", on })
+    expect(result.data.map((row) => [row.name, row.order])).toEqual([
+      ["Ann", "a"],
+      ["Ann", "b"],
+      ["Bo", null],
+      ["Cy", null],
+      ["Nil", null],
+    ])
+  })
+
+  it("keeps every row of the second table in a right join, taking the key from it", () => {
+    const result = joinTables(customers, orders, { type: "right", on })
+    expect(result.data.map((row) => [row.id, row.name, row.order])).toEqual([
+      [1, "Ann", "a"],
+      [1, "Ann", "b"],
+      [4, null, "c"],
+      ["", null, "d"],
+    ])
+  })
+
+  it("keeps the rows of both tables in an outer join", () => {
+    const result = joinTables(customers, orders, { type: "outer", on })
+    expect(result.data.map((row) => row.name ?? row.order)).toEqual(["Ann", "Ann", "Bo", "Cy", "Nil", "c", "d"])
+  })
+
+  it("never matches blank keys, not even to each other", () => {
+    const left = {
+      columns: ["k", "v"],
+      data: [
+        { k: null, v: 1 },
+        { k: "", v: 2 },
+      ],
+    }
+    const right = { columns: ["k", "w"], data: [{ k: "", w: 3 }, { w: 4 }] }
+    const keys = [{ file1: "k", file2: "k" }]
+    const result = joinTables(left, right, { type: "inner", on: keys })
+    expect(result.data).toEqual([])
+    expect(result.unmatched.left).toHaveLength(2)
+    expect(result.unmatched.right).toHaveLength(2)
+    expect(joinTables(left, right, { type: "outer", on: keys }).data).toHaveLength(4)
+  })
+
+  it("matches on every key pair", () => {
+    const sales = {
+      columns: ["year", "region", "sales"],
+      data: [
+        { year: 2023, region: "N", sales: 1 },
+        { year: 2023, region: "S", sales: 2 },
+        { year: 2024, region: "N", sales: 3 },
+        { year: 2024, region: null, sales: 4 },
+      ],
+    }
+    const targets = {
+      columns: ["yr", "reg", "target"],
+      data: [
+        { yr: "2023", reg: "S", target: 20 },
+        { yr: "2024", reg: "N", target: 30 },
+        { yr: "2024", reg: "S", target: 40 },
+      ],
+    }
+    const result = joinTables(sales, targets, {
+      type: "inner",
+      on: [
+        { file1: "year", file2: "yr" },
+        { file1: "region", file2: "reg" },
+      ],
+    })
+    expect(result.data).toEqual([
+      { year: 2023, region: "S", sales: 2, target: 20 },
+      { year: 2024, region: "N", sales: 3, target: 30 },
+    ])
+  })
+
+  it("rejects join columns the tables do not have", () => {
+    expect(() => joinTables(customers, orders, { type: "inner", on: [{ file1: "id", file2: "id" }] })).toThrow(
+      "id is not a column of the second file",
+    )
+    expect(() => joinTables(customers, orders, { type: "inner", on: [] })).toThrow()
+  })
+
+  it("returns the rows of each table that found no partner", () => {
+    const result = joinTables(customers, orders, { type: "inner", on })
+    expect(result.unmatched.left.map((row) => row.name)).toEqual(["Bo", "Cy", "Nil"])
+    expect(result.unmatched.right.map((row) => row.order)).toEqual(["c", "d"])
+  })
+})
+
+describe("join report", () => {
+  it("reports cardinality, match rates and blank keys", () => {
+    const report = analyzeJoin(customers, orders, { type: "inner", on })
+    expect(report).toEqual({
+      type: "inner",
+      cardinality: "1:m",
+      left: { rows: 4, matched: 1, unmatched: 3, blankKeys: 1 },
+      right: { rows: 4, matched: 2, unmatched: 2, blankKeys: 1 },
+      outputRows: 2,
+      manyToManyKeys: 0,
+      manyToManyRows: 0,
+    })
+  })
+
+  it("counts the output rows of each join type", () => {
+    const rows = (type: "inner" | "left" | "right" | "outer" | "semi" | "anti") =>
+      analyzeJoin(customers, orders, { type, on }).outputRows
+    expect([rows("inner"), rows("left"), rows("right"), rows("outer"), rows("semi"), rows("anti")]).toEqual([
+      2, 5, 4, 7, 1, 3,
+    ])
+  })
+
+  it("flags keys repeated in both tables", () => {
+    const left = { columns: ["k"], data: [{ k: 1 }, { k: 1 }, { k: 2 }] }
+    const right = { columns: ["k"], data: [{ k: 1 }, { k: 1 }, { k: 2 }] }
+    const report = analyzeJoin(left, right, { type: "inner", on: [{ file1: "k", file2: "k" }] })
+    expect(report.cardinality).toBe("m:m")
+    expect(report.manyToManyKeys).toBe(1)
+    expect(report.manyToManyRows).toBe(4)
+    expect(report.outputRows).toBe(5)
+  })
+
+  it("matches the rows the join produces", () => {
+    for (const type of ["inner", "left", "right", "outer", "semi", "anti", "cross"] as const) {
+      const result = joinTables(customers, orders, { type, on })
+      expect(result.report.outputRows).toBe(result.data.length)
+    }
+  })
+})
+
+describe("semi, anti and cross joins", () => {
+  it("keeps each first-table row with a partner once in a semi join", () => {
+    const result = joinTables(customers, orders, { type: "semi", on })
+    expect(result.columns).toEqual(customers.columns)
+    expect(result.data).toEqual([{ id: 1, name: "Ann" }])
+    expect(result.report.manyToManyKeys).toBe(0)
+  })
+
+  it("keeps first-table rows without a partner in an anti join, blank keys included", () => {
+    const result = joinTables(customers, orders, { type: "anti", on })
+    expect(result.data.map((row) => row.name)).toEqual(["Bo", "Cy", "Nil"])
+  })
+
+  it("pairs every row with every row in a cross join", () => {
+    const result = joinTables(customers, orders, { type: "cross", on: [] })
+    expect(result.data).toHaveLength(16)
+    expect(result.data[1]).toEqual({ id: 1, name: "Ann", order: "b", customer: 1, amount: 5 })
+    expect(result.report.cardinality).toBeNull()
+  })
+
+  it("refuses a cross join over the row limit but still reports its size", () => {
+    const rows = (count: number) => ({ columns: ["n"], data: Array.from({ length: count }, (_, n) => ({ n })) })
+    const left = rows(3000)
+    const right = rows(2000)
+    expect(3000 * 2000).toBeGreaterThan(MAX_CROSS_JOIN_ROWS)
+    expect(analyzeJoin(left, right, { type: "cross", on: [] }).outputRows).toBe(6_000_000)
+    expect(() => joinTables(left, right, { type: "cross", on: [] })).toThrow(/more than the/)
+  })
+})
+
+describe("planJoinColumns", () => {
+  const left = ["id", "name", "score", "score_y"]
+  const right = ["id", "name", "score", "extra"]
+  const idPair = [{ file1: "id", file2: "id" }]
+
+  it("suffixes same-named columns and keeps merged keys once", () => {
+    const names = planJoinColumns(left, right, { type: "inner", on: idPair }).map((source) => source.name)
+    expect(names).toEqual(["id", "name_x", "score_x", "score_y", "name_y", "score_y_2", "extra"])
+  })
+
+  it("uses the suffixes given", () => {
+    const sources = planJoinColumns(["id", "name"], ["id", "name"], {
+      type: "inner",
+      on: idPair,
+      columnOptions: { collisions: "suffix", suffixes: ["_2023", "_2024"], mergeKeys: true },
+    })
+    expect(sources).toEqual([
+      { name: "id", left: "id", right: "id" },
+      { name: "name_2023", left: "name" },
+      { name: "name_2024", right: "name" },
+    ])
+  })
+
+  it("keeps both key columns when they are not merged", () => {
+    const names = planJoinColumns(["id", "a"], ["id", "b"], {
+      type: "inner",
+      on: idPair,
+      columnOptions: { collisions: "suffix", suffixes: ["_x", "_y"], mergeKeys: false },
+    }).map((source) => source.name)
+    expect(names).toEqual(["id_x", "a", "id_y", "b"])
+  })
+
+  it("coalesces same-named columns, preferring the first table's value", () => {
+    const result = joinTables(
+      {
+        columns: ["id", "name"],
+        data: [
+          { id: 1, name: "Ann" },
+          { id: 2, name: "" },
+        ],
+      },
+      {
+        columns: ["id", "name"],
+        data: [
+          { id: 1, name: "Anne" },
+          { id: 2, name: "Bo" },
+        ],
+      },
+      {
+        type: "inner",
+        on: idPair,
+        columnOptions: { collisions: "coalesce", suffixes: ["_x", "_y"], mergeKeys: true },
+      },
+    )
+    expect(result.columns).toEqual(["id", "name"])
+    expect(result.data).toEqual([
+      { id: 1, name: "Ann" },
+      { id: 2, name: "Bo" },
+    ])
+  })
+})
@@ -0,0 +1,330 @@
+import { makeUniqueColumnNames } from "@/lib/parsers/columns"
+
+/**
+ * `semi` keeps the first file's rows that have a partner and `anti` those that have none, each
+ * once and with only the first file's columns. `cross` pairs every row with every other and
+ * needs no join columns.
+ */
+export type JoinType = "inner" | "left" | "right" | "outer" | "semi" | "anti" | "cross"
+
+/** Cross joins beyond this many rows are refused rather than exhausting the browser's memory */
+export const MAX_CROSS_JOIN_ROWS = 5_000_000
+
+/** A column of the first file matched against a column of the second */
+export interface JoinColumnPair {
+  file1: string
+  file2: string
+}
+
+export interface JoinTable {
+  columns: string[]
+  data: Record<string, any>[]
+}
+
+/** How the columns of the two tables are combined in the result */
+export interface JoinColumnOptions {
+  /** Columns both tables have under the same name either get a suffix each or become one column */
+  collisions: "suffix" | "coalesce"
+  /** Appended to the first and second table's copy of a same-named column */
+  suffixes: [string, string]
+  /** Each pair of key columns becomes one column, named after the first table's */
+  mergeKeys: boolean
+}
+
+export const DEFAULT_JOIN_COLUMN_OPTIONS: JoinColumnOptions = {
+  collisions: "suffix",
+  suffixes: ["_x", "_y"],
+  mergeKeys: true,
+}
+
+export interface JoinOptions {
+  type: JoinType
+  on: JoinColumnPair[]
+  columnOptions?: JoinColumnOptions
+}
+
+/**
+ * Where a result column's values come from. A column with both sources takes the first
+ * table's value unless it is blank, as merged keys and coalesced columns do.
+ */
+export interface JoinColumnSource {
+  name: string
+  left?: string
+  right?: string
+}
+
+/** Whether key values repeat on the first (`m:`) and second (`:m`) side among the rows that match */
+export type JoinCardinality = "1:1" | "1:m" | "m:1" | "m:m"
+
+export interface JoinSideReport {
+  rows: number
+  matched: number
+  /** Rows without a partner, including those with blank keys */
+  unmatched: number
+  blankKeys: number
+}
+
+export interface JoinReport {
+  type: JoinType
+  /** Null for cross joins, which do not match keys */
+  cardinality: JoinCardinality | null
+  left: JoinSideReport
+  right: JoinSideReport
+  /** Rows the join produces */
+  outputRows: number
+  /** Key values repeated in both tables; each multiplies its rows on one side by those on the other. Semi and anti joins keep each row once, so they have none */
+  manyToManyKeys: number
+  /** Rows produced by those keys */
+  manyToManyRows: number
+}
+
+export interface JoinResult extends JoinTable {
+  sources: JoinColumnSource[]
+  report: JoinReport
+  /** Rows of each table that found no partner, with the table's own columns */
+  unmatched: { left: Record<string, any>[]; right: Record<string, any>[] }
+}
+
+interface KeyMatch {
+  leftKeys: (string | null)[]
+  rightKeys: (string | null)[]
+  /** Positions of the second table's rows by key */
+  index: Map<string, number[]>
+}
+
+/**
+ * Joins two tables on every column pair in `options.on` with a hash join: the second table is
+ * indexed by key and the first probes it, so the cost grows with the rows rather than their
+ * product. Keys follow SQL rules, where a blank in any key column never matches, not even
+ * another blank; such rows are kept unmatched by the outer join types. Keys are compared as
+ * text, so `1` from a JSON file matches `"1"` from a CSV file.
+ *
+ * Rows come out in the order of the first table, followed by the second table's unmatched
+ * rows, with columns laid out by `planJoinColumns`. An anti join keeps rows with blank keys,
+ * as SQL's `NOT EXISTS` does.
+ */
+export function joinTables(left: JoinTable, right: JoinTable, options: JoinOptions): JoinResult {
+  const { type } = options
+  const sources = planJoinColumns(left.columns, right.columns, options)
+  const columns = sources.map((source) => source.name)
+  if (type === "cross") return crossJoin(left, right, sources)
+
+  const match = matchKeys(left, right, options.on)
+  const keepLeft = type === "left" || type === "outer"
+  const keepRight = type === "right" || type === "outer"
+  const filterOnly = type === "semi" || type === "anti"
+
+  const data: Record<string, any>[] = []
+  const unmatched: JoinResult["unmatched"] = { left: [], right: [] }
+  const matchedRight = new Uint8Array(right.data.length)
+  left.data.forEach((row, position) => {
+    const key = match.leftKeys[position]
+    const partners = key === null ? undefined : match.index.get(key)
+    if (partners && filterOnly) {
+      for (const partner of partners) matchedRight[partner] = 1
+      if (type === "semi") data.push(row)
+      return
+    }
+    if (partners) {
+      for (const partner of partners) {
+        matchedRight[partner] = 1
+        data.push(combineRows(sources, row, right.data[partner]))
+      }
+      return
+    }
+    unmatched.left.push(row)
+    if (type === "anti") data.push(row)
+    else if (keepLeft) data.push(combineRows(sources, row, null))
+  })
+
+  right.data.forEach((row, position) => {
+    if (matchedRight[position]) return
+    unmatched.right.push(row)
+    if (keepRight) data.push(combineRows(sources, null, row))
+  })
+
+  return { columns, sources, data, report: summarizeMatch(match, type), unmatched }
+}
+
+/**
+ * Lays out the columns of a join's result: the first table's columns, then the second's.
+ * Key columns are kept once when `mergeKeys` is set, and other names both tables use are
+ * suffixed or coalesced. Semi and anti joins keep only the first table's columns.
+ */
+export function planJoinColumns(
+  leftColumns: string[],
+  rightColumns: string[],
+  options: JoinOptions,
+): JoinColumnSource[] {
+  if (options.type === "semi" || options.type === "anti") return leftColumns.map((name) => ({ name, left: name }))
+
+  const { collisions, suffixes, mergeKeys } = options.columnOptions ?? DEFAULT_JOIN_COLUMN_OPTIONS
+  const keyPairs = options.type === "cross" || !mergeKeys ? [] : options.on
+  const mergedKeys = new Map(keyPairs.map((pair) => [pair.file1, pair.file2]))
+  const mergedRightKeys = new Set(keyPairs.map((pair) => pair.file2))
+
+  const sources: JoinColumnSource[] = leftColumns.map((name) => ({ name, left: name, right: mergedKeys.get(name) }))
+  const byName = new Map(sources.map((source) => [source.name, source]))
+  for (const name of rightColumns) {
+    if (mergedRightKeys.has(name)) continue
+    const clash = byName.get(name)
+    if (!clash) {
+      sources.push({ name, right: name })
+    } else if (collisions === "coalesce" && clash.right === undefined) {
+      clash.right = name
+    } else {
+      // A merged key is never coalesced with an unrelated column, so the two are told apart instead
+      clash.name = `${name}${suffixes[0]}`
+      sources.push({ name: `${name}${suffixes[1]}`, right: name })
+    }
+  }
+
+  const names = makeUniqueColumnNames(sources.map((source) => source.name))
+  return sources.map((source, index) => ({ ...source, name: names[index] }))
+}
+
+/** Describes what joining two tables would produce without building the rows */
+export function analyzeJoin(left: JoinTable, right: JoinTable, options: JoinOptions): JoinReport {
+  if (options.type === "cross") return crossReport(left, right)
+  return summarizeMatch(matchKeys(left, right, options.on), options.type)
+}
+
+function crossJoin(left: JoinTable, right: JoinTable, sources: JoinColumnSource[]): JoinResult {
+  const report = crossReport(left, right)
+  if (report.outputRows > MAX_CROSS_JOIN_ROWS) {
+    throw new Error(
+      `A cross join of these files has ${report.outputRows.toLocaleString()} rows, more than the ${MAX_CROSS_JOIN_ROWS.toLocaleString()} allowed`,
+    )
+  }
+
+  const data: Record<string, any>[] = []
+  for (const leftRow of left.data) {
+    for (const rightRow of right.data) data.push(combineRows(sources, leftRow, rightRow))
+  }
+  return { columns: sources.map((source) => source.name), sources, data, report, unmatched: { left: [], right: [] } }
+}
+
+function crossReport(left: JoinTable, right: JoinTable): JoinReport {
+  const side = (table: JoinTable): JoinSideReport => ({
+    rows: table.data.length,
+    // Every row pairs with every row of the other table unless that table is empty
+    matched: left.data.length > 0 && right.data.length > 0 ? table.data.length : 0,
+    unmatched: left.data.length > 0 && right.data.length > 0 ? 0 : table.data.length,
+    blankKeys: 0,
+  })
+  return {
+    type: "cross",
+    cardinality: null,
+    left: side(left),
+    right: side(right),
+    outputRows: left.data.length * right.data.length,
+    manyToManyKeys: 0,
+    manyToManyRows: 0,
+  }
+}
+
+function matchKeys(left: JoinTable, right: JoinTable, on: JoinColumnPair[]): KeyMatch {
+  if (on.length === 0) throw new Error("Choose at least one pair of columns to join on")
+  for (const { file1, file2 } of on) {
+    if (!left.columns.includes(file1)) throw new Error(`${file1} is not a column of the first file`)
+    if (!right.columns.includes(file2)) throw new Error(`${file2} is not a column of the second file`)
+  }
+
+  const leftColumns = on.map((pair) => pair.file1)
+  const rightColumns = on.map((pair) => pair.file2)
+  const leftKeys = left.data.map((row) => joinKey(row, leftColumns))
+  const rightKeys = right.data.map((row) => joinKey(row, rightColumns))
+
+  const index = new Map<string, number[]>()
+  rightKeys.forEach((key, position) => {
+    if (key === null) return
+    const positions = index.get(key)
+    if (positions) positions.push(position)
+    else index.set(key, [position])
+  })
+  return { leftKeys, rightKeys, index }
+}
+
+function summarizeMatch({ leftKeys, rightKeys, index }: KeyMatch, type: JoinType): JoinReport {
+  const leftCounts = new Map<string, number>()
+  for (const key of leftKeys) {
+    if (key !== null) leftCounts.set(key, (leftCounts.get(key) ?? 0) + 1)
+  }
+
+  let leftRepeats = false
+  let rightRepeats = false
+  let innerRows = 0
+  let manyToManyKeys = 0
+  let manyToManyRows = 0
+  let matchedLeft = 0
+  let matchedRight = 0
+  leftCounts.forEach((leftCount, key) => {
+    const rightCount = index.get(key)?.length ?? 0
+    if (rightCount === 0) return
+    matchedLeft += leftCount
+    matchedRight += rightCount
+    innerRows += leftCount * rightCount
+    leftRepeats = leftRepeats || leftCount > 1
+    rightRepeats = rightRepeats || rightCount > 1
+    if (leftCount > 1 && rightCount > 1) {
+      manyToManyKeys++
+      manyToManyRows += leftCount * rightCount
+    }
+  })
+
+  const left = describeSide(leftKeys, matchedLeft)
+  const right = describeSide(rightKeys, matchedRight)
+  const keepLeft = type === "left" || type === "outer"
+  const keepRight = type === "right" || type === "outer"
+  const filterOnly = type === "semi" || type === "anti"
+  return {
+    type,
+    cardinality: `${leftRepeats ? "m" : "1"}:${rightRepeats ? "m" : "1"}` as JoinCardinality,
+    left,
+    right,
+    outputRows:
+      type === "semi"
+        ? left.matched
+        : type === "anti"
+          ? left.unmatched
+          : innerRows + (keepLeft ? left.unmatched : 0) + (keepRight ? right.unmatched : 0),
+    manyToManyKeys: filterOnly ? 0 : manyToManyKeys,
+    manyToManyRows: filterOnly ? 0 : manyToManyRows,
+  }
+}
+
+function describeSide(keys: (string | null)[], matched: number): JoinSideReport {
+  return {
+    rows: keys.length,
+    matched,
+    unmatched: keys.length - matched,
+    blankKeys: keys.filter((key) => key === null).length,
+  }
+}
+
+/** The text of a row's key columns, or null when any of them is blank */
+function joinKey(row: Record<string, any>, columns: string[]): string | null {
+  const parts: string[] = []
+  for (const column of columns) {
+    const value = row[column]
+    if (value === null || value === undefined || value === "") return null
+    parts.push(typeof value === "object" ? JSON.stringify(value) : String(value))
+  }
+  return JSON.stringify(parts)
+}
+
+function combineRows(
+  sources: JoinColumnSource[],
+  left: Record<string, any> | null,
+  right: Record<string, any> | null,
+): Record<string, any> {
+  const row: Record<string, any> = {}
+  for (const source of sources) {
+    let value = left && source.left !== undefined ? left[source.left] : undefined
+    if ((value === null || value === undefined || value === "") && right && source.right !== undefined) {
+      value = right[source.right]
+    }
+    row[source.name] = value === undefined ? null : value
+  }
+  return row
+}
@@ -0,0 +1,494 @@
+import { makeUniqueColumnNames } from "@/lib/parsers/columns"
+import { concatBytes } from "@/lib/parsers/binary-reader"
+import { FlatTable } from "@/lib/parsers/flatbuffers"
+import { lz4DecompressFrame } from "@/lib/parsers/lz4"
+import type { ParsedTable } from "@/lib/parsers/types"
+
+// Message header types
+const HEADER_SCHEMA = 1
+const HEADER_DICTIONARY_BATCH = 2
+const HEADER_RECORD_BATCH = 3
+const COMPRESSION_LZ4_FRAME = 0
+const MAGIC = "ARROW1"
+// Each footer block is an int64 offset, an int32 metadata length padded to 8 and an int64 body length
+const BLOCK_SIZE = 24
+
+// Type union members
+export const ArrowType = {
+  Null: 1,
+  Int: 2,
+  FloatingPoint: 3,
+  Binary: 4,
+  Utf8: 5,
+  Bool: 6,
+  Decimal: 7,
+  Date: 8,
+  Time: 9,
+  Timestamp: 10,
+  List: 12,
+  Struct: 13,
+  FixedSizeBinary: 15,
+  FixedSizeList: 16,
+  Map: 17,
+  Duration: 18,
+  LargeBinary: 19,
+  LargeUtf8: 20,
+  LargeList: 21,
+} as const
+
+const TIME_UNIT_DIVISORS = [1 / 1000, 1, 1000, 1000000]
+
+interface ArrowField {
+  name: string
+  typeId: number
+  type: FlatTable | null
+  children: ArrowField[]
+  /** Set for dictionary-encoded fields, whose values are integer indices */
+  dictionary: { id: number; indexBitWidth: number; indexSigned: boolean } | null
+}
+
+interface ArrowMessage {
+  message: FlatTable
+  body: Uint8Array
+  /** Where the next message starts */
+  end: number
+}
+
+interface BatchReader {
+  body: Uint8Array
+  view: DataView
+  nodes: { length: number; nullCount: number }[]
+  buffers: { offset: number; length: number }[]
+  nodeIndex: number
+  bufferIndex: number
+}
+
+/**
+ * Reads Arrow IPC data in either the file format (`.arrow`, Feather v2) or the streaming
+ * format. Numbers, booleans and strings keep their types, temporal values become ISO
+ * strings, and nested lists and structs are kept as JSON text. LZ4-compressed buffers
+ * (the Feather default) are decompressed.
+ */
+export class ArrowParser {
+  static parse(buffer: ArrayBuffer): ParsedTable {
+    const bytes = new Uint8Array(buffer)
+    const footer = readFooter(bytes)
+
+    // The file format's footer holds the schema and where each batch starts; writers need not
+    // repeat the schema as a message, so the blocks are read rather than the stream
+    let fields: ArrowField[] | null = footer ? footer.schema.tables(1).map(readField) : null
+    const messages = footer
+      ? footer.blocks
+          .map((offset) => readMessage(bytes, offset))
+          .filter((message): message is ArrowMessage => message !== null)
+      : readStream(bytes)
+
+    const dictionaries = new Map<number, any[]>()
+    const data: Record<string, any>[] = []
+    let columns = fields ? makeUniqueColumnNames(fields.map((field) => field.name)) : []
+
+    for (const { message, body } of messages) {
+      const header = message.table(2)
+      if (!header) continue
+
+      switch (message.uint8(1)) {
+        case HEADER_SCHEMA:
+          if (footer) break
+          fields = header.tables(1).map(readField)
+          columns = makeUniqueColumnNames(fields.map((field) => field.name))
+          break
+
+        case HEADER_DICTIONARY_BATCH: {
+          if (!fields) throw new Error("The Arrow stream has a dictionary before its schema")
+          const id = header.int64(0)
+          const valueField = findDictionaryField(fields, id)
+          if (!valueField) break
+          const batch = header.table(1)!
+          const reader = batchReader(batch, body)
+          const values = readColumn({ ...valueField, dictionary: null }, reader, dictionaries)
+          const existing = header.bool(2) ? (dictionaries.get(id) ?? []) : []
+          dictionaries.set(id, [...existing, ...values])
+          break
+        }
+
+        case HEADER_RECORD_BATCH: {
+          if (!fields) throw new Error("The Arrow stream has data before its schema")
+          const reader = batchReader(header, body)
+          const length = header.int64(0)
+          const columnValues = fields.map((field) => readColumn(field, reader, dictionaries))
+          for (let row = 0; row < length; row++) {
+            const record: Record<string, any> = {}
+            columns.forEach((column, index) => {
+              record[column] = columnValues[index][row] ?? null
+            })
+            data.push(record)
+          }
+          break
+        }
+      }
+    }
+
+    if (!fields) throw new Error("This is not an Arrow IPC file")
+    return { columns, data, errors: [] }
+  }
+}
+
+/**
+ * The footer of the file format, which ends with its length and the magic string. Dictionary
+ * blocks come before record batch blocks so every dictionary is known before it is used.
+ */
+function readFooter(bytes: Uint8Array): { schema: FlatTable; blocks: number[] } | null {
+  const decoder = new TextDecoder()
+  if (bytes.length < 18 || decoder.decode(bytes.subarray(0, 6)) !== MAGIC) return null
+  if (decoder.decode(bytes.subarray(bytes.length - 6)) !== MAGIC) return null
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const footerLength = view.getInt32(bytes.length - 10, true)
+  const footerStart = bytes.length - 10 - footerLength
+  if (footerLength <= 0 || footerStart < 8) throw new Error("The Arrow file's footer is damaged")
+
+  const footer = FlatTable.root(bytes.subarray(footerStart, bytes.length - 10))
+  const schema = footer.table(1)
+  if (!schema) throw new Error("The Arrow file's footer has no schema")
+  const blockOffsets = (id: number) =>
+    footer.structs(id, BLOCK_SIZE).map((position) => Number(footer.view.getBigInt64(position, true)))
+  return { schema, blocks: [...blockOffsets(2), ...blockOffsets(3)] }
+}
+
+function readStream(bytes: Uint8Array): ArrowMessage[] {
+  // A file without a readable footer is still read front to back past its magic header
+  let position = new TextDecoder().decode(bytes.subarray(0, 6)) === MAGIC ? 8 : 0
+  const messages: ArrowMessage[] = []
+  for (let message = readMessage(bytes, position); message; message = readMessage(bytes, position)) {
+    messages.push(message)
+    position = message.end
+  }
+  return messages
+}
+
+/** Reads the message at `position`, or returns null at the end-of-stream marker or the data's end */
+function readMessage(bytes: Uint8Array, start: number): ArrowMessage | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let position = start
+  if (position + 4 > bytes.length) return null
+  let metadataLength = view.getInt32(position, true)
+  position += 4
+  // Streams written before Arrow 0.15 have no continuation marker
+  if (metadataLength === -1) {
+    if (position + 4 > bytes.length) return null
+    metadataLength = view.getInt32(position, true)
+    position += 4
+  }
+  if (metadataLength <= 0) return null
+
+  const message = FlatTable.root(bytes.subarray(position, position + metadataLength))
+  position += metadataLength
+  const bodyLength = message.int64(3)
+  const body = bytes.subarray(position, position + bodyLength)
+  return { message, body, end: position + bodyLength }
+}
+
+function readField(table: FlatTable): ArrowField {
+  const encoding = table.table(4)
+  const indexType = encoding?.table(1)
+  return {
+    name: table.string(0) ?? "",
+    typeId: table.uint8(2),
+    type: table.table(3),
+    children: table.tables(5).map(readField),
+    dictionary: encoding
+      ? {
+          id: encoding.int64(0),
+          indexBitWidth: indexType?.int32(0) ?? 32,
+          indexSigned: indexType?.bool(1) ?? true,
+        }
+      : null,
+  }
+}
+
+function findDictionaryField(fields: ArrowField[], id: number): ArrowField | null {
+  for (const field of fields) {
+    if (field.dictionary?.id === id) return field
+    const nested = findDictionaryField(field.children, id)
+    if (nested) return nested
+  }
+  return null
+}
+
+function batchReader(batch: FlatTable, rawBody: Uint8Array): BatchReader {
+  let body = rawBody
+  let buffers = batch.structs(2, 16).map((position) => ({
+    offset: Number(batch.view.getBigInt64(position, true)),
+    length: Number(batch.view.getBigInt64(position + 8, true)),
+  }))
+
+  const compression = batch.table(3)
+  if (compression) {
+    if (compression.uint8(0) !== COMPRESSION_LZ4_FRAME) {
+      throw new Error("Arrow files compressed with Zstandard are not supported. Save the file with LZ4 instead.")
+    }
+    // Each compressed buffer starts with its decompressed length; -1 marks a buffer stored as is
+    const parts = buffers.map(({ offset, length }) => {
+      if (length === 0) return new Uint8Array(0)
+      const uncompressedLength = Number(
+        new DataView(rawBody.buffer, rawBody.byteOffset + offset, 8).getBigInt64(0, true),
+      )
+      const content = rawBody.subarray(offset + 8, offset + length)
+      return uncompressedLength === -1 ? content : lz4DecompressFrame(content, uncompressedLength)
+    })
+    body = concatBytes(parts)
+    let offset = 0
+    buffers = parts.map((part) => {
+      const buffer = { offset, length: part.length }
+      offset += part.length
+      return buffer
+    })
+  }
+
+  return {
+    body,
+    view: new DataView(body.buffer, body.byteOffset, body.byteLength),
+    nodes: batch.structs(1, 16).map((position) => ({
+      length: Number(batch.view.getBigInt64(position, true)),
+      nullCount: Number(batch.view.getBigInt64(position + 8, true)),
+    })),
+    buffers,
+    nodeIndex: 0,
+    bufferIndex: 0,
+  }
+}
+
+/** Reads one field (and its children) of a record batch into plain values. */
+function readColumn(field: ArrowField, reader: BatchReader, dictionaries: Map<number, any[]>): any[] {
+  const node = reader.nodes[reader.nodeIndex++]
+  const length = node.length
+  const nextBuffer = () => {
+    const buffer = reader.buffers[reader.bufferIndex++]
+    return { offset: buffer.offset, length: buffer.length }
+  }
+  const { view, body } = reader
+
+  if (field.typeId === ArrowType.Null) return new Array(length).fill(null)
+
+  const validity = nextBuffer()
+  const isValid = (index: number) =>
+    validity.length === 0 || node.nullCount === 0 || ((body[validity.offset + (index >> 3)] >> (index & 7)) & 1) === 1
+  const values: any[] = new Array(length)
+
+  if (field.dictionary) {
+    const indices = nextBuffer()
+    const dictionary = dictionaries.get(field.dictionary.id) ?? []
+    for (let i = 0; i < length; i++) {
+      const index = readInteger(view, indices.offset, i, field.dictionary.indexBitWidth, field.dictionary.indexSigned)
+      values[i] = isValid(i) ? (dictionary[index] ?? null) : null
+    }
+    return values
+  }
+
+  const type = field.type
+  switch (field.typeId) {
+    case ArrowType.Int: {
+      const data = nextBuffer()
+      const bitWidth = type?.int32(0) ?? 32
+      const signed = type?.bool(1) ?? false
+      for (let i = 0; i < length; i++)
+        values[i] = isValid(i) ? readInteger(view, data.offset, i, bitWidth, signed) : null
+      return values
+    }
+
+    case ArrowType.FloatingPoint: {
+      const data = nextBuffer()
+      const precision = type?.int16(0) ?? 0
+      for (let i = 0; i < length; i++) {
+        if (!isValid(i)) values[i] = null
+        else if (precision === 2) values[i] = view.getFloat64(data.offset + i * 8, true)
+        else if (precision === 1) values[i] = view.getFloat32(data.offset + i * 4, true)
+        else values[i] = halfToNumber(view.getUint16(data.offset + i * 2, true))
+      }
+      return values
+    }
+
+    case ArrowType.Bool: {
+      const data = nextBuffer()
+      for (let i = 0; i < length; i++) {
+        values[i] = isValid(i) ? ((body[data.offset + (i >> 3)] >> (i & 7)) & 1) === 1 : null
+      }
+      return values
+    }
+
+    case ArrowType.Utf8:
+    case ArrowType.LargeUtf8:
+    case ArrowType.Binary:
+    case ArrowType.LargeBinary: {
+      const large = field.typeId === ArrowType.LargeUtf8 || field.typeId === ArrowType.LargeBinary
+      const text = field.typeId === ArrowType.Utf8 || field.typeId === ArrowType.LargeUtf8
+      const offsets = nextBuffer()
+      const data = nextBuffer()
+      const decoder = new TextDecoder()
+      const offsetAt = (index: number) =>
+        large
+          ? Number(view.getBigInt64(offsets.offset + index * 8, true))
+          : view.getInt32(offsets.offset + index * 4, true)
+      for (let i = 0; i < length; i++) {
+        if (!isValid(i)) {
+          values[i] = null
+          continue
+        }
+        const slice = body.subarray(data.offset + offsetAt(i), data.offset + offsetAt(i + 1))
+        values[i] = text ? decoder.decode(slice) : toHex(slice)
+      }
+      return values
+    }
+
+    case ArrowType.FixedSizeBinary: {
+      const data = nextBuffer()
+      const width = type?.int32(0) ?? 0
+      for (let i = 0; i < length; i++) {
+        values[i] = isValid(i) ? toHex(body.subarray(data.offset + i * width, data.offset + (i + 1) * width)) : null
+      }
+      return values
+    }
+
+    case ArrowType.Date: {
+      const data = nextBuffer()
+      const days = type?.int16(0, 1) === 0
+      for (let i = 0; i < length; i++) {
+        if (!isValid(i)) values[i] = null
+        else if (days) values[i] = isoFromMillis(view.getInt32(data.offset + i * 4, true) * 86400000).slice(0, 10)
+        else values[i] = isoFromMillis(Number(view.getBigInt64(data.offset + i * 8, true))).slice(0, 10)
+      }
+      return values
+    }
+
+    case ArrowType.Timestamp:
+    case ArrowType.Time: {
+      const data = nextBuffer()
+      // Schema defaults: Timestamp has no default unit (seconds), Time defaults to 32-bit milliseconds
+      const unit = type?.int16(0, field.typeId === ArrowType.Time ? 1 : 0) ?? 0
+      const bitWidth = field.typeId === ArrowType.Time ? (type?.int32(1, 32) ?? 32) : 64
+      for (let i = 0; i < length; i++) {
+        if (!isValid(i)) {
+          values[i] = null
+          continue
+        }
+        const raw = readInteger(view, data.offset, i, bitWidth, true)
+        const iso = isoFromMillis(raw / TIME_UNIT_DIVISORS[unit])
+        values[i] = field.typeId === ArrowType.Time ? iso.slice(11, 19) : iso
+      }
+      return values
+    }
+
+    case ArrowType.Duration: {
+      const data = nextBuffer()
+      for (let i = 0; i < length; i++) values[i] = isValid(i) ? readInteger(view, data.offset, i, 64, true) : null
+      return values
+    }
+
+    case ArrowType.Decimal: {
+      const data = nextBuffer()
+      const scale = type?.int32(1) ?? 0
+      const bitWidth = type?.int32(2, 128) ?? 128
+      const width = bitWidth / 8
+      for (let i = 0; i < length; i++) {
+        values[i] = isValid(i)
+          ? Number(littleEndianSigned(body.subarray(data.offset + i * width, data.offset + (i + 1) * width))) /
+            10 ** scale
+          : null
+      }
+      return values
+    }
+
+    case ArrowType.List:
+    case ArrowType.LargeList:
+    case ArrowType.Map: {
+      const offsets = nextBuffer()
+      const large = field.typeId === ArrowType.LargeList
+      const items = readColumn(field.children[0], reader, dictionaries)
+      const offsetAt = (index: number) =>
+        large
+          ? Number(view.getBigInt64(offsets.offset + index * 8, true))
+          : view.getInt32(offsets.offset + index * 4, true)
+      for (let i = 0; i < length; i++) {
+        values[i] = isValid(i) ? JSON.stringify(items.slice(offsetAt(i), offsetAt(i + 1)).map(parseNested)) : null
+      }
+      return values
+    }
+
+    case ArrowType.FixedSizeList: {
+      const size = type?.int32(0, 1) ?? 1
+      const items = readColumn(field.children[0], reader, dictionaries)
+      for (let i = 0; i < length; i++) {
+        values[i] = isValid(i) ? JSON.stringify(items.slice(i * size, (i + 1) * size).map(parseNested)) : null
+      }
+      return values
+    }
+
+    case ArrowType.Struct: {
+      const children = field.children.map((child) => readColumn(child, reader, dictionaries))
+      for (let i = 0; i < length; i++) {
+        if (!isValid(i)) {
+          values[i] = null
+          continue
+        }
+        const record: Record<string, any> = {}
+        field.children.forEach((child, index) => {
+          record[child.name] = parseNested(children[index][i])
+        })
+        values[i] = JSON.stringify(record)
+      }
+      return values
+    }
+
+    default:
+      throw new Error(`Column "${field.name}" uses an Arrow type (${field.typeId}) that is not supported`)
+  }
+}
+
+// Nested values are built as JSON text, so inner lists and structs are parsed back before nesting
+function parseNested(value: any): any {
+  if (typeof value !== "string" || !/^[[{]/.test(value)) return value
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
+
+function readInteger(view: DataView, offset: number, index: number, bitWidth: number, signed: boolean): number {
+  switch (bitWidth) {
+    case 8:
+      return signed ? view.getInt8(offset + index) : view.getUint8(offset + index)
+    case 16:
+      return signed ? view.getInt16(offset + index * 2, true) : view.getUint16(offset + index * 2, true)
+    case 64:
+      return Number(signed ? view.getBigInt64(offset + index * 8, true) : view.getBigUint64(offset + index * 8, true))
+    default:
+      return signed ? view.getInt32(offset + index * 4, true) : view.getUint32(offset + index * 4, true)
+  }
+}
+
+function halfToNumber(bits: number): number {
+  const sign = bits & 0x8000 ? -1 : 1
+  const exponent = (bits >> 10) & 0x1f
+  const fraction = bits & 0x03ff
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024)
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024)
+}
+
+function littleEndianSigned(bytes: Uint8Array): bigint {
+  let value = BigInt(0)
+  for (let i = bytes.length - 1; i >= 0; i--) value = (value << BigInt(8)) | BigInt(bytes[i])
+  return bytes.length > 0 && bytes[bytes.length - 1] & 0x80 ? value - (BigInt(1) << BigInt(bytes.length * 8)) : value
+}
+
+function isoFromMillis(milliseconds: number): string {
+  const date = new Date(Math.floor(milliseconds))
+  if (Number.isNaN(date.getTime())) return String(milliseconds)
+  const iso = date.toISOString()
+  return date.getUTCMilliseconds() === 0 ? iso.slice(0, 19) : iso.slice(0, 23)
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
@@ -0,0 +1,212 @@
+import { ArrowType } from "@/lib/parsers/arrow-parser"
+import { concatBytes } from "@/lib/parsers/binary-reader"
+import { inferStorageType, toStorageValue, type StorageType } from "@/lib/parsers/columns"
+import { encodeFlatBuffer, type FlatFields } from "@/lib/parsers/flatbuffers"
+
+const METADATA_VERSION_V5 = 4
+const HEADER_SCHEMA = 1
+const HEADER_RECORD_BATCH = 3
+const CONTINUATION = 0xffffffff
+
+interface EncodedColumn {
+  nullCount: number
+  buffers: Uint8Array[]
+}
+
+/**
+ * Writes a table as an Arrow IPC file (readable as Feather v2) with a single record batch.
+ * Column types are inferred from the values unless given, and every field is nullable.
+ */
+export class ArrowWriter {
+  static write(
+    columns: string[],
+    data: Record<string, any>[],
+    types: StorageType[] = columns.map((column) => inferStorageType(data.map((row) => row[column]))),
+  ): Uint8Array {
+    const schema: FlatFields = [
+      { type: "int16", value: 0 },
+      { type: "tables", value: columns.map((column, index) => fieldTable(column, types[index])) },
+    ]
+
+    const encoded = columns.map((column, index) =>
+      encodeColumn(
+        data.map((row) => toStorageValue(row[column], types[index])),
+        types[index],
+      ),
+    )
+
+    // Body buffers are laid out back to back, each padded to 8 bytes
+    const bodyParts: Uint8Array[] = []
+    const bufferStructs: { offset: number; length: number }[] = []
+    let bodyLength = 0
+    for (const column of encoded) {
+      for (const buffer of column.buffers) {
+        bufferStructs.push({ offset: bodyLength, length: buffer.length })
+        const padded = pad8(buffer)
+        bodyParts.push(padded)
+        bodyLength += padded.length
+      }
+    }
+
+    const recordBatch: FlatFields = [
+      { type: "int64", value: data.length },
+      {
+        type: "structs",
+        size: 16,
+        value: encoded.map((column) => (view: DataView, position: number) => {
+          view.setBigInt64(position, BigInt(data.length), true)
+          view.setBigInt64(position + 8, BigInt(column.nullCount), true)
+        }),
+      },
+      {
+        type: "structs",
+        size: 16,
+        value: bufferStructs.map((buffer) => (view: DataView, position: number) => {
+          view.setBigInt64(position, BigInt(buffer.offset), true)
+          view.setBigInt64(position + 8, BigInt(buffer.length), true)
+        }),
+      },
+    ]
+
+    const magic = new Uint8Array(8)
+    magic.set(new TextEncoder().encode("ARROW1"))
+    const schemaMessage = encodeMessage(HEADER_SCHEMA, schema, 0)
+    const batchMessage = encodeMessage(HEADER_RECORD_BATCH, recordBatch, bodyLength)
+    const batchOffset = magic.length + schemaMessage.length
+    const endOfStream = new Uint8Array([0xff, 0xff, 0xff, 0xff, 0, 0, 0, 0])
+
+    const footer = encodeFlatBuffer([
+      { type: "int16", value: METADATA_VERSION_V5 },
+      { type: "table", value: schema },
+      { type: "structs", size: 24, value: [] },
+      {
+        type: "structs",
+        size: 24,
+        value: [
+          (view: DataView, position: number) => {
+            view.setBigInt64(position, BigInt(batchOffset), true)
+            view.setInt32(position + 8, batchMessage.length, true)
+            view.setBigInt64(position + 16, BigInt(bodyLength), true)
+          },
+        ],
+      },
+    ])
+    const footerLength = new Uint8Array(4)
+    new DataView(footerLength.buffer).setInt32(0, footer.length, true)
+
+    return concatBytes([
+      magic,
+      schemaMessage,
+      batchMessage,
+      ...bodyParts,
+      endOfStream,
+      footer,
+      footerLength,
+      new TextEncoder().encode("ARROW1"),
+    ])
+  }
+}
+
+function fieldTable(name: string, type: StorageType): FlatFields {
+  const [typeId, typeFields] = arrowType(type)
+  return [
+    { type: "string", value: name },
+    { type: "bool", value: true },
+    { type: "uint8", value: typeId },
+    { type: "table", value: typeFields },
+    undefined,
+    { type: "tables", value: [] },
+  ]
+}
+
+function arrowType(type: StorageType): [number, FlatFields] {
+  switch (type) {
+    case "boolean":
+      return [ArrowType.Bool, []]
+    case "integer":
+      return [
+        ArrowType.Int,
+        [
+          { type: "int32", value: 64 },
+          { type: "bool", value: true },
+        ],
+      ]
+    case "double":
+      return [ArrowType.FloatingPoint, [{ type: "int16", value: 2 }]]
+    case "date":
+      return [ArrowType.Date, [{ type: "int16", value: 0 }]]
+    case "timestamp":
+      return [ArrowType.Timestamp, [{ type: "int16", value: 1 }]]
+    case "string":
+      return [ArrowType.Utf8, []]
+  }
+}
+
+/** The metadata of a message is padded so that its body starts 8-byte aligned. */
+function encodeMessage(headerType: number, header: FlatFields, bodyLength: number): Uint8Array {
+  const metadata = encodeFlatBuffer([
+    { type: "int16", value: METADATA_VERSION_V5 },
+    { type: "uint8", value: headerType },
+    { type: "table", value: header },
+    { type: "int64", value: bodyLength },
+  ])
+  const paddedLength = Math.ceil((metadata.length + 8) / 8) * 8 - 8
+  const message = new Uint8Array(8 + paddedLength)
+  const view = new DataView(message.buffer)
+  view.setUint32(0, CONTINUATION, true)
+  view.setInt32(4, paddedLength, true)
+  message.set(metadata, 8)
+  return message
+}
+
+function encodeColumn(values: (number | boolean | string | null)[], type: StorageType): EncodedColumn {
+  const validity = new Uint8Array(Math.ceil(values.length / 8))
+  let nullCount = 0
+  values.forEach((value, index) => {
+    if (value === null) nullCount++
+    else validity[index >> 3] |= 1 << (index & 7)
+  })
+
+  switch (type) {
+    case "boolean": {
+      const bits = new Uint8Array(Math.ceil(values.length / 8))
+      values.forEach((value, index) => {
+        if (value) bits[index >> 3] |= 1 << (index & 7)
+      })
+      return { nullCount, buffers: [validity, bits] }
+    }
+    case "date": {
+      const days = new Int32Array(values.map((value) => (value as number | null) ?? 0))
+      return { nullCount, buffers: [validity, new Uint8Array(days.buffer)] }
+    }
+    case "integer":
+    case "timestamp": {
+      const numbers = new BigInt64Array(values.length)
+      values.forEach((value, index) => {
+        numbers[index] = BigInt((value as number | null) ?? 0)
+      })
+      return { nullCount, buffers: [validity, new Uint8Array(numbers.buffer)] }
+    }
+    case "double": {
+      const numbers = new Float64Array(values.map((value) => (value as number | null) ?? 0))
+      return { nullCount, buffers: [validity, new Uint8Array(numbers.buffer)] }
+    }
+    case "string": {
+      const encoder = new TextEncoder()
+      const encoded = values.map((value) => (value === null ? new Uint8Array(0) : encoder.encode(value as string)))
+      const offsets = new Int32Array(values.length + 1)
+      encoded.forEach((item, index) => {
+        offsets[index + 1] = offsets[index] + item.length
+      })
+      return { nullCount, buffers: [validity, new Uint8Array(offsets.buffer), concatBytes(encoded)] }
+    }
+  }
+}
+
+function pad8(buffer: Uint8Array): Uint8Array {
+  const length = Math.ceil(buffer.length / 8) * 8
+  if (length === buffer.length) return buffer
+  const padded = new Uint8Array(length)
+  padded.set(buffer)
+  return padded
+}
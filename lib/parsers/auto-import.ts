@@ -0,0 +1,44 @@
+import { DEFAULT_JSON_OPTIONS } from "@/lib/parsers/json-parser"
+import type { ParseRequest } from "@/lib/parsers/parse-runner"
+import { SNIFF_SAMPLE_BYTES, sniffTextFile } from "@/lib/parsers/sniffer"
+import { detectTableLayout } from "@/lib/parsers/table-layout"
+import { XlsxWorkbook } from "@/lib/parsers/xlsx-parser"
+
+/** Files that can be parsed without asking the user for options */
+export const AUTO_IMPORT_FILE =
+  /\.(csv|tsv|txt|dat|xlsx|json|ndjson|jsonl|xml|html|htm|sav|zsav|dta|xpt|parquet|arrow|arrows|feather|ipc)$/i
+
+const LAYOUT_SAMPLE_ROWS = 30
+
+/**
+ * Builds a parse request with the options the import dialogs would suggest: the sniffed
+ * delimiter and layout of a text file, the first visible sheet of a workbook, the
+ * largest array of a JSON document and the first repeating element or table of markup.
+ */
+export async function buildAutoParseRequest(file: File): Promise<ParseRequest> {
+  const name = file.name.toLowerCase()
+
+  if (/\.(csv|tsv|txt|dat)$/.test(name)) {
+    const sample = new Uint8Array(await file.slice(0, SNIFF_SAMPLE_BYTES).arrayBuffer())
+    return { format: "delimited", file, options: sniffTextFile(sample, file.size) }
+  }
+  if (name.endsWith(".xlsx")) {
+    const workbook = await XlsxWorkbook.open(file)
+    const sheet = workbook.sheets.find((candidate) => !candidate.hidden) ?? workbook.sheets[0]
+    if (!sheet) throw new Error(`${file.name} does not contain any sheets`)
+    const rows = await workbook.readSheet(sheet.name, LAYOUT_SAMPLE_ROWS)
+    const layout = detectTableLayout(rows, rows.length < LAYOUT_SAMPLE_ROWS)
+    return { format: "xlsx", file, sheets: [{ sheetName: sheet.name, ...layout }] }
+  }
+  if (/\.(ndjson|jsonl)$/.test(name)) return { format: "ndjson", file, options: DEFAULT_JSON_OPTIONS }
+  if (name.endsWith(".json")) return { format: "json", file }
+  if (name.endsWith(".xml")) return { format: "xml", file }
+  if (/\.(html|htm)$/.test(name)) return { format: "html", file }
+  if (name.endsWith(".sav") || name.endsWith(".zsav")) return { format: "spss", file }
+  if (name.endsWith(".dta")) return { format: "stata", file }
+  if (name.endsWith(".xpt")) return { format: "xport", file }
+  if (name.endsWith(".parquet")) return { format: "parquet", file }
+  if (/\.(arrow|arrows|feather|ipc)$/.test(name)) return { format: "arrow", file }
+
+  throw new Error(`${file.name} is not a supported file type`)
+}
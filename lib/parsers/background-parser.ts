@@ -0,0 +1,67 @@
+import type { ColumnSchema } from "@/lib/column-schema"
+import {
+  runParseRequest,
+  type ParseProgressHandler,
+  type ParseRequest,
+  type ParsedSource,
+} from "@/lib/parsers/parse-runner"
+
+export interface ParseJob {
+  request: ParseRequest
+  previous?: ColumnSchema[]
+}
+
+export type ParseWorkerMessage =
+  | { type: "progress"; loaded: number; total: number }
+  | { type: "result"; sources: ParsedSource[] }
+  | { type: "error"; message: string }
+
+export interface ParseTask {
+  /** Resolves to `null` when the task is cancelled */
+  result: Promise<ParsedSource[] | null>
+  cancel: () => void
+}
+
+/**
+ * Runs parse requests in a dedicated Web Worker so large files don't block the UI.
+ * Each task gets its own worker, which is terminated when the task is cancelled.
+ * `previous` is the schema of the dataset a reload replaces, see `runParseRequest`.
+ */
+export class BackgroundParser {
+  static start(request: ParseRequest, onProgress: ParseProgressHandler, previous?: ColumnSchema[]): ParseTask {
+    if (typeof Worker === "undefined") {
+      return { result: runParseRequest(request, onProgress, previous), cancel: () => {} }
+    }
+
+    const worker = new Worker(new URL("./parse.worker.ts", import.meta.url))
+    let settle: (sources: ParsedSource[] | null) => void = () => {}
+
+    const result = new Promise<ParsedSource[] | null>((resolve, reject) => {
+      settle = (sources) => {
+        worker.terminate()
+        resolve(sources)
+      }
+
+      worker.onmessage = (event: MessageEvent<ParseWorkerMessage>) => {
+        const message = event.data
+        if (message.type === "progress") {
+          onProgress(message.loaded, message.total)
+        } else if (message.type === "result") {
+          settle(message.sources)
+        } else {
+          worker.terminate()
+          reject(new Error(message.message))
+        }
+      }
+
+      worker.onerror = (event) => {
+        worker.terminate()
+        reject(new Error(event.message || "The file could not be parsed"))
+      }
+
+      worker.postMessage({ request, previous } satisfies ParseJob)
+    })
+
+    return { result, cancel: () => settle(null) }
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Sequential reader over an ArrayBuffer used by the binary statistical-file parsers.
+ */
+export class BinaryReader {
+  offset = 0
+  littleEndian = true
+  private readonly view: DataView
+  private readonly bytes: Uint8Array
+
+  constructor(readonly buffer: ArrayBuffer) {
+    this.view = new DataView(buffer)
+    this.bytes = new Uint8Array(buffer)
+  }
+
+  get length(): number {
+    return this.buffer.byteLength
+  }
+
+  get remaining(): number {
+    return this.buffer.byteLength - this.offset
+  }
+
+  seek(offset: number) {
+    this.offset = offset
+  }
+
+  skip(count: number) {
+    this.ensure(count)
+    this.offset += count
+  }
+
+  uint8(): number {
+    this.ensure(1)
+    return this.view.getUint8(this.offset++)
+  }
+
+  int8(): number {
+    this.ensure(1)
+    return this.view.getInt8(this.offset++)
+  }
+
+  uint16(): number {
+    this.ensure(2)
+    const value = this.view.getUint16(this.offset, this.littleEndian)
+    this.offset += 2
+    return value
+  }
+
+  int16(): number {
+    this.ensure(2)
+    const value = this.view.getInt16(this.offset, this.littleEndian)
+    this.offset += 2
+    return value
+  }
+
+  uint32(): number {
+    this.ensure(4)
+    const value = this.view.getUint32(this.offset, this.littleEndian)
+    this.offset += 4
+    return value
+  }
+
+  int32(): number {
+    this.ensure(4)
+    const value = this.view.getInt32(this.offset, this.littleEndian)
+    this.offset += 4
+    return value
+  }
+
+  uint64(): number {
+    this.ensure(8)
+    const value = Number(this.view.getBigUint64(this.offset, this.littleEndian))
+    this.offset += 8
+    return value
+  }
+
+  float32(): number {
+    this.ensure(4)
+    const value = this.view.getFloat32(this.offset, this.littleEndian)
+    this.offset += 4
+    return value
+  }
+
+  float64(): number {
+    this.ensure(8)
+    const value = this.view.getFloat64(this.offset, this.littleEndian)
+    this.offset += 8
+    return value
+  }
+
+  peekInt32(offset = this.offset): number {
+    return this.view.getInt32(offset, this.littleEndian)
+  }
+
+  read(count: number): Uint8Array {
+    this.ensure(count)
+    const slice = this.bytes.subarray(this.offset, this.offset + count)
+    this.offset += count
+    return slice
+  }
+
+  text(count: number, decoder: TextDecoder, trim = true): string {
+    const raw = this.read(count)
+    const end = trim ? trimmedLength(raw) : raw.length
+    return decoder.decode(raw.subarray(0, end))
+  }
+
+  private ensure(count: number) {
+    if (this.offset + count > this.buffer.byteLength) {
+      throw new Error("Unexpected end of file")
+    }
+  }
+}
+
+// Fixed-width text fields are padded with spaces or NUL bytes.
+export function trimmedLength(bytes: Uint8Array): number {
+  let end = bytes.length
+  const nul = bytes.indexOf(0)
+  if (nul !== -1) end = nul
+  while (end > 0 && bytes[end - 1] === 0x20) end--
+  return end
+}
+
+export function createTextDecoder(encoding: string | undefined, fallback = "windows-1252"): TextDecoder {
+  try {
+    return new TextDecoder(encoding || fallback)
+  } catch {
+    return new TextDecoder(fallback)
+  }
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const combined = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    combined.set(part, offset)
+    offset += part.length
+  }
+  return combined
+}
@@ -0,0 +1,50 @@
+import { gridToTable } from "@/lib/parsers/columns"
+import { CsvParser } from "@/lib/parsers/csv-parser"
+import { readHtmlTables, type HtmlTable } from "@/lib/parsers/html-table"
+import { sniffTextFile } from "@/lib/parsers/sniffer"
+import { detectTableLayout } from "@/lib/parsers/table-layout"
+import type { ParsedTable } from "@/lib/parsers/types"
+
+/** The `text/html` and `text/plain` representations of a clipboard item */
+export interface ClipboardContents {
+  html: string
+  text: string
+}
+
+export interface PastedTable {
+  /** Which representation the table was read from */
+  source: "html" | "text"
+  table: ParsedTable
+}
+
+/**
+ * Turns pasted spreadsheet ranges and report tables into a table. Spreadsheets and browsers
+ * put an HTML table on the clipboard next to tab-separated text; the HTML is preferred
+ * because it keeps merged cells, and the text goes through the same sniffing and CSV
+ * parsing as an uploaded file.
+ */
+export class ClipboardParser {
+  static parse({ html, text }: ClipboardContents): PastedTable | null {
+    const tables = html ? readHtmlTables(html) : []
+    if (tables.length > 0) {
+      // A copied page region can include layout tables around the data, which is the largest
+      const table = tables.reduce((largest, candidate) =>
+        cellCount(candidate) > cellCount(largest) ? candidate : largest,
+      )
+      const { columns, data } = gridToTable(table.rows, detectTableLayout(table.rows, true))
+      return columns.length > 0 ? { source: "html", table: { columns, data, errors: [] } } : null
+    }
+
+    if (!text.trim()) return null
+    const options = sniffTextFile(new TextEncoder().encode(text))
+    // A single copied column has no delimiter to sniff, so commas inside its values must not split it
+    const headerLine = text.trimStart().split("\n", 1)[0]
+    const delimiter = text.includes("\t") || !headerLine.includes(options.delimiter) ? "\t" : options.delimiter
+    const table = CsvParser.parse(text, { ...options, delimiter })
+    return table.columns.length > 0 ? { source: "text", table } : null
+  }
+}
+
+function cellCount(table: HtmlTable): number {
+  return table.rows.reduce((count, row) => count + row.length, 0)
+}
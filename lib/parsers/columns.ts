@@ -0,0 +1,117 @@
+import { DEFAULT_TABLE_LAYOUT, combineHeaderRows, type TableLayout } from "@/lib/parsers/table-layout"
+
+export function makeUniqueColumnNames(names: string[]): string[] {
+  const seen = new Map<string, number>()
+
+  return names.map((raw, index) => {
+    const base = raw.trim() || `Column ${index + 1}`
+    let name = base
+    let count = seen.get(base) || 0
+
+    while (seen.has(name)) {
+      count++
+      name = `${base}_${count + 1}`
+    }
+
+    seen.set(base, count)
+    seen.set(name, 0)
+    return name
+  })
+}
+
+/**
+ * Turns a grid of cells into a table. Rows before the header are skipped, stacked header
+ * rows are combined into one name per column, and footer rows are dropped.
+ */
+export function gridToTable(
+  grid: any[][],
+  layout: TableLayout = DEFAULT_TABLE_LAYOUT,
+): { columns: string[]; data: Record<string, any>[] } {
+  const headerEnd = layout.skipRows + layout.headerRows
+  const headerRows = grid.slice(layout.skipRows, headerEnd)
+  const body = grid.slice(headerEnd, Math.max(headerEnd, grid.length - layout.skipFooterRows))
+  const width = [...headerRows, ...body].reduce((max, row) => Math.max(max, row.length), 0)
+
+  const columns = makeUniqueColumnNames(combineHeaderRows(headerRows, width))
+
+  const data = body
+    .filter((row) => row.some((value) => value !== null && value !== undefined && value !== ""))
+    .map((row) => {
+      const record: Record<string, any> = {}
+      columns.forEach((column, index) => {
+        record[column] = row[index] ?? null
+      })
+      return record
+    })
+
+  return { columns, data }
+}
+
+/** Typed representation of a column in binary export formats such as Parquet and Arrow */
+export type StorageType = "boolean" | "integer" | "double" | "date" | "timestamp" | "string"
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,3})?$/
+const NUMERIC_TEXT = /^[+-]?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/
+
+/**
+ * Picks the narrowest type that holds every value of a column. Blank cells are ignored,
+ * and numeric text counts as a number unless it has leading zeros, which usually mark
+ * codes rather than quantities.
+ */
+export function inferStorageType(values: unknown[]): StorageType {
+  let type: StorageType | null = null
+  for (const value of values) {
+    if (value === null || value === undefined || value === "") continue
+    const valueType = storageTypeOf(value)
+    type = type === null || type === valueType ? valueType : widenStorageType(type, valueType)
+    if (type === "string") return type
+  }
+  return type ?? "string"
+}
+
+function storageTypeOf(value: unknown): StorageType {
+  if (typeof value === "boolean") return "boolean"
+  if (typeof value === "number") return Number.isSafeInteger(value) ? "integer" : "double"
+  if (typeof value === "string") {
+    const text = value.trim()
+    if (NUMERIC_TEXT.test(text)) return /[.eE]/.test(text) || !Number.isSafeInteger(Number(text)) ? "double" : "integer"
+    if (ISO_DATE.test(text)) return "date"
+    if (ISO_TIMESTAMP.test(text)) return "timestamp"
+  }
+  return "string"
+}
+
+function widenStorageType(a: StorageType, b: StorageType): StorageType {
+  const pair = new Set([a, b])
+  if (pair.has("integer") && pair.has("double")) return "double"
+  if (pair.has("date") && pair.has("timestamp")) return "timestamp"
+  return "string"
+}
+
+/**
+ * Converts a cell to its stored form: numbers for numeric types, days since 1970 for
+ * dates, milliseconds since 1970 for timestamps, and text otherwise. Blanks become null.
+ */
+export function toStorageValue(value: unknown, type: StorageType): number | boolean | string | null {
+  if (value === null || value === undefined) return null
+  if (type === "string") return typeof value === "object" ? JSON.stringify(value) : String(value)
+  if (value === "") return null
+
+  switch (type) {
+    case "boolean":
+      return value === true || value === "true"
+    case "integer":
+    case "double":
+      return Number(value)
+    case "date": {
+      const time = Date.parse(`${String(value).trim()}T00:00:00Z`)
+      return Number.isNaN(time) ? null : Math.round(time / 86400000)
+    }
+    case "timestamp": {
+      const text = String(value).trim()
+      const time = Date.parse(ISO_DATE.test(text) ? `${text}T00:00:00Z` : `${text}Z`)
+      return Number.isNaN(time) ? null : time
+    }
+  }
+}
@@ -0,0 +1,13 @@
+export type CompressionFormatName = "gzip" | "deflate" | "deflate-raw"
+
+// Looked up at runtime because the bundled DOM typings predate CompressionStream support.
+type DecompressionStreamConstructor = new (format: CompressionFormatName) => TransformStream<Uint8Array, Uint8Array>
+
+export async function decompress(input: Blob | Uint8Array, format: CompressionFormatName): Promise<Uint8Array> {
+  const DecompressionStream = (globalThis as any).DecompressionStream as DecompressionStreamConstructor | undefined
+  if (!DecompressionStream) throw new Error("This browser does not support decompressing files")
+
+  const blob = input instanceof Blob ? input : new Blob([input])
+  const stream = blob.stream().pipeThrough(new DecompressionStream(format))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
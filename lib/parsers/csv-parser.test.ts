@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest"
+import { CsvParser, CsvTokenizer } from "@/lib/parsers/csv-parser"
+
+// Tokenizes text delivered in the given chunks
+const tokenize = (...chunks: string[]) => {
+  const tokenizer = new CsvTokenizer()
+  const records = [...chunks.flatMap((chunk) => tokenizer.push(chunk)), ...tokenizer.flush()]
+  return { records, errors: tokenizer.errors }
+}
+
+describe("CsvTokenizer", () => {
+  it("keeps line breaks inside quoted fields and counts the lines they span", () => {
+    const { records } = tokenize('id,note\n1,"first line\nsecond line"\n2,plain\n')
+    expect(records).toEqual([
+      { fields: ["id", "note"], line: 1 },
+      { fields: ["1", "first line\nsecond line"], line: 2 },
+      { fields: ["2", "plain"], line: 4 },
+    ])
+  })
+
+  it("reads doubled quotes as one quote", () => {
+    const { records, errors } = tokenize('"say ""hi""",""""\n')
+    expect(records[0].fields).toEqual(['say "hi"', '"'])
+    expect(errors).toEqual([])
+  })
+
+  it("ends records at CRLF, CR or LF, even when a chunk splits a CRLF", () => {
+    expect(tokenize("a,b\r\n1,2\r3,4\n5,6").records.map((record) => record.fields)).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+      ["3", "4"],
+      ["5", "6"],
+    ])
+    expect(tokenize("a,b\r", "\n1,2\r\n").records.map((record) => record.line)).toEqual([1, 2])
+  })
+
+  it("skips a byte order mark at the start only", () => {
+    expect(tokenize("\ufeffid,name\n1,\ufeffx\n").records.map((record) => record.fields)).toEqual([
+      ["id", "name"],
+      ["1", "\ufeffx"],
+    ])
+  })
+
+  it("skips blank lines but keeps a record holding one empty quoted field", () => {
+    expect(tokenize('a\n\n""\n').records.map((record) => record.fields)).toEqual([["a"], [""]])
+  })
+
+  it("reports stray and unclosed quotes", () => {
+    expect(tokenize('a"b,c\n').errors.map((error) => error.type)).toEqual(["invalid_quote"])
+    expect(tokenize('"open,field\n').errors.map((error) => error.type)).toEqual(["unclosed_quote"])
+  })
+})
+
+describe("CsvParser", () => {
+  it("reads the header and rows of CRLF text with a byte order mark", () => {
+    const table = CsvParser.parse('\ufeffname,comment\r\nAnn,"multi\r\nline"\r\nBo,"a ""quoted"" word"\r\n')
+    expect(table.columns).toEqual(["name", "comment"])
+    expect(table.data).toEqual([
+      { name: "Ann", comment: "multi\r\nline" },
+      { name: "Bo", comment: 'a "quoted" word' },
+    ])
+    expect(table.errors).toEqual([])
+  })
+
+  it("pads short rows and reports them", () => {
+    const table = CsvParser.parse("a,b,c\n1,2\n3,4,5\n")
+    expect(table.data).toEqual([
+      { a: "1", b: "2", c: "" },
+      { a: "3", b: "4", c: "5" },
+    ])
+    expect(table.errors).toEqual([
+      { row: 1, line: 2, type: "too_few_fields", message: "Expected 3 fields but found 2" },
+    ])
+  })
+
+  it("adds columns for long rows instead of dropping their values", () => {
+    const table = CsvParser.parse("a,b\n1,2\n3,4,5\n")
+    expect(table.columns).toEqual(["a", "b", "Column 3"])
+    expect(table.data).toEqual([
+      { a: "1", b: "2", "Column 3": "" },
+      { a: "3", b: "4", "Column 3": "5" },
+    ])
+    expect(table.errors.map((error) => [error.row, error.type])).toEqual([[2, "too_many_fields"]])
+  })
+
+  it("gives the same result however the text is split into chunks", () => {
+    const text = 'id,note\r\n1,"x\r\ny"\r\n2,"a,""b"""\r\n'
+    const whole = CsvParser.parse(text)
+    const parser = new CsvParser()
+    for (const char of text) parser.push(char)
+    expect(parser.finish()).toEqual(whole)
+  })
+
+  it("attributes quote errors to the row they occur in", () => {
+    const table = CsvParser.parse('a,b\n1,2\n3,x"y\n')
+    expect(table.errors).toEqual([
+      { row: 2, line: 3, type: "invalid_quote", message: "Unexpected quote inside an unquoted field" },
+    ])
+  })
+})
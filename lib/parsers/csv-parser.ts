@@ -0,0 +1,315 @@
+import { makeUniqueColumnNames } from "@/lib/parsers/columns"
+import { combineHeaderRows } from "@/lib/parsers/table-layout"
+import type { ParseError, ParsedTable } from "@/lib/parsers/types"
+
+export interface CsvParseOptions {
+  delimiter?: string
+  quoteChar?: string
+  hasHeader?: boolean
+  /** Records before the header, such as report titles */
+  skipRows?: number
+  /** Stacked header records combined into one name per column; overrides `hasHeader` */
+  headerRows?: number
+  /** Trailing records dropped at the end, such as footnotes */
+  skipFooterRows?: number
+  /** Numbers written with a decimal comma (e.g. `1.234,5`) are rewritten as `1234.5` */
+  decimalSeparator?: "." | ","
+}
+
+export interface CsvRecord {
+  fields: string[]
+  line: number
+}
+
+type TokenizerState = "fieldStart" | "unquoted" | "quoted" | "quoteInQuoted"
+
+/**
+ * Incremental RFC 4180 tokenizer. Chunks can be split anywhere, including in the
+ * middle of a quoted field or between the CR and LF of a line break.
+ */
+export class CsvTokenizer {
+  private state: TokenizerState = "fieldStart"
+  private field = ""
+  private fields: string[] = []
+  private recordQuoted = false
+  private skipNextLF = false
+  private started = false
+  private line = 1
+  private recordLine = 1
+  private lastQuotedChar = ""
+  readonly errors: ParseError[] = []
+
+  constructor(
+    private readonly delimiter = ",",
+    private readonly quoteChar = '"',
+  ) {}
+
+  push(chunk: string): CsvRecord[] {
+    const records: CsvRecord[] = []
+    let start = 0
+
+    if (!this.started && chunk.length > 0) {
+      this.started = true
+      if (chunk.charCodeAt(0) === 0xfeff) start = 1
+    }
+
+    for (let i = start; i < chunk.length; i++) {
+      const char = chunk[i]
+
+      if (this.skipNextLF) {
+        this.skipNextLF = false
+        if (char === "\n") continue
+      }
+
+      switch (this.state) {
+        case "fieldStart":
+          if (char === this.quoteChar) {
+            this.state = "quoted"
+            this.recordQuoted = true
+          } else if (char === this.delimiter) {
+            this.endField()
+          } else if (char === "\r" || char === "\n") {
+            this.endRecord(records, char)
+          } else {
+            this.field += char
+            this.state = "unquoted"
+          }
+          break
+
+        case "unquoted":
+          if (char === this.delimiter) {
+            this.endField()
+          } else if (char === "\r" || char === "\n") {
+            this.endRecord(records, char)
+          } else {
+            if (char === this.quoteChar) {
+              this.addError("invalid_quote", "Unexpected quote inside an unquoted field")
+            }
+            this.field += char
+          }
+          break
+
+        case "quoted":
+          if (char === this.quoteChar) {
+            this.state = "quoteInQuoted"
+          } else {
+            if (char === "\r" || (char === "\n" && this.lastQuotedChar !== "\r")) this.line++
+            this.lastQuotedChar = char
+            this.field += char
+          }
+          break
+
+        case "quoteInQuoted":
+          if (char === this.quoteChar) {
+            this.field += char
+            this.state = "quoted"
+          } else if (char === this.delimiter) {
+            this.endField()
+          } else if (char === "\r" || char === "\n") {
+            this.endRecord(records, char)
+          } else {
+            this.addError("invalid_quote", "Unexpected characters after a closing quote")
+            this.field += char
+            this.state = "unquoted"
+          }
+          break
+      }
+    }
+
+    return records
+  }
+
+  flush(): CsvRecord[] {
+    const records: CsvRecord[] = []
+
+    if (this.state === "quoted") {
+      this.addError("unclosed_quote", "Quoted field is never closed")
+    }
+
+    if (this.state !== "fieldStart" || this.fields.length > 0) {
+      this.endField()
+      this.emit(records)
+    }
+
+    return records
+  }
+
+  private endField() {
+    this.fields.push(this.field)
+    this.field = ""
+    this.lastQuotedChar = ""
+    this.state = "fieldStart"
+  }
+
+  private endRecord(records: CsvRecord[], lineBreak: string) {
+    this.endField()
+    this.emit(records)
+    this.line++
+    this.recordLine = this.line
+    this.skipNextLF = lineBreak === "\r"
+  }
+
+  private emit(records: CsvRecord[]) {
+    const isBlankLine = this.fields.length === 1 && this.fields[0] === "" && !this.recordQuoted
+    if (!isBlankLine) {
+      records.push({ fields: this.fields, line: this.recordLine })
+    }
+    this.fields = []
+    this.recordQuoted = false
+  }
+
+  private addError(type: ParseError["type"], message: string) {
+    this.errors.push({ row: -1, line: this.recordLine, type, message })
+  }
+}
+
+/**
+ * Streaming CSV parser that turns tokenized records into row objects. Short rows are
+ * padded with empty strings, long rows get generated column names, and both are
+ * reported as parse errors rather than silently shifting values between columns.
+ */
+export class CsvParser {
+  private readonly tokenizer: CsvTokenizer
+  private readonly skipRows: number
+  private readonly headerRows: number
+  private readonly skipFooterRows: number
+  private readonly decimalComma: boolean
+  private readonly headerRecords: CsvRecord[] = []
+  private recordCount = 0
+  private columns: string[] | null = null
+  private expectedFieldCount = 0
+  private readonly data: Record<string, any>[] = []
+  private readonly errors: ParseError[] = []
+  private tokenizerErrorIndex = 0
+
+  constructor(options: CsvParseOptions = {}) {
+    this.tokenizer = new CsvTokenizer(options.delimiter ?? ",", options.quoteChar ?? '"')
+    this.skipRows = options.skipRows ?? 0
+    this.headerRows = options.headerRows ?? (options.hasHeader === false ? 0 : 1)
+    this.skipFooterRows = options.skipFooterRows ?? 0
+    this.decimalComma = options.decimalSeparator === ","
+  }
+
+  static parse(text: string, options: CsvParseOptions = {}): ParsedTable {
+    const parser = new CsvParser(options)
+    parser.push(text)
+    return parser.finish()
+  }
+
+  get rowCount(): number {
+    return this.data.length
+  }
+
+  push(chunk: string) {
+    this.consume(this.tokenizer.push(chunk))
+  }
+
+  finish(): ParsedTable {
+    this.consume(this.tokenizer.flush())
+    this.collectTokenizerErrors(Infinity, this.data.length)
+    if (!this.columns && this.headerRecords.length > 0) this.startTable(null)
+
+    // Footer records are only known once the input ends, so they are removed afterwards
+    if (this.skipFooterRows > 0) this.data.splice(Math.max(0, this.data.length - this.skipFooterRows))
+    const rowCount = this.data.length
+
+    return {
+      columns: this.columns || [],
+      data: this.data,
+      errors: this.errors.filter((error) => error.row <= rowCount).sort((a, b) => (a.line ?? 0) - (b.line ?? 0)),
+    }
+  }
+
+  private consume(records: CsvRecord[]) {
+    for (const record of records) {
+      this.recordCount++
+      if (this.recordCount <= this.skipRows) {
+        this.collectTokenizerErrors(record.line, 0)
+        continue
+      }
+
+      if (!this.columns) {
+        if (this.headerRecords.length < this.headerRows) {
+          this.collectTokenizerErrors(record.line, 0)
+          this.headerRecords.push(record)
+          if (this.headerRecords.length === this.headerRows) this.startTable(null)
+          continue
+        }
+        this.startTable(record)
+      }
+
+      this.addRow(record)
+    }
+  }
+
+  // Column names come from the header records, or are generated from the first data record
+  private startTable(firstRecord: CsvRecord | null) {
+    const rows = this.headerRecords.map((record) => record.fields)
+    if (rows.length === 0) {
+      const count = firstRecord?.fields.length ?? 0
+      this.columns = makeUniqueColumnNames(Array.from({ length: count }, (_, index) => `Column ${index + 1}`))
+      this.expectedFieldCount = count
+      return
+    }
+    const width = rows.reduce((max, fields) => Math.max(max, fields.length), 0)
+    this.columns = makeUniqueColumnNames(combineHeaderRows(rows, width))
+    this.expectedFieldCount = width
+  }
+
+  private addRow(record: CsvRecord) {
+    const columns = this.columns!
+    const rowNumber = this.data.length + 1
+    const fields = this.decimalComma ? record.fields.map(normalizeDecimalComma) : record.fields
+
+    this.collectTokenizerErrors(record.line, rowNumber)
+
+    if (fields.length < this.expectedFieldCount) {
+      this.errors.push({
+        row: rowNumber,
+        line: record.line,
+        type: "too_few_fields",
+        message: `Expected ${this.expectedFieldCount} fields but found ${fields.length}`,
+      })
+    } else if (fields.length > this.expectedFieldCount) {
+      this.errors.push({
+        row: rowNumber,
+        line: record.line,
+        type: "too_many_fields",
+        message: `Expected ${this.expectedFieldCount} fields but found ${fields.length}`,
+      })
+
+      if (fields.length > columns.length) {
+        const extraColumns = fields.slice(columns.length).map((_, index) => `Column ${columns.length + index + 1}`)
+        this.columns = makeUniqueColumnNames([...columns, ...extraColumns])
+        for (const row of this.data) {
+          for (const column of this.columns.slice(columns.length)) row[column] = ""
+        }
+      }
+    }
+
+    const row: Record<string, any> = {}
+    this.columns!.forEach((column, index) => {
+      row[column] = fields[index] ?? ""
+    })
+    this.data.push(row)
+  }
+
+  // Quote errors are raised while a record is still being tokenized, so they are
+  // attributed to a data row once the record that contains them is consumed.
+  private collectTokenizerErrors(upToLine: number, rowNumber: number) {
+    const tokenizerErrors = this.tokenizer.errors
+    while (this.tokenizerErrorIndex < tokenizerErrors.length) {
+      const error = tokenizerErrors[this.tokenizerErrorIndex]
+      if ((error.line ?? 0) > upToLine) break
+      this.errors.push({ ...error, row: rowNumber })
+      this.tokenizerErrorIndex++
+    }
+  }
+}
+
+const DECIMAL_COMMA_NUMBER = /^[+-]?(\d{1,3}(\.\d{3})+|\d+),\d+$/
+
+function normalizeDecimalComma(field: string): string {
+  const trimmed = field.trim()
+  return DECIMAL_COMMA_NUMBER.test(trimmed) ? trimmed.replace(/\./g, "").replace(",", ".") : field
+}
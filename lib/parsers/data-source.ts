@@ -0,0 +1,174 @@
+import { readImportedTable, type ColumnSchema } from "@/lib/column-schema"
+import { BackgroundParser } from "@/lib/parsers/background-parser"
+import { JsonParser } from "@/lib/parsers/json-parser"
+import type { ParseRequest, ParseSettings } from "@/lib/parsers/parse-runner"
+import { fetchRemoteFile, type CacheValidators } from "@/lib/parsers/remote-file"
+import { fetchRestRecords, type RestSourceOptions } from "@/lib/parsers/rest-source"
+import type { ParsedTable } from "@/lib/parsers/types"
+
+/** Where a dataset was loaded from, with everything needed to load it again */
+export type DataSourceDescriptor =
+  | {
+      kind: "file"
+      url: string
+      headers: [string, string][]
+      parse: ParseSettings
+      /** Sheet or dataset name when the file holds several tables */
+      tableName?: string
+      validators: CacheValidators
+    }
+  | { kind: "rest"; options: RestSourceOptions; validators: CacheValidators }
+
+export interface RowChanges {
+  added: number
+  removed: number
+  /** Only counted when rows can be matched by `keyColumn`; otherwise an edit is a removal plus an addition */
+  changed: number
+  keyColumn: string | null
+}
+
+export type RefreshResult =
+  | { status: "unchanged" }
+  | { status: "updated"; table: ParsedTable; schema: ColumnSchema[]; source: DataSourceDescriptor; changes: RowChanges }
+
+export interface RowSnapshot {
+  data: Record<string, any>[]
+  columns: string[]
+  /** Formats and types the user confirmed, applied to the reloaded rows before comparing */
+  schema?: ColumnSchema[]
+}
+
+const KEY_COLUMN = /^(id|uuid|key)$|(^|[_\s.-])id$|[a-z]Id$/i
+
+export function sourceUrl(source: DataSourceDescriptor): string {
+  return source.kind === "file" ? source.url : source.options.url
+}
+
+/** Describes one table parsed from a downloaded file; a workbook sheet keeps only its own selection */
+export function describeFileSource(
+  url: string,
+  request: ParseRequest,
+  tableName: string | undefined,
+  validators: CacheValidators,
+): DataSourceDescriptor {
+  const { file: _file, ...settings } = request
+  const parse = (
+    request.format === "xlsx"
+      ? { ...settings, sheets: request.sheets.filter((s) => s.sheetName === tableName) }
+      : settings
+  ) as ParseSettings
+  return { kind: "file", url, headers: [], parse, tableName, validators }
+}
+
+/**
+ * Loads a source again with the request it was first loaded with. The server is asked to skip
+ * the body when its ETag or Last-Modified date still match; otherwise the rows are parsed and
+ * compared with the previous snapshot.
+ */
+export async function refreshDataSource(
+  source: DataSourceDescriptor,
+  previous: RowSnapshot,
+  onProgress: (message: string) => void,
+): Promise<RefreshResult> {
+  if (source.kind === "rest") {
+    // Validators of a first page say nothing about the pages after it
+    const single = source.options.pagination.kind === "none"
+    const result = await fetchRestRecords(
+      source.options,
+      (pages, records) => onProgress(`Fetched ${pages} page${pages !== 1 ? "s" : ""}, ${records} records`),
+      undefined,
+      single ? source.validators : undefined,
+    )
+    if (!result) return { status: "unchanged" }
+
+    return {
+      ...readRefreshedTable(JsonParser.toTable({ value: result.records, errors: [] }), previous),
+      source: { ...source, validators: single ? result.validators : {} },
+    }
+  }
+
+  const remote = await fetchRemoteFile(
+    source.url,
+    (loaded) => onProgress(`Downloaded ${Math.round(loaded / 1024).toLocaleString()} KB`),
+    { headers: source.headers, validators: source.validators },
+  )
+  if (!remote) return { status: "unchanged" }
+
+  onProgress("Parsing")
+  const request = { ...source.parse, file: remote.file } as ParseRequest
+  const sources = await BackgroundParser.start(request, () => {}, previous.schema).result
+  const parsed = sources?.find((candidate) => candidate.name === source.tableName) ?? sources?.[0]
+  if (!parsed) throw new Error(`${remote.file.name} no longer contains ${source.tableName ?? "any tables"}`)
+
+  return {
+    ...refreshedTable(parsed.table, parsed.schema, previous),
+    source: { ...source, validators: remote.validators },
+  }
+}
+
+function readRefreshedTable(parsed: ParsedTable, previous: RowSnapshot) {
+  const { data, schema } = readImportedTable(parsed, previous.schema)
+  return refreshedTable({ ...parsed, data }, schema, previous)
+}
+
+function refreshedTable(table: ParsedTable, schema: ColumnSchema[], previous: RowSnapshot) {
+  return { status: "updated" as const, table, schema, changes: compareRows(previous, table) }
+}
+
+/**
+ * Counts the rows added, removed and changed between two versions of a dataset. Rows are
+ * matched on an ID-like column when both versions have one with unique values, and by their
+ * whole content otherwise.
+ */
+export function compareRows(before: RowSnapshot, after: RowSnapshot): RowChanges {
+  const columns = Array.from(new Set([...before.columns, ...after.columns]))
+  const serialize = (row: Record<string, any>) => JSON.stringify(columns.map((column) => row[column] ?? null))
+
+  const keyColumn =
+    before.columns.find(
+      (column) =>
+        KEY_COLUMN.test(column) &&
+        after.columns.includes(column) &&
+        hasUniqueKeys(before.data, column) &&
+        hasUniqueKeys(after.data, column),
+    ) ?? null
+
+  if (keyColumn) {
+    const previous = new Map(before.data.map((row) => [String(row[keyColumn]), serialize(row)]))
+    let added = 0
+    let changed = 0
+    for (const row of after.data) {
+      const old = previous.get(String(row[keyColumn]))
+      if (old === undefined) added++
+      else if (old !== serialize(row)) changed++
+    }
+    return { added, removed: before.data.length - (after.data.length - added), changed, keyColumn }
+  }
+
+  // Without a key, identical rows are paired off and whatever is left over was added or removed
+  const remaining = new Map<string, number>()
+  for (const row of before.data) {
+    const key = serialize(row)
+    remaining.set(key, (remaining.get(key) ?? 0) + 1)
+  }
+  let added = 0
+  for (const row of after.data) {
+    const key = serialize(row)
+    const count = remaining.get(key) ?? 0
+    if (count > 0) remaining.set(key, count - 1)
+    else added++
+  }
+  return { added, removed: before.data.length - (after.data.length - added), changed: 0, keyColumn: null }
+}
+
+function hasUniqueKeys(data: Record<string, any>[], column: string): boolean {
+  const seen = new Set<string>()
+  for (const row of data) {
+    const value = row[column]
+    if (value === null || value === undefined || value === "") return false
+    const key = String(value)
+    if (seen.has(key)) return false
+    seen.add(key)
+  }
+  return true
+}
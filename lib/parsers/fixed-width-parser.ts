@@ -0,0 +1,288 @@
+import { CsvParser } from "@/lib/parsers/csv-parser"
+import { makeUniqueColumnNames } from "@/lib/parsers/columns"
+import { sniffTextFile } from "@/lib/parsers/sniffer"
+import type { ParseError, ParsedTable } from "@/lib/parsers/types"
+
+export type FixedWidthType = "string" | "integer" | "decimal" | "date"
+
+export interface FixedWidthColumn {
+  name: string
+  /** 0-based character offset */
+  start: number
+  width: number
+  type: FixedWidthType
+}
+
+export interface FixedWidthOptions {
+  encoding: string
+  columns: FixedWidthColumn[]
+}
+
+/**
+ * Streaming parser for fixed-width text. Numeric fields become numbers, blank fields
+ * become null, and 8-digit dates (YYYYMMDD) become ISO dates.
+ */
+export class FixedWidthParser {
+  private readonly columns: FixedWidthColumn[]
+  private readonly names: string[]
+  private readonly data: Record<string, any>[] = []
+  private readonly errors: ParseError[] = []
+  private readonly lineWidth: number
+  private remainder = ""
+  private line = 0
+
+  constructor(columns: FixedWidthColumn[]) {
+    this.columns = [...columns].sort((a, b) => a.start - b.start)
+    this.names = makeUniqueColumnNames(this.columns.map((column) => column.name))
+    this.lineWidth = this.columns.reduce((max, column) => Math.max(max, column.start + column.width), 0)
+  }
+
+  static parse(text: string, columns: FixedWidthColumn[]): ParsedTable {
+    const parser = new FixedWidthParser(columns)
+    parser.push(text)
+    return parser.finish()
+  }
+
+  push(chunk: string) {
+    const lines = (this.remainder + chunk).split("\n")
+    this.remainder = lines.pop() ?? ""
+    for (const line of lines) this.readLine(line)
+  }
+
+  finish(): ParsedTable {
+    if (this.remainder) this.readLine(this.remainder)
+    this.remainder = ""
+    return { columns: this.names, data: this.data, errors: this.errors }
+  }
+
+  private readLine(raw: string) {
+    this.line++
+    const line = (this.line === 1 ? raw.replace(/^\uFEFF/, "") : raw).replace(/\r$/, "")
+    if (line.trim() === "") return
+
+    const row: Record<string, any> = {}
+    this.columns.forEach((column, index) => {
+      row[this.names[index]] = convertField(line.slice(column.start, column.start + column.width), column.type)
+    })
+    this.data.push(row)
+
+    const lastColumn = this.columns[this.columns.length - 1]
+    if (lastColumn && line.length <= lastColumn.start) {
+      this.errors.push({
+        row: this.data.length,
+        line: this.line,
+        type: "too_few_fields",
+        message: `Line is ${line.length} characters long but the layout expects ${this.lineWidth}`,
+      })
+    }
+  }
+}
+
+function convertField(raw: string, type: FixedWidthType): any {
+  const value = raw.trim()
+  switch (type) {
+    case "string":
+      return value
+    case "integer":
+    case "decimal": {
+      if (value === "") return null
+      const number = Number(value)
+      return Number.isNaN(number) ? value : number
+    }
+    case "date": {
+      if (value === "") return null
+      const compact = /^(\d{4})(\d{2})(\d{2})$/.exec(value)
+      return compact ? `${compact[1]}-${compact[2]}-${compact[3]}` : value
+    }
+  }
+}
+
+/**
+ * Suggests columns from sample lines: a boundary is placed wherever a column of blanks
+ * shared by every line is followed by text.
+ */
+export function guessFixedWidthColumns(lines: string[]): FixedWidthColumn[] {
+  const sample = lines.filter((line) => line.trim() !== "")
+  const lineWidth = sample.reduce((max, line) => Math.max(max, line.length), 0)
+  if (lineWidth === 0) return []
+
+  const blank = Array.from({ length: lineWidth }, (_, position) =>
+    sample.every((line) => position >= line.length || line[position] === " "),
+  )
+
+  const starts = [0]
+  for (let position = 1; position < lineWidth; position++) {
+    if (blank[position - 1] && !blank[position]) starts.push(position)
+  }
+
+  return starts.map((start, index) => {
+    const end = starts[index + 1] ?? lineWidth
+    const values = sample.map((line) => line.slice(start, end).trim()).filter((value) => value !== "")
+    return { name: `Column ${index + 1}`, start, width: end - start, type: guessType(values) }
+  })
+}
+
+function guessType(values: string[]): FixedWidthType {
+  if (values.length === 0) return "string"
+  if (values.every((value) => /^[+-]?\d+$/.test(value))) {
+    return values.every((value) => /^(19|20)\d{2}(0[1-9]|1[0-2])(0[1-9]|[12]\d|3[01])$/.test(value))
+      ? "date"
+      : "integer"
+  }
+  if (values.every((value) => /^[+-]?(\d+\.?\d*|\.\d+)$/.test(value))) return "decimal"
+  return "string"
+}
+
+/**
+ * Adds or removes a column boundary at a character position. A boundary inside a column
+ * splits it, and removing a boundary merges the column into the one before it.
+ */
+export function toggleColumnBoundary(
+  columns: FixedWidthColumn[],
+  position: number,
+  lineWidth: number,
+): FixedWidthColumn[] {
+  const sorted = [...columns].sort((a, b) => a.start - b.start)
+  const index = sorted.findIndex((column) => column.start === position)
+
+  if (index > 0) {
+    const previous = sorted[index - 1]
+    if (previous.start + previous.width !== position) return sorted
+    const merged = { ...previous, width: previous.width + sorted[index].width }
+    return [...sorted.slice(0, index - 1), merged, ...sorted.slice(index + 1)]
+  }
+  if (index === 0) return sorted
+
+  const nextName = () => {
+    const taken = new Set(sorted.map((column) => column.name))
+    let count = sorted.length + 1
+    while (taken.has(`Column ${count}`)) count++
+    return `Column ${count}`
+  }
+
+  const containing = sorted.findIndex((column) => column.start < position && position < column.start + column.width)
+  if (containing !== -1) {
+    const column = sorted[containing]
+    const left = { ...column, width: position - column.start }
+    const right = {
+      name: nextName(),
+      start: position,
+      width: column.start + column.width - position,
+      type: column.type,
+    }
+    return [...sorted.slice(0, containing), left, right, ...sorted.slice(containing + 1)]
+  }
+
+  // A position in a gap between columns (or after the last one) starts a new column
+  const next = sorted.find((column) => column.start > position)
+  const width = (next ? next.start : Math.max(lineWidth, position + 1)) - position
+  return [...sorted, { name: nextName(), start: position, width, type: "string" as const }].sort(
+    (a, b) => a.start - b.start,
+  )
+}
+
+/**
+ * Reads a layout file describing column positions. Three forms are understood: a JSON
+ * array, a delimited table with name/start/width (or end)/type columns, and SPSS-style
+ * `DATA LIST` lines such as `AGE 1-3` or `NAME 4-23 (A)`. Positions are 1-based.
+ */
+export function parseFixedWidthLayout(text: string): FixedWidthColumn[] {
+  const source = text.replace(/^\uFEFF/, "").trim()
+  const columns = source.startsWith("[")
+    ? layoutFromJson(source)
+    : (layoutFromTable(source) ?? layoutFromDataList(source))
+
+  if (columns.length === 0) throw new Error("No column definitions were found in the layout file")
+  for (const column of columns) {
+    if (!Number.isFinite(column.start) || !Number.isFinite(column.width) || column.start < 0 || column.width <= 0) {
+      throw new Error(`Invalid position or width for column "${column.name}"`)
+    }
+  }
+  return columns.sort((a, b) => a.start - b.start)
+}
+
+interface LayoutEntry {
+  name: string
+  start: number
+  end?: number
+  width?: number
+  type?: string
+}
+
+function toColumn(entry: LayoutEntry, zeroBased: boolean): FixedWidthColumn {
+  const start = zeroBased ? entry.start : entry.start - 1
+  const width = entry.width ?? (entry.end ?? NaN) - entry.start + 1
+  return { name: entry.name, start, width, type: normalizeType(entry.type) }
+}
+
+function layoutFromJson(source: string): FixedWidthColumn[] {
+  const entries = JSON.parse(source) as Record<string, any>[]
+  if (!Array.isArray(entries)) throw new Error("A JSON layout must be an array of column definitions")
+
+  const parsed: LayoutEntry[] = entries.map((entry, index) => ({
+    name: String(entry.name ?? `Column ${index + 1}`),
+    start: Number(entry.start ?? entry.position),
+    end: entry.end === undefined ? undefined : Number(entry.end),
+    width: entry.width === undefined && entry.length === undefined ? undefined : Number(entry.width ?? entry.length),
+    type: entry.type,
+  }))
+  return parsed.map((entry) =>
+    toColumn(
+      entry,
+      parsed.some((item) => item.start === 0),
+    ),
+  )
+}
+
+function layoutFromTable(source: string): FixedWidthColumn[] | null {
+  const { delimiter } = sniffTextFile(new TextEncoder().encode(source))
+  const table = CsvParser.parse(source, { delimiter })
+  const find = (...candidates: string[]) =>
+    table.columns.find((column) => candidates.includes(column.trim().toLowerCase()))
+
+  const nameColumn = find("name", "field", "column", "variable")
+  const startColumn = find("start", "position", "from", "begin")
+  const endColumn = find("end", "to")
+  const widthColumn = find("width", "length", "len", "size")
+  const typeColumn = find("type", "format")
+  if (!nameColumn || !startColumn || (!endColumn && !widthColumn)) return null
+
+  const parsed: LayoutEntry[] = table.data.map((row) => ({
+    name: String(row[nameColumn]).trim(),
+    start: Number(row[startColumn]),
+    end: endColumn ? Number(row[endColumn]) : undefined,
+    width: widthColumn ? Number(row[widthColumn]) : undefined,
+    type: typeColumn ? row[typeColumn] : undefined,
+  }))
+  return parsed.map((entry) =>
+    toColumn(
+      entry,
+      parsed.some((item) => item.start === 0),
+    ),
+  )
+}
+
+function layoutFromDataList(source: string): FixedWidthColumn[] {
+  const pattern = /([A-Za-z_@#$][\w.@#$]*)\s+(\d+)(?:\s*-\s*(\d+))?(?:\s*\(\s*([A-Za-z]+)[^)]*\))?/g
+  const body = source.replace(/^\s*DATA\s+LIST\b[^/]*\//i, "").replace(/\.\s*$/, "")
+  const columns: FixedWidthColumn[] = []
+
+  for (const match of Array.from(body.matchAll(pattern))) {
+    const start = Number(match[2])
+    const end = match[3] ? Number(match[3]) : start
+    // DATA LIST variables without a format are numeric; (A) marks strings
+    const type = match[4] ? normalizeType(match[4]) : "decimal"
+    columns.push({ name: match[1], start: start - 1, width: end - start + 1, type })
+  }
+  return columns
+}
+
+function normalizeType(type: unknown): FixedWidthType {
+  const value = String(type ?? "")
+    .trim()
+    .toLowerCase()
+  if (/^(int|integer|long|short|byte)/.test(value)) return "integer"
+  if (/^(dec|decimal|num|number|numeric|float|double|real|f|n)$/.test(value) || /^(f|n)\d/.test(value)) return "decimal"
+  if (/date|^adate|^edate|^sdate/.test(value)) return "date"
+  return "string"
+}
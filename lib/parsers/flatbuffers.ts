@@ -0,0 +1,233 @@
+/**
+ * Minimal FlatBuffers access for Arrow IPC metadata. `FlatTable` reads fields by id from
+ * an existing buffer; `encodeFlatBuffer` lays out a table tree front to back.
+ */
+export class FlatTable {
+  readonly view: DataView
+
+  constructor(
+    readonly bytes: Uint8Array,
+    readonly position: number,
+  ) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  static root(bytes: Uint8Array, offset = 0): FlatTable {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    return new FlatTable(bytes, offset + view.getUint32(offset, true))
+  }
+
+  has(id: number): boolean {
+    return this.fieldOffset(id) !== 0
+  }
+
+  uint8(id: number, fallback = 0): number {
+    const offset = this.fieldOffset(id)
+    return offset ? this.view.getUint8(this.position + offset) : fallback
+  }
+
+  bool(id: number, fallback = false): boolean {
+    const offset = this.fieldOffset(id)
+    return offset ? this.view.getUint8(this.position + offset) !== 0 : fallback
+  }
+
+  int16(id: number, fallback = 0): number {
+    const offset = this.fieldOffset(id)
+    return offset ? this.view.getInt16(this.position + offset, true) : fallback
+  }
+
+  int32(id: number, fallback = 0): number {
+    const offset = this.fieldOffset(id)
+    return offset ? this.view.getInt32(this.position + offset, true) : fallback
+  }
+
+  int64(id: number, fallback = 0): number {
+    const offset = this.fieldOffset(id)
+    return offset ? Number(this.view.getBigInt64(this.position + offset, true)) : fallback
+  }
+
+  string(id: number): string | null {
+    const position = this.reference(id)
+    if (position === null) return null
+    const length = this.view.getUint32(position, true)
+    return new TextDecoder().decode(this.bytes.subarray(position + 4, position + 4 + length))
+  }
+
+  table(id: number): FlatTable | null {
+    const position = this.reference(id)
+    return position === null ? null : new FlatTable(this.bytes, position)
+  }
+
+  tables(id: number): FlatTable[] {
+    const position = this.reference(id)
+    if (position === null) return []
+    const count = this.view.getUint32(position, true)
+    return Array.from({ length: count }, (_, index) => {
+      const slot = position + 4 + index * 4
+      return new FlatTable(this.bytes, slot + this.view.getUint32(slot, true))
+    })
+  }
+
+  /** Byte positions of the elements of a vector of fixed-size structs */
+  structs(id: number, size: number): number[] {
+    const position = this.reference(id)
+    if (position === null) return []
+    const count = this.view.getUint32(position, true)
+    return Array.from({ length: count }, (_, index) => position + 4 + index * size)
+  }
+
+  private reference(id: number): number | null {
+    const offset = this.fieldOffset(id)
+    if (!offset) return null
+    const slot = this.position + offset
+    return slot + this.view.getUint32(slot, true)
+  }
+
+  private fieldOffset(id: number): number {
+    const vtable = this.position - this.view.getInt32(this.position, true)
+    const entry = 4 + id * 2
+    return entry < this.view.getUint16(vtable, true) ? this.view.getUint16(vtable + entry, true) : 0
+  }
+}
+
+export type FlatField =
+  | { type: "bool"; value: boolean }
+  | { type: "uint8" | "int16" | "int32" | "int64"; value: number }
+  | { type: "string"; value: string }
+  | { type: "table"; value: FlatFields }
+  | { type: "tables"; value: FlatFields[] }
+  | { type: "structs"; size: number; value: ((view: DataView, position: number) => void)[] }
+
+/** Table fields indexed by field id; absent fields take their schema default */
+export type FlatFields = (FlatField | undefined)[]
+
+export function encodeFlatBuffer(root: FlatFields): Uint8Array {
+  const builder = new FlatBufferBuilder()
+  builder.reserve(4)
+  const rootPosition = builder.writeTable(root)
+  builder.view.setUint32(0, rootPosition, true)
+  builder.align(8)
+  return builder.bytes.slice(0, builder.length)
+}
+
+class FlatBufferBuilder {
+  bytes = new Uint8Array(1024)
+  view = new DataView(this.bytes.buffer)
+  length = 0
+
+  reserve(size: number): number {
+    if (this.length + size > this.bytes.length) {
+      const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.length + size))
+      grown.set(this.bytes)
+      this.bytes = grown
+      this.view = new DataView(grown.buffer)
+    }
+    const position = this.length
+    this.length += size
+    return position
+  }
+
+  align(alignment: number) {
+    while (this.length % alignment !== 0) this.reserve(1)
+  }
+
+  writeTable(fields: FlatFields): number {
+    const fieldCount = fields.length
+    this.align(2)
+    const vtable = this.reserve(4 + fieldCount * 2)
+
+    // Eight-byte alignment keeps 64-bit fields aligned within the table
+    this.align(8)
+    const table = this.reserve(4)
+    const offsets = new Array<number>(fieldCount).fill(0)
+    const references: { slot: number; field: FlatField }[] = []
+
+    fields.forEach((field, id) => {
+      if (!field) return
+      const size = inlineSize(field)
+      this.align(size)
+      const slot = this.reserve(size)
+      offsets[id] = slot - table
+      switch (field.type) {
+        case "bool":
+          this.view.setUint8(slot, field.value ? 1 : 0)
+          break
+        case "uint8":
+          this.view.setUint8(slot, field.value)
+          break
+        case "int16":
+          this.view.setInt16(slot, field.value, true)
+          break
+        case "int32":
+          this.view.setInt32(slot, field.value, true)
+          break
+        case "int64":
+          this.view.setBigInt64(slot, BigInt(field.value), true)
+          break
+        default:
+          references.push({ slot, field })
+      }
+    })
+
+    this.view.setInt32(table, table - vtable, true)
+    this.view.setUint16(vtable, 4 + fieldCount * 2, true)
+    this.view.setUint16(vtable + 2, this.length - table, true)
+    offsets.forEach((offset, id) => this.view.setUint16(vtable + 4 + id * 2, offset, true))
+
+    for (const { slot, field } of references) {
+      const target = this.writeReferenced(field)
+      this.view.setUint32(slot, target - slot, true)
+    }
+    return table
+  }
+
+  private writeReferenced(field: FlatField): number {
+    switch (field.type) {
+      case "string": {
+        const encoded = new TextEncoder().encode(field.value)
+        this.align(4)
+        const position = this.reserve(4 + encoded.length + 1)
+        this.view.setUint32(position, encoded.length, true)
+        this.bytes.set(encoded, position + 4)
+        return position
+      }
+      case "table":
+        return this.writeTable(field.value)
+      case "tables": {
+        this.align(4)
+        const position = this.reserve(4 + field.value.length * 4)
+        this.view.setUint32(position, field.value.length, true)
+        field.value.forEach((item, index) => {
+          const slot = position + 4 + index * 4
+          const target = this.writeTable(item)
+          this.view.setUint32(slot, target - slot, true)
+        })
+        return position
+      }
+      case "structs": {
+        // Struct elements start right after the length and must be 8-byte aligned
+        while ((this.length + 4) % 8 !== 0) this.reserve(1)
+        const position = this.reserve(4 + field.value.length * field.size)
+        this.view.setUint32(position, field.value.length, true)
+        field.value.forEach((write, index) => write(this.view, position + 4 + index * field.size))
+        return position
+      }
+      default:
+        throw new Error(`Field type ${field.type} is stored inline`)
+    }
+  }
+}
+
+function inlineSize(field: FlatField): number {
+  switch (field.type) {
+    case "bool":
+    case "uint8":
+      return 1
+    case "int16":
+      return 2
+    case "int64":
+      return 8
+    default:
+      return 4
+  }
+}
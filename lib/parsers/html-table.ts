@@ -0,0 +1,229 @@
+import { decodeXmlEntities } from "@/lib/parsers/xml"
+
+export interface HtmlTable {
+  caption: string
+  rows: string[][]
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  nbsp: " ",
+  ensp: " ",
+  emsp: " ",
+  thinsp: " ",
+  shy: "",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  laquo: "«",
+  raquo: "»",
+  middot: "·",
+  bull: "•",
+  deg: "°",
+  plusmn: "±",
+  times: "×",
+  divide: "÷",
+  minus: "−",
+  permil: "‰",
+  micro: "µ",
+  sup2: "²",
+  sup3: "³",
+  frac12: "½",
+  frac14: "¼",
+  frac34: "¾",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  sect: "§",
+  para: "¶",
+  euro: "€",
+  pound: "£",
+  yen: "¥",
+  cent: "¢",
+}
+
+export function decodeHtmlEntities(text: string): string {
+  if (!text.includes("&")) return text
+  return decodeXmlEntities(text.replace(/&(\w+);/g, (match, entity: string) => HTML_ENTITIES[entity] ?? match))
+}
+
+interface OpenCell {
+  text: string
+  colSpan: number
+  rowSpan: number
+}
+
+interface TableBuilder {
+  caption: string
+  inCaption: boolean
+  rows: string[][]
+  row: string[] | null
+  cell: OpenCell | null
+  // Cells spanning down, by column, with the number of rows they still cover
+  spans: Map<number, { value: string; remaining: number }>
+}
+
+const TAG_PATTERN = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<([/!?]?)([a-zA-Z][\w:-]*)([^>]*)>/g
+const RAW_TEXT_ELEMENTS = new Set(["script", "style"])
+
+/**
+ * Reads every `<table>` of an HTML document or fragment into rows of cell text. Cells
+ * spanning several rows or columns repeat their value in each position they cover, and
+ * nested tables are returned separately rather than merged into the cell holding them.
+ * Like the XML parser it runs without the DOM, so it works inside web workers.
+ */
+export function readHtmlTables(html: string): HtmlTable[] {
+  const tables: HtmlTable[] = []
+  const stack: TableBuilder[] = []
+  let position = 0
+
+  const appendText = (text: string) => {
+    const table = stack[stack.length - 1]
+    if (!table) return
+    if (table.cell) table.cell.text += text
+    else if (table.inCaption) table.caption += text
+  }
+
+  TAG_PATTERN.lastIndex = 0
+  let match: RegExpExecArray | null
+  while ((match = TAG_PATTERN.exec(html))) {
+    if (match.index > position) appendText(collapseWhitespace(html.slice(position, match.index)))
+    position = TAG_PATTERN.lastIndex
+
+    const [, prefix, rawName, rawAttributes] = match
+    if (!rawName || prefix === "!" || prefix === "?") continue
+    const name = rawName.toLowerCase()
+    const closing = prefix === "/"
+    const table = stack[stack.length - 1]
+
+    if (!closing && RAW_TEXT_ELEMENTS.has(name)) {
+      const end = html.toLowerCase().indexOf(`</${name}`, position)
+      position = end === -1 ? html.length : end
+      TAG_PATTERN.lastIndex = position
+      continue
+    }
+
+    switch (name) {
+      case "table":
+        if (closing) {
+          if (!table) break
+          endRow(table)
+          stack.pop()
+          tables.push({ caption: cleanCellText(table.caption), rows: table.rows })
+        } else {
+          stack.push({ caption: "", inCaption: false, rows: [], row: null, cell: null, spans: new Map() })
+        }
+        break
+      case "caption":
+        if (table) table.inCaption = !closing
+        break
+      case "tr":
+        if (table) {
+          endRow(table)
+          if (!closing) table.row = []
+        }
+        break
+      case "td":
+      case "th":
+        if (!table) break
+        endCell(table)
+        if (!closing) {
+          table.row ??= []
+          table.cell = {
+            text: "",
+            colSpan: spanAttribute(rawAttributes, "colspan"),
+            rowSpan: spanAttribute(rawAttributes, "rowspan"),
+          }
+        }
+        break
+      case "thead":
+      case "tbody":
+      case "tfoot":
+        if (table) endRow(table)
+        break
+      case "br":
+        appendText("\n")
+        break
+      case "p":
+      case "div":
+      case "li":
+        if (closing) appendText("\n")
+        break
+    }
+  }
+
+  // Unclosed tables, as in a fragment cut off at the end
+  while (stack.length > 0) {
+    const table = stack.pop()!
+    endRow(table)
+    tables.push({ caption: cleanCellText(table.caption), rows: table.rows })
+  }
+
+  return tables.filter((table) => table.rows.length > 0)
+}
+
+function endCell(table: TableBuilder) {
+  const { cell, row } = table
+  if (!cell || !row) return
+  table.cell = null
+
+  const value = cleanCellText(cell.text)
+  for (let i = 0; i < cell.colSpan; i++) {
+    fillSpannedColumns(table, row)
+    if (cell.rowSpan > 1) table.spans.set(row.length, { value, remaining: cell.rowSpan })
+    row.push(value)
+  }
+}
+
+function endRow(table: TableBuilder) {
+  endCell(table)
+  const { row } = table
+  if (!row) return
+  table.row = null
+
+  // Spans reaching past the last cell of the row still take their columns
+  const lastSpannedColumn = Math.max(-1, ...table.spans.keys())
+  while (row.length <= lastSpannedColumn) {
+    if (!fillSpannedColumns(table, row)) row.push("")
+  }
+  if (row.length === 0) return
+
+  for (const [column, span] of table.spans) {
+    span.remaining--
+    if (span.remaining === 0) table.spans.delete(column)
+  }
+  table.rows.push(row)
+}
+
+// Copies values of cells spanning down into this row; returns whether anything was copied
+function fillSpannedColumns(table: TableBuilder, row: string[]): boolean {
+  let filled = false
+  let span = table.spans.get(row.length)
+  while (span) {
+    row.push(span.value)
+    filled = true
+    span = table.spans.get(row.length)
+  }
+  return filled
+}
+
+function spanAttribute(rawAttributes: string, name: string): number {
+  const match = rawAttributes.match(new RegExp(`\\b${name}\\s*=\\s*["']?(\\d+)`, "i"))
+  const value = match ? Number.parseInt(match[1], 10) : 1
+  return Math.min(Math.max(value, 1), 1000)
+}
+
+function collapseWhitespace(text: string): string {
+  return decodeHtmlEntities(text.replace(/\s+/g, " "))
+}
+
+function cleanCellText(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .replace(/^\n+|\n+$/g, "")
+}
@@ -0,0 +1,234 @@
+import type { ParseError, ParsedTable } from "@/lib/parsers/types"
+
+export interface JsonImportOptions {
+  /** JSONPath-style selector for the rows, e.g. `$.data.items` or `$.pages[*].results` */
+  path: string
+  /** How many levels of nested objects to flatten into dotted column names */
+  maxDepth: number
+}
+
+export interface JsonArrayCandidate {
+  path: string
+  length: number
+}
+
+export interface JsonDocument {
+  value: unknown
+  errors: ParseError[]
+}
+
+type PathSegment = { kind: "key"; key: string } | { kind: "index"; index: number } | { kind: "wildcard" }
+
+const MAX_CANDIDATES = 50
+const MAX_SCAN_DEPTH = 6
+const SAMPLED_ELEMENTS = 20
+
+export const DEFAULT_JSON_OPTIONS: JsonImportOptions = { path: "$", maxDepth: 3 }
+
+export class JsonParser {
+  /**
+   * Reads a JSON document, or an NDJSON/JSON Lines file as an array with one element per
+   * line. Invalid lines are reported as parse errors instead of failing the whole file.
+   */
+  static read(text: string, lineDelimited = false): JsonDocument {
+    const source = text.replace(/^\uFEFF/, "")
+    if (!lineDelimited) {
+      try {
+        return { value: JSON.parse(source), errors: [] }
+      } catch (error) {
+        throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+
+    const reader = new JsonLinesReader()
+    reader.push(source)
+    return reader.finish()
+  }
+
+  static toTable(document: JsonDocument, options: JsonImportOptions = DEFAULT_JSON_OPTIONS): ParsedTable {
+    const records = selectRecords(document.value, options.path)
+    const columns: string[] = []
+    const seen = new Set<string>()
+
+    const flattened = records.map((record) => {
+      const row = flattenRecord(record, options.maxDepth)
+      for (const key of Object.keys(row)) {
+        if (!seen.has(key)) {
+          seen.add(key)
+          columns.push(key)
+        }
+      }
+      return row
+    })
+
+    const data = flattened.map((row) => {
+      const record: Record<string, any> = {}
+      for (const column of columns) {
+        record[column] = row[column] ?? null
+      }
+      return record
+    })
+
+    return { columns, data, errors: document.errors }
+  }
+
+  /** Lists the arrays in a document that could be used as rows, largest first. */
+  static findArrays(value: unknown): JsonArrayCandidate[] {
+    const paths = new Set<string>()
+
+    const visit = (node: unknown, segments: PathSegment[], depth: number) => {
+      if (paths.size >= MAX_CANDIDATES || depth > MAX_SCAN_DEPTH || node === null || typeof node !== "object") return
+
+      if (Array.isArray(node)) {
+        if (node.length === 0) return
+        paths.add(formatPath(segments))
+        for (const element of node.slice(0, SAMPLED_ELEMENTS)) {
+          visit(element, [...segments, { kind: "wildcard" }], depth + 1)
+        }
+        return
+      }
+
+      for (const [key, child] of Object.entries(node)) {
+        visit(child, [...segments, { kind: "key", key }], depth + 1)
+      }
+    }
+
+    visit(value, [], 0)
+
+    return Array.from(paths)
+      .map((path) => ({ path, length: selectRecords(value, path).length }))
+      .sort((a, b) => b.length - a.length)
+  }
+}
+
+/**
+ * Incremental NDJSON/JSON Lines reader. Chunks can end in the middle of a line; the
+ * partial line is kept until the next chunk or `finish`.
+ */
+export class JsonLinesReader {
+  private readonly value: unknown[] = []
+  private readonly errors: ParseError[] = []
+  private remainder = ""
+  private line = 0
+
+  push(chunk: string) {
+    const lines = (this.remainder + chunk).split("\n")
+    this.remainder = lines.pop() ?? ""
+    for (const line of lines) this.readLine(line)
+  }
+
+  finish(): JsonDocument {
+    if (this.remainder) this.readLine(this.remainder)
+    this.remainder = ""
+    return { value: this.value, errors: this.errors }
+  }
+
+  private readLine(raw: string) {
+    this.line++
+    const line = raw.replace(/\r$/, "")
+    if (line.trim() === "") return
+
+    try {
+      this.value.push(JSON.parse(line))
+    } catch (error) {
+      this.errors.push({
+        row: this.value.length + this.errors.length + 1,
+        line: this.line,
+        type: "invalid_json",
+        message: error instanceof Error ? error.message : "Invalid JSON",
+      })
+    }
+  }
+}
+
+/**
+ * Evaluates a path against a document. Arrays reached through a wildcard are concatenated,
+ * and a path that ends on a single object yields that object as the only record.
+ */
+export function selectRecords(value: unknown, path: string): unknown[] {
+  let nodes: unknown[] = [value]
+
+  for (const segment of parsePath(path)) {
+    nodes = nodes.flatMap((node) => {
+      if (node === null || typeof node !== "object") return []
+      switch (segment.kind) {
+        case "wildcard":
+          return Array.isArray(node) ? node : Object.values(node)
+        case "index":
+          return Array.isArray(node) && segment.index < node.length ? [node[segment.index]] : []
+        case "key":
+          return !Array.isArray(node) && segment.key in node ? [(node as Record<string, unknown>)[segment.key]] : []
+      }
+    })
+  }
+
+  return nodes.flatMap((node) => (Array.isArray(node) ? node : node === undefined ? [] : [node]))
+}
+
+export function parsePath(path: string): PathSegment[] {
+  const trimmed = path.trim()
+  if (!trimmed.startsWith("$")) throw new Error(`Paths must start with "$": ${path}`)
+
+  const segments: PathSegment[] = []
+  const pattern = /\.\*|\[\*\]|\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[\s*(['"])((?:\\.|(?!\3).)*)\3\s*\]/y
+  pattern.lastIndex = 1
+
+  while (pattern.lastIndex < trimmed.length) {
+    const start = pattern.lastIndex
+    const match = pattern.exec(trimmed)
+    if (!match) throw new Error(`Invalid path near "${trimmed.slice(start)}"`)
+
+    if (match[1] !== undefined) segments.push({ kind: "key", key: match[1] })
+    else if (match[2] !== undefined) segments.push({ kind: "index", index: Number(match[2]) })
+    else if (match[4] !== undefined) segments.push({ kind: "key", key: match[4].replace(/\\(.)/g, "$1") })
+    else segments.push({ kind: "wildcard" })
+  }
+
+  return segments
+}
+
+function formatPath(segments: PathSegment[]): string {
+  return segments.reduce((path, segment) => {
+    switch (segment.kind) {
+      case "wildcard":
+        return `${path}[*]`
+      case "index":
+        return `${path}[${segment.index}]`
+      case "key":
+        return /^[A-Za-z_$][\w$-]*$/.test(segment.key)
+          ? `${path}.${segment.key}`
+          : `${path}['${segment.key.replace(/(['\\])/g, "\\$1")}']`
+    }
+  }, "$")
+}
+
+/**
+ * Flattens nested objects into dotted keys up to `maxDepth` levels. Deeper objects and
+ * arrays are kept as JSON text so no data is lost.
+ */
+export function flattenRecord(record: unknown, maxDepth: number): Record<string, any> {
+  if (record === null || typeof record !== "object" || Array.isArray(record)) {
+    return { value: toCellValue(record) }
+  }
+
+  const row: Record<string, any> = {}
+  const visit = (node: Record<string, unknown>, prefix: string, depth: number) => {
+    for (const [key, value] of Object.entries(node)) {
+      const column = prefix ? `${prefix}.${key}` : key
+      if (value !== null && typeof value === "object" && !Array.isArray(value) && depth < maxDepth) {
+        visit(value as Record<string, unknown>, column, depth + 1)
+      } else {
+        row[column] = toCellValue(value)
+      }
+    }
+  }
+
+  visit(record as Record<string, unknown>, "", 0)
+  return row
+}
+
+function toCellValue(value: unknown): any {
+  if (value === undefined) return null
+  if (value !== null && typeof value === "object") return JSON.stringify(value)
+  return value
+}
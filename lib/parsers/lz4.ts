@@ -0,0 +1,93 @@
+const FRAME_MAGIC = 0x184d2204
+
+/**
+ * Decompresses a raw LZ4 block. `expectedLength` is required because blocks do not
+ * record their decompressed size.
+ */
+export function lz4DecompressBlock(input: Uint8Array, expectedLength: number): Uint8Array {
+  const output = new Uint8Array(expectedLength)
+  const written = decodeBlock(input, output, 0)
+  if (written !== expectedLength) throw new Error("LZ4 block ended early")
+  return output
+}
+
+/** Decompresses an LZ4 frame, as used for Arrow IPC buffer compression. */
+export function lz4DecompressFrame(input: Uint8Array, expectedLength: number): Uint8Array {
+  const view = new DataView(input.buffer, input.byteOffset, input.byteLength)
+  if (view.getUint32(0, true) !== FRAME_MAGIC) throw new Error("Invalid LZ4 frame")
+
+  const flags = input[4]
+  const hasBlockChecksum = (flags & 0x10) !== 0
+  const hasContentSize = (flags & 0x08) !== 0
+  const hasDictionaryId = (flags & 0x01) !== 0
+  // Magic, FLG and BD, then the optional content size and dictionary id, then the header checksum
+  let position = 6 + (hasContentSize ? 8 : 0) + (hasDictionaryId ? 4 : 0) + 1
+
+  const output = new Uint8Array(expectedLength)
+  let written = 0
+  while (position + 4 <= input.length) {
+    const header = view.getUint32(position, true)
+    position += 4
+    if (header === 0) break
+
+    const size = header & 0x7fffffff
+    const block = input.subarray(position, position + size)
+    if (header & 0x80000000) {
+      output.set(block, written)
+      written += size
+    } else {
+      written = decodeBlock(block, output, written)
+    }
+    position += size + (hasBlockChecksum ? 4 : 0)
+  }
+
+  if (written !== expectedLength) throw new Error("LZ4 frame ended early")
+  return output
+}
+
+function decodeBlock(input: Uint8Array, output: Uint8Array, start: number): number {
+  let position = 0
+  let written = start
+
+  while (position < input.length) {
+    const token = input[position++]
+
+    let literalLength = token >> 4
+    if (literalLength === 15) {
+      let byte: number
+      do {
+        byte = input[position++]
+        literalLength += byte
+      } while (byte === 255)
+    }
+    if (written + literalLength > output.length) throw new Error("LZ4 data is larger than expected")
+    output.set(input.subarray(position, position + literalLength), written)
+    position += literalLength
+    written += literalLength
+
+    // The last sequence has literals only
+    if (position >= input.length) break
+
+    const offset = input[position] | (input[position + 1] << 8)
+    position += 2
+    let matchLength = (token & 0x0f) + 4
+    if ((token & 0x0f) === 15) {
+      let byte: number
+      do {
+        byte = input[position++]
+        matchLength += byte
+      } while (byte === 255)
+    }
+
+    if (offset === 0 || offset > written || written + matchLength > output.length) {
+      throw new Error("Invalid LZ4 match")
+    }
+    // Matches may overlap their own output, so they are copied byte by byte
+    for (let i = 0; i < matchLength; i++) {
+      output[written] = output[written - offset]
+      written++
+    }
+  }
+
+  return written
+}
@@ -0,0 +1,240 @@
+import { gridToTable } from "@/lib/parsers/columns"
+import { readHtmlTables, type HtmlTable } from "@/lib/parsers/html-table"
+import { detectEncoding } from "@/lib/parsers/sniffer"
+import { detectTableLayout, type TableLayout } from "@/lib/parsers/table-layout"
+import type { ParsedTable } from "@/lib/parsers/types"
+import { childElements, localName, parseXml, type XmlElement } from "@/lib/parsers/xml"
+
+export type MarkupDocument = { kind: "xml"; root: XmlElement } | { kind: "html"; tables: HtmlTable[] }
+
+export type MarkupImportOptions =
+  | {
+      kind: "xml"
+      /** Element path of the rows, e.g. `/export/household/member` */
+      path: string
+      /** Adds the attributes and simple fields of enclosing elements to every row */
+      includeParents: boolean
+    }
+  | { kind: "html"; tableIndex: number; layout: TableLayout }
+
+export interface XmlElementCandidate {
+  path: string
+  count: number
+}
+
+const MAX_CANDIDATES = 50
+
+export class MarkupParser {
+  /**
+   * Decodes and parses an XML or HTML file. The character set comes from the byte order
+   * mark, the XML declaration or a `<meta charset>` tag, in that order.
+   */
+  static read(bytes: Uint8Array, kind: MarkupDocument["kind"]): MarkupDocument {
+    const text = new TextDecoder(detectMarkupEncoding(bytes)).decode(bytes)
+
+    if (kind === "html") {
+      const tables = readHtmlTables(text)
+      if (tables.length === 0) throw new Error("The page does not contain any tables")
+      return { kind, tables }
+    }
+
+    const root = parseXml(text)
+    if (childElements(root).length === 0) throw new Error("The file does not contain any XML elements")
+    return { kind, root }
+  }
+
+  static toTable(document: MarkupDocument, options: MarkupImportOptions): ParsedTable {
+    if (document.kind === "html" && options.kind === "html") {
+      const table = document.tables[options.tableIndex]
+      if (!table) throw new Error(`Table ${options.tableIndex + 1} does not exist`)
+      const { columns, data } = gridToTable(table.rows, options.layout)
+      return { columns, data, errors: [] }
+    }
+    if (document.kind === "xml" && options.kind === "xml") {
+      return xmlToTable(document.root, options.path, options.includeParents)
+    }
+    throw new Error("The import options do not match the document")
+  }
+
+  /** Default import options: the first repeating element, or the first table with a detected layout */
+  static defaultOptions(document: MarkupDocument): MarkupImportOptions {
+    if (document.kind === "html") {
+      return { kind: "html", tableIndex: 0, layout: detectTableLayout(document.tables[0]?.rows ?? [], true) }
+    }
+    const [first] = MarkupParser.findRepeatingElements(document.root)
+    return { kind: "xml", path: first?.path ?? "", includeParents: true }
+  }
+
+  /**
+   * Lists the element paths that repeat under a common parent and could be used as rows,
+   * outermost first so the main records come before the repeats nested inside them.
+   */
+  static findRepeatingElements(root: XmlElement): XmlElementCandidate[] {
+    const counts = new Map<string, number>()
+    const repeating = new Set<string>()
+
+    const visit = (element: XmlElement, path: string) => {
+      const siblings = new Map<string, number>()
+      for (const child of childElements(element)) {
+        const childPath = `${path}/${child.name}`
+        counts.set(childPath, (counts.get(childPath) ?? 0) + 1)
+        const count = (siblings.get(child.name) ?? 0) + 1
+        siblings.set(child.name, count)
+        if (count > 1) repeating.add(childPath)
+        visit(child, childPath)
+      }
+    }
+    visit(root, "")
+
+    return Array.from(repeating)
+      .map((path) => ({ path, count: counts.get(path) ?? 0 }))
+      .sort((a, b) => a.path.split("/").length - b.path.split("/").length || b.count - a.count)
+      .slice(0, MAX_CANDIDATES)
+  }
+}
+
+function detectMarkupEncoding(bytes: Uint8Array): string {
+  const encoding = detectEncoding(bytes.subarray(0, 64 * 1024))
+  if (encoding !== "utf-8" && encoding !== "windows-1252") return encoding
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return encoding
+
+  const head = new TextDecoder("latin1").decode(bytes.subarray(0, 1024))
+  const declared =
+    head.match(/^\s*<\?xml[^>]*\bencoding\s*=\s*["']([\w.:-]+)["']/)?.[1] ??
+    head.match(/<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i)?.[1]
+  // A declaration cannot make invalid UTF-8 valid, so it only counts when it names another encoding
+  if (declared && !(encoding === "windows-1252" && /^utf-?8$/i.test(declared))) {
+    try {
+      return new TextDecoder(declared).encoding
+    } catch {
+      // Unknown labels fall back to the detected encoding
+    }
+  }
+  return encoding
+}
+
+/**
+ * Turns every element at `path` into a row. Attributes and child text become columns, with
+ * nested elements named by their dotted path (`address.city`) and their attributes after an
+ * `@` (`address@type`). Repeats nested inside a row are numbered (`phone_1`, `phone_2`).
+ */
+function xmlToTable(root: XmlElement, path: string, includeParents: boolean): ParsedTable {
+  const names = path.split("/").filter(Boolean)
+  if (names.length === 0) throw new Error("Choose the element to use as rows")
+
+  const matches: { element: XmlElement; context: Record<string, string> }[] = []
+  const visit = (element: XmlElement, depth: number, context: Record<string, string>) => {
+    for (const child of childElements(element)) {
+      if (child.name !== names[depth]) continue
+      if (depth === names.length - 1) {
+        matches.push({ element: child, context })
+      } else {
+        visit(child, depth + 1, includeParents ? { ...context, ...parentFields(child) } : context)
+      }
+    }
+  }
+  visit(root, 0, {})
+
+  // Numbering is decided across all rows so one row with a single repeat gets `phone_1` too
+  const repeated = new Set<string>()
+  for (const { element } of matches) findRepeats(element, "", repeated)
+  const rows = matches.map(({ element, context }) => ({ ...context, ...flattenElement(element, repeated) }))
+
+  const columns: string[] = []
+  const seen = new Set<string>()
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!seen.has(key)) {
+        seen.add(key)
+        columns.push(key)
+      }
+    }
+  }
+
+  const data = rows.map((row) => {
+    const record: Record<string, any> = {}
+    for (const column of columns) {
+      record[column] = row[column] ?? null
+    }
+    return record
+  })
+
+  return { columns, data, errors: [] }
+}
+
+// Collects the paths, relative to a row, of child elements that occur more than once in a parent
+function findRepeats(element: XmlElement, path: string, repeated: Set<string>) {
+  const seen = new Set<string>()
+  for (const child of childElements(element)) {
+    const childPath = `${path}/${localName(child.name)}`
+    if (seen.has(childPath)) repeated.add(childPath)
+    seen.add(childPath)
+    findRepeats(child, childPath, repeated)
+  }
+}
+
+function flattenElement(element: XmlElement, repeated: Set<string>): Record<string, string> {
+  const row: Record<string, string> = {}
+
+  const visit = (node: XmlElement, prefix: string, path: string) => {
+    const children = childElements(node)
+    const childNames = children.map((child) => localName(child.name))
+
+    for (const [name, value] of attributeEntries(node)) {
+      // The row's own attributes keep their plain names unless a child element has the same name
+      row[prefix ? `${prefix}@${name}` : childNames.includes(name) ? `@${name}` : name] = value
+    }
+
+    const text = ownText(node)
+    if (children.length === 0 || text) row[prefix || localName(node.name)] = text
+
+    const indexes = new Map<string, number>()
+    children.forEach((child, index) => {
+      const name = childNames[index]
+      const childPath = `${path}/${name}`
+      let key = name
+      if (repeated.has(childPath)) {
+        const position = (indexes.get(name) ?? 0) + 1
+        indexes.set(name, position)
+        key = `${name}_${position}`
+      }
+      visit(child, prefix ? `${prefix}.${key}` : key, childPath)
+    })
+  }
+
+  visit(element, "", "")
+  return row
+}
+
+// Attributes and single text-only children of an element enclosing the rows
+function parentFields(element: XmlElement): Record<string, string> {
+  const prefix = localName(element.name)
+  const fields: Record<string, string> = {}
+
+  for (const [name, value] of attributeEntries(element)) {
+    fields[`${prefix}@${name}`] = value
+  }
+
+  const children = childElements(element)
+  const counts = new Map<string, number>()
+  for (const child of children) counts.set(localName(child.name), (counts.get(localName(child.name)) ?? 0) + 1)
+  for (const child of children) {
+    const name = localName(child.name)
+    if (counts.get(name) === 1 && childElements(child).length === 0) fields[`${prefix}.${name}`] = ownText(child)
+  }
+
+  return fields
+}
+
+function attributeEntries(element: XmlElement): [string, string][] {
+  return Object.entries(element.attributes)
+    .filter(([name]) => name !== "xmlns" && !name.startsWith("xmlns:"))
+    .map(([name, value]) => [localName(name), value])
+}
+
+function ownText(element: XmlElement): string {
+  return element.children
+    .filter((child): child is string => typeof child === "string")
+    .join("")
+    .trim()
+}
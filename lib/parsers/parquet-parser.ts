@@ -0,0 +1,607 @@
+import { makeUniqueColumnNames } from "@/lib/parsers/columns"
+import { decompress } from "@/lib/parsers/compression"
+import { lz4DecompressBlock } from "@/lib/parsers/lz4"
+import { snappyDecompress } from "@/lib/parsers/snappy"
+import { ThriftReader, type ThriftStruct } from "@/lib/parsers/thrift"
+import type { ParsedTable } from "@/lib/parsers/types"
+
+// Physical types
+const BOOLEAN = 0
+const INT32 = 1
+const INT64 = 2
+const INT96 = 3
+const FLOAT = 4
+const DOUBLE = 5
+const BYTE_ARRAY = 6
+const FIXED_LEN_BYTE_ARRAY = 7
+
+// Encodings
+const PLAIN = 0
+const PLAIN_DICTIONARY = 2
+const RLE = 3
+const DELTA_BINARY_PACKED = 5
+const DELTA_LENGTH_BYTE_ARRAY = 6
+const DELTA_BYTE_ARRAY = 7
+const RLE_DICTIONARY = 8
+const BYTE_STREAM_SPLIT = 9
+
+// Page types
+const DATA_PAGE = 0
+const DICTIONARY_PAGE = 2
+const DATA_PAGE_V2 = 3
+
+const CODEC_NAMES = ["uncompressed", "Snappy", "gzip", "LZO", "Brotli", "LZ4", "Zstandard", "LZ4"]
+const JULIAN_UNIX_EPOCH = 2440588
+
+interface ParquetLeaf {
+  path: string[]
+  name: string
+  element: ThriftStruct
+  maxDefinition: number
+  maxRepetition: number
+  /** Definition level at which a list column has at least one element */
+  repeatedDefinition: number
+  convert: (raw: any) => any
+}
+
+interface PageLevels {
+  definition: Int32Array | null
+  repetition: Int32Array | null
+  count: number
+}
+
+/**
+ * Reads Apache Parquet files. Flat columns keep their types: integers and floats become
+ * numbers, dates and timestamps become ISO strings and decimals are scaled. List columns
+ * are kept as JSON text, the same way nested JSON values are flattened.
+ */
+export class ParquetParser {
+  static async parse(buffer: ArrayBuffer): Promise<ParsedTable> {
+    const bytes = new Uint8Array(buffer)
+    const view = new DataView(buffer)
+    const magic = new TextDecoder().decode(bytes.subarray(0, 4))
+    if (
+      bytes.length < 12 ||
+      magic !== "PAR1" ||
+      new TextDecoder().decode(bytes.subarray(bytes.length - 4)) !== "PAR1"
+    ) {
+      throw new Error("This is not a Parquet file")
+    }
+
+    const footerLength = view.getUint32(bytes.length - 8, true)
+    const metadata = new ThriftReader(bytes, bytes.length - 8 - footerLength).readStruct()
+    const leaves = collectLeaves(metadata[2] || [])
+    const columns = makeUniqueColumnNames(leaves.map((leaf) => leaf.name))
+    const data: Record<string, any>[] = []
+
+    for (const rowGroup of (metadata[4] || []) as ThriftStruct[]) {
+      const rowCount: number = rowGroup[3]
+      const rows: Record<string, any>[] = Array.from({ length: rowCount }, () => ({}))
+
+      for (const chunk of (rowGroup[1] || []) as ThriftStruct[]) {
+        const meta: ThriftStruct = chunk[3]
+        const path = (meta[3] as Uint8Array[]).map(decodeUtf8).join("\u0000")
+        const index = leaves.findIndex((leaf) => leaf.path.join("\u0000") === path)
+        if (index === -1) continue
+
+        const values = await readColumnChunk(bytes, meta, leaves[index], rowCount)
+        const column = columns[index]
+        for (let row = 0; row < rowCount; row++) rows[row][column] = values[row] ?? null
+      }
+
+      for (const row of rows) data.push(row)
+    }
+
+    return { columns, data, errors: [] }
+  }
+}
+
+function collectLeaves(schema: ThriftStruct[]): ParquetLeaf[] {
+  const leaves: ParquetLeaf[] = []
+  let index = 1
+
+  const walk = (
+    count: number,
+    path: string[],
+    definition: number,
+    repetition: number,
+    listPath: string[] | null,
+    repeatedDefinition: number,
+  ) => {
+    for (let i = 0; i < count; i++) {
+      const element = schema[index++]
+      const name = decodeUtf8(element[4])
+      const repetitionType = element[3] ?? 0
+      const nodeDefinition = definition + (repetitionType !== 0 ? 1 : 0)
+      const nodeRepetition = repetition + (repetitionType === 2 ? 1 : 0)
+      // The first repeated node turns the column into a list named after the field holding it
+      const startsList = repetitionType === 2 && !listPath
+      const nodeListPath = startsList ? (path.length > 0 ? path : [name]) : listPath
+      const nodeRepeatedDefinition = startsList ? nodeDefinition : repeatedDefinition
+      const fullPath = [...path, name]
+
+      if (element[5]) {
+        walk(element[5], fullPath, nodeDefinition, nodeRepetition, nodeListPath, nodeRepeatedDefinition)
+      } else {
+        leaves.push({
+          path: fullPath,
+          name: (nodeListPath ?? fullPath).join("."),
+          element,
+          maxDefinition: nodeDefinition,
+          maxRepetition: nodeRepetition,
+          repeatedDefinition: nodeRepeatedDefinition,
+          convert: valueConverter(element),
+        })
+      }
+    }
+  }
+
+  walk(schema[0]?.[5] ?? 0, [], 0, 0, null, 0)
+  return leaves
+}
+
+async function readColumnChunk(
+  bytes: Uint8Array,
+  meta: ThriftStruct,
+  leaf: ParquetLeaf,
+  rowCount: number,
+): Promise<any[]> {
+  if (leaf.maxRepetition > 1) {
+    throw new Error(`Column "${leaf.name}" contains nested lists, which are not supported`)
+  }
+
+  const codec: number = meta[4] ?? 0
+  const totalValues: number = meta[5]
+  const dictionaryOffset: number | undefined = meta[11]
+  const start = dictionaryOffset !== undefined && dictionaryOffset > 0 ? dictionaryOffset : meta[9]
+  const end = start + meta[7]
+  const physicalType: number = leaf.element[1]
+  const typeLength: number = leaf.element[2] ?? 0
+
+  let dictionary: any[] | null = null
+  const values: any[] = []
+  let current: any[] | null = null
+  let valuesRead = 0
+  let position = start
+
+  while (valuesRead < totalValues && position < end) {
+    const reader = new ThriftReader(bytes, position)
+    const header = reader.readStruct()
+    const pageStart = reader.offset
+    const compressedSize: number = header[3]
+    const uncompressedSize: number = header[2]
+    const page = bytes.subarray(pageStart, pageStart + compressedSize)
+    position = pageStart + compressedSize
+
+    if (header[1] === DICTIONARY_PAGE) {
+      const content = await decompressPage(page, codec, uncompressedSize)
+      dictionary = decodePlain(content, 0, header[7][1], physicalType, typeLength).values.map(leaf.convert)
+      continue
+    }
+
+    let levels: PageLevels
+    let content: Uint8Array
+    let offset: number
+    let encoding: number
+
+    if (header[1] === DATA_PAGE) {
+      const pageHeader = header[5]
+      content = await decompressPage(page, codec, uncompressedSize)
+      encoding = pageHeader[2]
+      const count: number = pageHeader[1]
+      offset = 0
+      let repetition: Int32Array | null = null
+      let definition: Int32Array | null = null
+      if (leaf.maxRepetition > 0) {
+        const length = readUint32(content, offset)
+        repetition = decodeHybrid(content, offset + 4, offset + 4 + length, bitWidth(leaf.maxRepetition), count)
+        offset += 4 + length
+      }
+      if (leaf.maxDefinition > 0) {
+        const length = readUint32(content, offset)
+        definition = decodeHybrid(content, offset + 4, offset + 4 + length, bitWidth(leaf.maxDefinition), count)
+        offset += 4 + length
+      }
+      levels = { definition, repetition, count }
+    } else if (header[1] === DATA_PAGE_V2) {
+      const pageHeader = header[8]
+      const count: number = pageHeader[1]
+      const definitionLength: number = pageHeader[5]
+      const repetitionLength: number = pageHeader[6]
+      const repetition =
+        leaf.maxRepetition > 0 ? decodeHybrid(page, 0, repetitionLength, bitWidth(leaf.maxRepetition), count) : null
+      const definition =
+        leaf.maxDefinition > 0
+          ? decodeHybrid(
+              page,
+              repetitionLength,
+              repetitionLength + definitionLength,
+              bitWidth(leaf.maxDefinition),
+              count,
+            )
+          : null
+      levels = { definition, repetition, count }
+      const body = page.subarray(repetitionLength + definitionLength)
+      // Levels are never compressed in v2 pages; the values may not be either
+      content =
+        pageHeader[7] === false
+          ? body
+          : await decompressPage(body, codec, uncompressedSize - repetitionLength - definitionLength)
+      offset = 0
+      encoding = pageHeader[4]
+    } else {
+      continue
+    }
+
+    const present = levels.definition
+      ? levels.definition.reduce((total, level) => total + (level === leaf.maxDefinition ? 1 : 0), 0)
+      : levels.count
+
+    let pageValues: any[]
+    if (encoding === PLAIN_DICTIONARY || encoding === RLE_DICTIONARY) {
+      if (!dictionary) throw new Error(`Column "${leaf.name}" refers to a missing dictionary`)
+      const indices = decodeHybrid(content, offset + 1, content.length, content[offset], present)
+      pageValues = Array.from(indices, (index) => dictionary![index])
+    } else {
+      pageValues = decodeValues(content, offset, present, encoding, physicalType, typeLength, leaf.name).map(
+        leaf.convert,
+      )
+    }
+
+    // Rebuild one cell per row from the definition and repetition levels
+    let next = 0
+    for (let i = 0; i < levels.count; i++) {
+      const definition = levels.definition ? levels.definition[i] : leaf.maxDefinition
+      if (leaf.maxRepetition === 0) {
+        values.push(definition === leaf.maxDefinition ? pageValues[next++] : null)
+        continue
+      }
+
+      if (!levels.repetition || levels.repetition[i] === 0) {
+        if (current) values.push(JSON.stringify(current))
+        current = definition >= leaf.repeatedDefinition - 1 ? [] : null
+        if (!current) values.push(null)
+      }
+      if (current && definition >= leaf.repeatedDefinition) {
+        current.push(definition === leaf.maxDefinition ? pageValues[next++] : null)
+      }
+    }
+    valuesRead += levels.count
+  }
+
+  if (current) values.push(JSON.stringify(current))
+  if (values.length < rowCount) throw new Error(`Column "${leaf.name}" ended before the last row`)
+  return values
+}
+
+async function decompressPage(page: Uint8Array, codec: number, uncompressedSize: number): Promise<Uint8Array> {
+  switch (codec) {
+    case 0:
+      return page
+    case 1:
+      return snappyDecompress(page, uncompressedSize)
+    case 2:
+      return decompress(page, "gzip")
+    case 5:
+      return lz4HadoopDecompress(page, uncompressedSize)
+    case 7:
+      return lz4DecompressBlock(page, uncompressedSize)
+    default:
+      throw new Error(
+        `Parquet files compressed with ${CODEC_NAMES[codec] ?? `codec ${codec}`} are not supported. ` +
+          "Save the file with Snappy, gzip or LZ4 compression instead.",
+      )
+  }
+}
+
+// The legacy LZ4 codec wraps blocks in Hadoop framing (big-endian sizes); some writers used raw blocks
+function lz4HadoopDecompress(page: Uint8Array, uncompressedSize: number): Uint8Array {
+  const view = new DataView(page.buffer, page.byteOffset, page.byteLength)
+  if (page.length >= 8 && view.getUint32(0) === uncompressedSize && view.getUint32(4) === page.length - 8) {
+    return lz4DecompressBlock(page.subarray(8), uncompressedSize)
+  }
+  return lz4DecompressBlock(page, uncompressedSize)
+}
+
+function decodeValues(
+  bytes: Uint8Array,
+  offset: number,
+  count: number,
+  encoding: number,
+  physicalType: number,
+  typeLength: number,
+  columnName: string,
+): any[] {
+  switch (encoding) {
+    case PLAIN:
+      return decodePlain(bytes, offset, count, physicalType, typeLength).values
+    case RLE:
+      // Booleans only: a length prefix followed by 1-bit runs
+      return Array.from(decodeHybrid(bytes, offset + 4, offset + 4 + readUint32(bytes, offset), 1, count), Boolean)
+    case DELTA_BINARY_PACKED: {
+      const values = decodeDeltaBinaryPacked(bytes, offset).values
+      return physicalType === INT32 ? values.map(Number) : values
+    }
+    case DELTA_LENGTH_BYTE_ARRAY: {
+      const lengths = decodeDeltaBinaryPacked(bytes, offset)
+      let position = lengths.offset
+      return lengths.values.map((length) => {
+        const value = bytes.subarray(position, position + Number(length))
+        position += Number(length)
+        return value
+      })
+    }
+    case DELTA_BYTE_ARRAY: {
+      const prefixes = decodeDeltaBinaryPacked(bytes, offset)
+      const suffixLengths = decodeDeltaBinaryPacked(bytes, prefixes.offset)
+      let position = suffixLengths.offset
+      let previous = new Uint8Array(0)
+      return prefixes.values.map((prefix, index) => {
+        const suffixLength = Number(suffixLengths.values[index])
+        const value = new Uint8Array(Number(prefix) + suffixLength)
+        value.set(previous.subarray(0, Number(prefix)))
+        value.set(bytes.subarray(position, position + suffixLength), Number(prefix))
+        position += suffixLength
+        previous = value
+        return value
+      })
+    }
+    case BYTE_STREAM_SPLIT: {
+      const width =
+        physicalType === FLOAT || physicalType === INT32 ? 4 : physicalType === FIXED_LEN_BYTE_ARRAY ? typeLength : 8
+      const joined = new Uint8Array(count * width)
+      for (let i = 0; i < count; i++) {
+        for (let b = 0; b < width; b++) joined[i * width + b] = bytes[offset + b * count + i]
+      }
+      return decodePlain(joined, 0, count, physicalType, typeLength).values
+    }
+    default:
+      throw new Error(`Column "${columnName}" uses a Parquet encoding (${encoding}) that is not supported`)
+  }
+}
+
+function decodePlain(
+  bytes: Uint8Array,
+  offset: number,
+  count: number,
+  physicalType: number,
+  typeLength: number,
+): { values: any[]; offset: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const values: any[] = new Array(count)
+  let position = offset
+
+  for (let i = 0; i < count; i++) {
+    switch (physicalType) {
+      case BOOLEAN:
+        values[i] = ((bytes[offset + (i >> 3)] >> (i & 7)) & 1) === 1
+        break
+      case INT32:
+        values[i] = view.getInt32(position, true)
+        position += 4
+        break
+      case INT64:
+        values[i] = view.getBigInt64(position, true)
+        position += 8
+        break
+      case INT96:
+        values[i] = bytes.subarray(position, position + 12)
+        position += 12
+        break
+      case FLOAT:
+        values[i] = view.getFloat32(position, true)
+        position += 4
+        break
+      case DOUBLE:
+        values[i] = view.getFloat64(position, true)
+        position += 8
+        break
+      case BYTE_ARRAY: {
+        const length = view.getUint32(position, true)
+        values[i] = bytes.subarray(position + 4, position + 4 + length)
+        position += 4 + length
+        break
+      }
+      case FIXED_LEN_BYTE_ARRAY:
+        values[i] = bytes.subarray(position, position + typeLength)
+        position += typeLength
+        break
+    }
+  }
+
+  if (physicalType === BOOLEAN) position = offset + Math.ceil(count / 8)
+  return { values, offset: position }
+}
+
+/** RLE / bit-packed hybrid encoding used for levels, dictionary indices and booleans */
+function decodeHybrid(bytes: Uint8Array, offset: number, end: number, width: number, count: number): Int32Array {
+  const values = new Int32Array(count)
+  const byteWidth = Math.ceil(width / 8)
+  let position = offset
+  let index = 0
+
+  while (index < count && position < end) {
+    let header = 0
+    let shift = 0
+    for (;;) {
+      const byte = bytes[position++]
+      header += (byte & 0x7f) * 2 ** shift
+      if ((byte & 0x80) === 0) break
+      shift += 7
+    }
+
+    if (header & 1) {
+      const total = (header >>> 1) * 8
+      for (let i = 0; i < total && index < count; i++) {
+        values[index++] = readBits(bytes, position, i * width, width)
+      }
+      position += (header >>> 1) * width
+    } else {
+      let value = 0
+      for (let b = 0; b < byteWidth; b++) value |= bytes[position + b] << (8 * b)
+      position += byteWidth
+      const run = Math.min(header >>> 1, count - index)
+      values.fill(value, index, index + run)
+      index += run
+    }
+  }
+
+  return values
+}
+
+function readBits(bytes: Uint8Array, base: number, bitOffset: number, width: number): number {
+  let value = 0
+  for (let bit = 0; bit < width; bit++) {
+    const position = bitOffset + bit
+    if ((bytes[base + (position >> 3)] >> (position & 7)) & 1) value += 2 ** bit
+  }
+  return value
+}
+
+function decodeDeltaBinaryPacked(bytes: Uint8Array, offset: number): { values: bigint[]; offset: number } {
+  let position = offset
+  const varint = (): bigint => {
+    let result = BigInt(0)
+    let shift = BigInt(0)
+    for (;;) {
+      const byte = bytes[position++]
+      result |= BigInt(byte & 0x7f) << shift
+      if ((byte & 0x80) === 0) return result
+      shift += BigInt(7)
+    }
+  }
+  const zigzag = (value: bigint) => (value & BigInt(1) ? -((value + BigInt(1)) >> BigInt(1)) : value >> BigInt(1))
+
+  const blockSize = Number(varint())
+  const miniblockCount = Number(varint())
+  const total = Number(varint())
+  const valuesPerMiniblock = blockSize / miniblockCount
+  const values: bigint[] = []
+  let previous = zigzag(varint())
+  if (total > 0) values.push(previous)
+
+  while (values.length < total) {
+    const minDelta = zigzag(varint())
+    const widths = bytes.subarray(position, position + miniblockCount)
+    position += miniblockCount
+
+    for (let m = 0; m < miniblockCount && values.length < total; m++) {
+      const width = widths[m]
+      for (let i = 0; i < valuesPerMiniblock && values.length < total; i++) {
+        let delta = BigInt(0)
+        for (let bit = 0; bit < width; bit++) {
+          const bitPosition = i * width + bit
+          if ((bytes[position + (bitPosition >> 3)] >> (bitPosition & 7)) & 1) delta |= BigInt(1) << BigInt(bit)
+        }
+        previous = previous + minDelta + delta
+        values.push(previous)
+      }
+      position += (valuesPerMiniblock * width) / 8
+    }
+  }
+
+  return { values, offset: position }
+}
+
+function bitWidth(maxLevel: number): number {
+  return maxLevel === 0 ? 0 : 32 - Math.clz32(maxLevel)
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0
+}
+
+function decodeUtf8(bytes: Uint8Array | undefined): string {
+  return bytes ? new TextDecoder().decode(bytes) : ""
+}
+
+/** Converts physical values according to the column's logical (or legacy converted) type. */
+function valueConverter(element: ThriftStruct): (raw: any) => any {
+  const physicalType: number = element[1]
+  const convertedType: number | undefined = element[6]
+  const logical: ThriftStruct = element[10] || {}
+  const scale: number = logical[5]?.[1] ?? element[7] ?? 0
+
+  const isDecimal = logical[5] !== undefined || convertedType === 5
+  const isDate = logical[6] !== undefined || convertedType === 6
+  const timestampUnit = logical[8]
+    ? timeUnit(logical[8][2])
+    : convertedType === 9
+      ? "millis"
+      : convertedType === 10
+        ? "micros"
+        : null
+  const timeOfDayUnit = logical[7]
+    ? timeUnit(logical[7][2])
+    : convertedType === 7
+      ? "millis"
+      : convertedType === 8
+        ? "micros"
+        : null
+  const isUnsigned = logical[10]
+    ? logical[10][2] === false
+    : convertedType !== undefined && convertedType >= 11 && convertedType <= 14
+
+  switch (physicalType) {
+    case INT32:
+      if (isDate) return (days: number) => isoFromMillis(days * 86400000).slice(0, 10)
+      if (isDecimal) return (value: number) => value / 10 ** scale
+      if (timeOfDayUnit) return (value: number) => isoFromMillis(value).slice(11, 19)
+      if (isUnsigned) return (value: number) => value >>> 0
+      return (value: number) => value
+    case INT64:
+      if (timestampUnit) return (value: bigint) => isoFromMillis(toMillis(value, timestampUnit))
+      if (timeOfDayUnit) return (value: bigint) => isoFromMillis(toMillis(value, timeOfDayUnit)).slice(11, 19)
+      if (isDecimal) return (value: bigint) => Number(value) / 10 ** scale
+      if (isUnsigned) return (value: bigint) => Number(BigInt.asUintN(64, value))
+      return (value: bigint) => Number(value)
+    case INT96:
+      return (value: Uint8Array) => {
+        const view = new DataView(value.buffer, value.byteOffset, 12)
+        const nanos = view.getBigUint64(0, true)
+        const days = view.getUint32(8, true)
+        return isoFromMillis((days - JULIAN_UNIX_EPOCH) * 86400000 + Number(nanos / BigInt(1000000)))
+      }
+    case BYTE_ARRAY:
+    case FIXED_LEN_BYTE_ARRAY:
+      if (isDecimal) return (value: Uint8Array) => Number(bigEndianSigned(value)) / 10 ** scale
+      if (logical[14] !== undefined) return formatUuid
+      if (physicalType === FIXED_LEN_BYTE_ARRAY && convertedType === undefined && !logical[1]) return toHex
+      return decodeUtf8
+    default:
+      return (value: any) => value
+  }
+}
+
+function timeUnit(unit: ThriftStruct | undefined): "millis" | "micros" | "nanos" {
+  if (unit?.[2] !== undefined) return "micros"
+  if (unit?.[3] !== undefined) return "nanos"
+  return "millis"
+}
+
+function toMillis(value: bigint, unit: "millis" | "micros" | "nanos"): number {
+  if (unit === "millis") return Number(value)
+  return Number(value / BigInt(unit === "micros" ? 1000 : 1000000))
+}
+
+function isoFromMillis(milliseconds: number): string {
+  const date = new Date(milliseconds)
+  if (Number.isNaN(date.getTime())) return String(milliseconds)
+  const iso = date.toISOString()
+  return milliseconds % 1000 === 0 ? iso.slice(0, 19) : iso.slice(0, 23)
+}
+
+function bigEndianSigned(bytes: Uint8Array): bigint {
+  let value = BigInt(0)
+  for (const byte of Array.from(bytes)) value = (value << BigInt(8)) | BigInt(byte)
+  return bytes.length > 0 && bytes[0] & 0x80 ? value - (BigInt(1) << BigInt(bytes.length * 8)) : value
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+function formatUuid(bytes: Uint8Array): string {
+  const hex = toHex(bytes)
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
@@ -0,0 +1,222 @@
+import { concatBytes } from "@/lib/parsers/binary-reader"
+import { inferStorageType, toStorageValue, type StorageType } from "@/lib/parsers/columns"
+import { ThriftWriter, type ThriftField } from "@/lib/parsers/thrift"
+
+interface ColumnLayout {
+  physicalType: number
+  annotation: ThriftField[]
+}
+
+// Physical type, converted type and logical type for each storage type
+const COLUMN_LAYOUTS: Record<StorageType, ColumnLayout> = {
+  boolean: { physicalType: 0, annotation: [] },
+  integer: { physicalType: 2, annotation: [] },
+  double: { physicalType: 5, annotation: [] },
+  date: {
+    physicalType: 1,
+    annotation: [
+      { id: 6, type: "i32", value: 6 },
+      { id: 10, type: "struct", value: [{ id: 6, type: "struct", value: [] }] },
+    ],
+  },
+  timestamp: {
+    physicalType: 2,
+    annotation: [
+      {
+        id: 10,
+        type: "struct",
+        value: [
+          {
+            id: 8,
+            type: "struct",
+            value: [
+              { id: 1, type: "bool", value: false },
+              { id: 2, type: "struct", value: [{ id: 1, type: "struct", value: [] }] },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+  string: {
+    physicalType: 6,
+    annotation: [
+      { id: 6, type: "i32", value: 0 },
+      { id: 10, type: "struct", value: [{ id: 1, type: "struct", value: [] }] },
+    ],
+  },
+}
+
+const PLAIN = 0
+const RLE = 3
+
+/**
+ * Writes a table as an uncompressed Parquet file with a single row group. Column types
+ * are inferred from the values unless given, and every column is optional so blank cells
+ * stay null.
+ */
+export class ParquetWriter {
+  static write(
+    columns: string[],
+    data: Record<string, any>[],
+    types: StorageType[] = columns.map((column) => inferStorageType(data.map((row) => row[column]))),
+  ): Uint8Array {
+    const chunks: Uint8Array[] = [new TextEncoder().encode("PAR1")]
+    let offset = 4
+    const schema: ThriftField[][] = [
+      [
+        { id: 4, type: "binary", value: "schema" },
+        { id: 5, type: "i32", value: columns.length },
+      ],
+    ]
+    const columnChunks: ThriftField[][] = []
+
+    for (const [index, column] of columns.entries()) {
+      const storageType = types[index]
+      const layout = COLUMN_LAYOUTS[storageType]
+      const values = data.map((row) => toStorageValue(row[column], storageType))
+
+      const levels = encodeDefinitionLevels(values.map((value) => value !== null))
+      const encoded = encodePlain(
+        values.filter((value) => value !== null),
+        storageType,
+      )
+      const page = new Uint8Array(4 + levels.length + encoded.length)
+      new DataView(page.buffer).setUint32(0, levels.length, true)
+      page.set(levels, 4)
+      page.set(encoded, 4 + levels.length)
+
+      const header = ThriftWriter.encode([
+        { id: 1, type: "i32", value: 0 },
+        { id: 2, type: "i32", value: page.length },
+        { id: 3, type: "i32", value: page.length },
+        {
+          id: 5,
+          type: "struct",
+          value: [
+            { id: 1, type: "i32", value: values.length },
+            { id: 2, type: "i32", value: PLAIN },
+            { id: 3, type: "i32", value: RLE },
+            { id: 4, type: "i32", value: RLE },
+          ],
+        },
+      ])
+
+      const chunkOffset = offset
+      const chunkSize = header.length + page.length
+      chunks.push(header, page)
+      offset += chunkSize
+
+      schema.push([
+        { id: 1, type: "i32", value: layout.physicalType },
+        { id: 3, type: "i32", value: 1 },
+        { id: 4, type: "binary", value: column },
+        ...layout.annotation,
+      ])
+      columnChunks.push([
+        { id: 2, type: "i64", value: chunkOffset },
+        {
+          id: 3,
+          type: "struct",
+          value: [
+            { id: 1, type: "i32", value: layout.physicalType },
+            { id: 2, type: "list", elementType: "i32", value: [PLAIN, RLE] },
+            { id: 3, type: "list", elementType: "binary", value: [column] },
+            { id: 4, type: "i32", value: 0 },
+            { id: 5, type: "i64", value: values.length },
+            { id: 6, type: "i64", value: chunkSize },
+            { id: 7, type: "i64", value: chunkSize },
+            { id: 9, type: "i64", value: chunkOffset },
+          ],
+        },
+      ])
+    }
+
+    const metadata = ThriftWriter.encode([
+      { id: 1, type: "i32", value: 1 },
+      { id: 2, type: "list", elementType: "struct", value: schema },
+      { id: 3, type: "i64", value: data.length },
+      {
+        id: 4,
+        type: "list",
+        elementType: "struct",
+        value: [
+          [
+            { id: 1, type: "list", elementType: "struct", value: columnChunks },
+            { id: 2, type: "i64", value: offset - 4 },
+            { id: 3, type: "i64", value: data.length },
+          ],
+        ],
+      },
+      { id: 6, type: "binary", value: "data-reshaping-tool" },
+    ])
+    const footerLength = new Uint8Array(4)
+    new DataView(footerLength.buffer).setUint32(0, metadata.length, true)
+    chunks.push(metadata, footerLength, new TextEncoder().encode("PAR1"))
+
+    return concatBytes(chunks)
+  }
+}
+
+// Definition levels as bit-packed runs of one bit per value
+function encodeDefinitionLevels(present: boolean[]): Uint8Array {
+  const groups = Math.ceil(present.length / 8)
+  const header: number[] = []
+  let remaining = (groups << 1) | 1
+  while (remaining >= 0x80) {
+    header.push((remaining & 0x7f) | 0x80)
+    remaining >>>= 7
+  }
+  header.push(remaining)
+
+  const bytes = new Uint8Array(header.length + groups)
+  bytes.set(header)
+  present.forEach((isPresent, index) => {
+    if (isPresent) bytes[header.length + (index >> 3)] |= 1 << (index & 7)
+  })
+  return bytes
+}
+
+function encodePlain(values: (number | boolean | string | null)[], type: StorageType): Uint8Array {
+  switch (type) {
+    case "boolean": {
+      const bytes = new Uint8Array(Math.ceil(values.length / 8))
+      values.forEach((value, index) => {
+        if (value) bytes[index >> 3] |= 1 << (index & 7)
+      })
+      return bytes
+    }
+    case "date": {
+      const bytes = new Uint8Array(values.length * 4)
+      const view = new DataView(bytes.buffer)
+      values.forEach((value, index) => view.setInt32(index * 4, value as number, true))
+      return bytes
+    }
+    case "integer":
+    case "timestamp": {
+      const bytes = new Uint8Array(values.length * 8)
+      const view = new DataView(bytes.buffer)
+      values.forEach((value, index) => view.setBigInt64(index * 8, BigInt(value as number), true))
+      return bytes
+    }
+    case "double": {
+      const bytes = new Uint8Array(values.length * 8)
+      const view = new DataView(bytes.buffer)
+      values.forEach((value, index) => view.setFloat64(index * 8, value as number, true))
+      return bytes
+    }
+    case "string": {
+      const encoder = new TextEncoder()
+      const encoded = values.map((value) => encoder.encode(value as string))
+      const bytes = new Uint8Array(encoded.reduce((total, item) => total + 4 + item.length, 0))
+      const view = new DataView(bytes.buffer)
+      let position = 0
+      for (const item of encoded) {
+        view.setUint32(position, item.length, true)
+        bytes.set(item, position + 4)
+        position += 4 + item.length
+      }
+      return bytes
+    }
+  }
+}
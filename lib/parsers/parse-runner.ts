@@ -0,0 +1,162 @@
+import { readImportedTable, type ColumnSchema } from "@/lib/column-schema"
+import { ArrowParser } from "@/lib/parsers/arrow-parser"
+import { CsvParser } from "@/lib/parsers/csv-parser"
+import { gridToTable } from "@/lib/parsers/columns"
+import { FixedWidthParser, type FixedWidthOptions } from "@/lib/parsers/fixed-width-parser"
+import { DEFAULT_JSON_OPTIONS, JsonLinesReader, JsonParser, type JsonImportOptions } from "@/lib/parsers/json-parser"
+import { MarkupParser, type MarkupImportOptions } from "@/lib/parsers/markup-parser"
+import { ParquetParser } from "@/lib/parsers/parquet-parser"
+import type { TextImportOptions } from "@/lib/parsers/sniffer"
+import { SpssParser } from "@/lib/parsers/spss-parser"
+import { SqliteDatabase, type SqliteSelection } from "@/lib/parsers/sqlite-database"
+import { StataParser } from "@/lib/parsers/stata-parser"
+import type { ParsedTable } from "@/lib/parsers/types"
+import { XlsxWorkbook, type SheetSelection } from "@/lib/parsers/xlsx-parser"
+import { XportParser } from "@/lib/parsers/xport-parser"
+
+export type ParseRequest =
+  | { format: "delimited"; file: File; options: TextImportOptions }
+  | { format: "fixed-width"; file: File; options: FixedWidthOptions }
+  | { format: "ndjson"; file: File; options: JsonImportOptions }
+  /** Without options the largest array in the document becomes the rows */
+  | { format: "json"; file: File; options?: JsonImportOptions }
+  /** Without options the first repeating element or table becomes the rows */
+  | { format: "xml" | "html"; file: File; options?: MarkupImportOptions }
+  | { format: "xlsx"; file: File; sheets: SheetSelection[] }
+  | { format: "sqlite"; file: File; selection: SqliteSelection[] }
+  | { format: "spss" | "stata" | "xport" | "parquet" | "arrow"; file: File }
+
+type WithoutFile<T> = T extends unknown ? Omit<T, "file"> : never
+
+/** A parse request without its file, kept so the same source can be parsed again later */
+export type ParseSettings = WithoutFile<ParseRequest>
+
+export interface ParsedSource {
+  /** Sheet or dataset name when one file yields several tables */
+  name?: string
+  /** The table as `readImportedTable` prepares it, with locale-formatted values converted */
+  table: ParsedTable
+  schema: ColumnSchema[]
+}
+
+export type ParseProgressHandler = (loaded: number, total: number) => void
+
+const CHUNK_SIZE = 4 * 1024 * 1024
+
+/**
+ * Parses a file described by a request and prepares each table with `readImportedTable`,
+ * passing on `previous` when the file is reloaded. Text formats are decoded and parsed chunk
+ * by chunk so progress reflects the bytes consumed so far.
+ */
+export async function runParseRequest(
+  request: ParseRequest,
+  onProgress: ParseProgressHandler,
+  previous?: ColumnSchema[],
+): Promise<ParsedSource[]> {
+  return (await parseTables(request, onProgress)).map(({ name, table }) => {
+    const { data, schema } = readImportedTable(table, previous)
+    return { name, table: { ...table, data }, schema }
+  })
+}
+
+async function parseTables(
+  request: ParseRequest,
+  onProgress: ParseProgressHandler,
+): Promise<{ name?: string; table: ParsedTable }[]> {
+  const { file } = request
+
+  switch (request.format) {
+    case "delimited": {
+      const parser = new CsvParser(request.options)
+      const decoder = new TextDecoder(request.options.encoding)
+      await readInChunks(file, onProgress, (chunk) => parser.push(decoder.decode(chunk, { stream: true })))
+      parser.push(decoder.decode())
+      return [{ table: parser.finish() }]
+    }
+
+    case "fixed-width": {
+      const parser = new FixedWidthParser(request.options.columns)
+      const decoder = new TextDecoder(request.options.encoding)
+      await readInChunks(file, onProgress, (chunk) => parser.push(decoder.decode(chunk, { stream: true })))
+      parser.push(decoder.decode())
+      return [{ table: parser.finish() }]
+    }
+
+    case "ndjson": {
+      const reader = new JsonLinesReader()
+      const decoder = new TextDecoder()
+      await readInChunks(file, onProgress, (chunk) => reader.push(decoder.decode(chunk, { stream: true })))
+      reader.push(decoder.decode())
+      return [{ table: JsonParser.toTable(reader.finish(), request.options) }]
+    }
+
+    case "json": {
+      const document = JsonParser.read(new TextDecoder().decode(await readAll(file, onProgress)))
+      const options = request.options ?? {
+        ...DEFAULT_JSON_OPTIONS,
+        path: JsonParser.findArrays(document.value)[0]?.path ?? DEFAULT_JSON_OPTIONS.path,
+      }
+      return [{ table: JsonParser.toTable(document, options) }]
+    }
+
+    case "xml":
+    case "html": {
+      const document = MarkupParser.read(new Uint8Array(await readAll(file, onProgress)), request.format)
+      return [{ table: MarkupParser.toTable(document, request.options ?? MarkupParser.defaultOptions(document)) }]
+    }
+
+    case "xlsx": {
+      const workbook = await XlsxWorkbook.open(file)
+      const sources: { name: string; table: ParsedTable }[] = []
+      for (const { sheetName, ...layout } of request.sheets) {
+        const { columns, data } = gridToTable(await workbook.readSheet(sheetName), layout)
+        sources.push({ name: sheetName, table: { columns, data, errors: [] } })
+        onProgress(sources.length, request.sheets.length)
+      }
+      return sources
+    }
+
+    case "sqlite": {
+      const database = await SqliteDatabase.open(new Blob([await readAll(file, onProgress)]))
+      try {
+        return request.selection.map((selection) => ({ name: selection.name, table: database.read(selection) }))
+      } finally {
+        database.close()
+      }
+    }
+
+    case "spss":
+      return [{ table: await SpssParser.parse(await readAll(file, onProgress)) }]
+
+    case "stata":
+      return [{ table: StataParser.parse(await readAll(file, onProgress)) }]
+
+    case "xport":
+      return XportParser.parse(await readAll(file, onProgress)).map(({ name, table }) => ({ name, table }))
+
+    case "parquet":
+      return [{ table: await ParquetParser.parse(await readAll(file, onProgress)) }]
+
+    case "arrow":
+      return [{ table: ArrowParser.parse(await readAll(file, onProgress)) }]
+  }
+}
+
+async function readInChunks(file: Blob, onProgress: ParseProgressHandler, onChunk: (chunk: Uint8Array) => void) {
+  onProgress(0, file.size)
+  for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+    const chunk = new Uint8Array(await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer())
+    onChunk(chunk)
+    onProgress(Math.min(offset + CHUNK_SIZE, file.size), file.size)
+  }
+}
+
+async function readAll(file: Blob, onProgress: ParseProgressHandler): Promise<ArrayBuffer> {
+  const bytes = new Uint8Array(file.size)
+  let offset = 0
+  await readInChunks(file, onProgress, (chunk) => {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  })
+  return bytes.buffer
+}
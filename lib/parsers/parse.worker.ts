@@ -0,0 +1,22 @@
+import { runParseRequest } from "@/lib/parsers/parse-runner"
+import type { ParseJob, ParseWorkerMessage } from "@/lib/parsers/background-parser"
+
+// The DOM typings describe `self` as a window, so the worker scope is typed by hand
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ParseJob>) => void) | null
+  postMessage: (message: ParseWorkerMessage) => void
+}
+
+scope.onmessage = async (event) => {
+  try {
+    const { request, previous } = event.data
+    const sources = await runParseRequest(
+      request,
+      (loaded, total) => scope.postMessage({ type: "progress", loaded, total }),
+      previous,
+    )
+    scope.postMessage({ type: "result", sources })
+  } catch (error) {
+    scope.postMessage({ type: "error", message: error instanceof Error ? error.message : "Failed to process file" })
+  }
+}
@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { detectExtension, fetchRemoteFile, fetchResponse } from "@/lib/parsers/remote-file"
+
+const text = (value: string) => new TextEncoder().encode(value)
+
+// A ZIP archive of empty, uncompressed members, which is all the directory listing needs
+function zipOf(names: string[]): Uint8Array {
+  const parts: Uint8Array[] = []
+  const directory: Uint8Array[] = []
+  let offset = 0
+  for (const name of names) {
+    const nameBytes = text(name)
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(26, nameBytes.length, true)
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, 0x02014b50, true)
+    central.setUint16(28, nameBytes.length, true)
+    central.setUint32(42, offset, true)
+    parts.push(new Uint8Array(local.buffer), nameBytes)
+    directory.push(new Uint8Array(central.buffer), nameBytes)
+    offset += 30 + nameBytes.length
+  }
+  const directorySize = directory.reduce((size, part) => size + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, names.length, true)
+  end.setUint16(10, names.length, true)
+  end.setUint32(12, directorySize, true)
+  end.setUint32(16, offset, true)
+  const result = new Uint8Array(offset + directorySize + 22)
+  let position = 0
+  for (const part of [...parts, ...directory, new Uint8Array(end.buffer)]) {
+    result.set(part, position)
+    position += part.length
+  }
+  return result
+}
+
+describe("detectExtension", () => {
+  it("tells workbooks from other ZIP archives by their directory", async () => {
+    expect(await detectExtension(zipOf(["[Content_Types].xml", "xl/workbook.xml"]), "")).toBe(".xlsx")
+    expect(await detectExtension(zipOf(["data.csv", "readme.txt"]), "application/octet-stream")).toBe(".zip")
+  })
+
+  it("recognises binary formats by their signature", async () => {
+    expect(await detectExtension(text("PAR1...."), "application/octet-stream")).toBe(".parquet")
+    expect(await detectExtension(text("ARROW1\0\0"), "")).toBe(".arrow")
+    expect(await detectExtension(text("$FL2@(#) SPSS"), "")).toBe(".sav")
+  })
+
+  it("recognises XML and HTML before the Content-Type", async () => {
+    expect(await detectExtension(text('<?xml version="1.0"?><rows/>'), "text/plain")).toBe(".xml")
+    expect(await detectExtension(text("\n<!DOCTYPE html><html><body>"), "text/plain")).toBe(".html")
+    expect(await detectExtension(text("<TABLE><tr><td>1</td></tr></TABLE>"), "")).toBe(".html")
+    expect(await detectExtension(text("<rows><row/></rows>"), "application/xml")).toBe(".xml")
+  })
+
+  it("uses the Content-Type for text formats", async () => {
+    expect(await detectExtension(text("a\tb\n1\t2\n"), "text/tab-separated-values")).toBe(".tsv")
+    expect(await detectExtension(text('{"a":1}'), "application/vnd.api+json")).toBe(".json")
+  })
+
+  it("recognises unlabelled JSON, JSON Lines and delimited text", async () => {
+    expect(await detectExtension(text('[{"a":1}]'), "")).toBe(".json")
+    expect(await detectExtension(text('{"a":1}\n{"a":2}\n'), "")).toBe(".ndjson")
+    expect(await detectExtension(text("id;name\n1;Ann\n"), "application/octet-stream")).toBe(".csv")
+  })
+
+  it("refuses content it cannot recognise instead of reading it as CSV", async () => {
+    await expect(detectExtension(new Uint8Array([0, 1, 2, 3, 200, 201]), "")).rejects.toThrow(/could not be recognised/)
+    await expect(detectExtension(text("just a sentence\n"), "")).rejects.toThrow(/could not be recognised/)
+  })
+})
+
+describe("fetchRemoteFile", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const serve = (response: () => Response) =>
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => response()),
+    )
+
+  it("names the file after the URL and adds the detected extension", async () => {
+    serve(() => new Response('<?xml version="1.0"?><rows/>', { headers: { etag: '"v1"' } }))
+    const remote = await fetchRemoteFile("https://data.example/export", () => {})
+    expect(remote?.file.name).toBe("export.xml")
+    expect(remote?.validators).toEqual({ etag: '"v1"', lastModified: undefined })
+  })
+
+  it("refuses a file whose declared size is over the limit", async () => {
+    serve(() => new Response("a,b\n1,2\n", { headers: { "content-length": "2048" } }))
+    await expect(fetchRemoteFile("https://data.example/a.csv", () => {}, { maxBytes: 1024 })).rejects.toThrow(
+      "The file is larger than the 1 KB limit",
+    )
+  })
+
+  it("stops reading a body without a length once it passes the limit", async () => {
+    const onProgress = vi.fn()
+    serve(
+      () =>
+        new Response(
+          new ReadableStream({
+            pull(controller) {
+              controller.enqueue(new Uint8Array(1024 * 1024))
+            },
+          }),
+        ),
+    )
+    await expect(
+      fetchRemoteFile("https://data.example/a.csv", onProgress, { maxBytes: 3 * 1024 * 1024 }),
+    ).rejects.toThrow("The file is larger than the 3 MB limit")
+    expect(onProgress).toHaveBeenCalledTimes(3)
+  })
+})
+
+describe("fetchResponse", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const failWith = async (status: number, statusText: string, headers: Record<string, string> = {}) => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(null, { status, statusText, headers })),
+    )
+    return fetchResponse("https://data.example/a.csv", {}).catch((error: Error) => error.message)
+  }
+
+  it("explains error statuses", async () => {
+    expect(await failWith(404, "Not Found")).toBe("HTTP 404 Not Found: there is no file at this address.")
+    expect(await failWith(403, "Forbidden")).toMatch(/^HTTP 403 Forbidden: the server refused access/)
+    expect(await failWith(429, "")).toBe("HTTP 429: the server is limiting requests. Try again later.")
+    expect(await failWith(503, "Service Unavailable")).toMatch(/could not deliver the file/)
+    expect(await failWith(418, "I'm a teapot")).toBe("The server responded with HTTP 418 I'm a teapot.")
+  })
+
+  it("passes on the proxy's reason for refusing", async () => {
+    const reason = "localhost is on a private network, which the server does not fetch from"
+    expect(await failWith(403, "Forbidden", { "x-proxy-error": reason })).toBe(reason)
+  })
+
+  it("sends cache validators and lets a 304 through", async () => {
+    const fetch = vi.fn(async () => new Response(null, { status: 304 }))
+    vi.stubGlobal("fetch", fetch)
+    const response = await fetchResponse("https://data.example/a.csv", {
+      validators: { etag: '"v1"', lastModified: "Mon, 19 Oct 2026 10:00:00 GMT" },
+    })
+    expect(response.status).toBe(304)
+    expect(fetch).toHaveBeenCalledWith("https://data.example/a.csv", {
+      headers: [
+        ["If-None-Match", '"v1"'],
+        ["If-Modified-Since", "Mon, 19 Oct 2026 10:00:00 GMT"],
+      ],
+      signal: undefined,
+    })
+  })
+})
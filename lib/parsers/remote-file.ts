@@ -0,0 +1,218 @@
+import { AUTO_IMPORT_FILE } from "@/lib/parsers/auto-import"
+import { concatBytes } from "@/lib/parsers/binary-reader"
+import { decompress } from "@/lib/parsers/compression"
+import { ZipArchive } from "@/lib/parsers/zip-reader"
+
+export type DownloadProgressHandler = (loaded: number, total: number) => void
+
+/** Response headers that let a later request skip an unchanged download */
+export interface CacheValidators {
+  etag?: string
+  lastModified?: string
+}
+
+export interface RemoteFile {
+  file: File
+  validators: CacheValidators
+}
+
+export interface RemoteRequestInit {
+  headers?: [string, string][]
+  signal?: AbortSignal
+  /** Makes the request conditional; a 304 answer then resolves to null */
+  validators?: CacheValidators
+  /** Largest file downloaded, in bytes, like the size limit of uploads */
+  maxBytes?: number
+}
+
+const PROXY_ENDPOINT = "/api/fetch"
+export const MAX_REMOTE_BYTES = 100 * 1024 * 1024
+
+// Checked in order against the start of the body, which is more reliable than the Content-Type
+const SIGNATURES: [string, string][] = [
+  ["PAR1", ".parquet"],
+  ["ARROW1", ".arrow"],
+  ["\xff\xff\xff\xff", ".arrows"],
+  ["$FL2", ".sav"],
+  ["$FL3", ".zsav"],
+  ["<stata_dta>", ".dta"],
+  ["HEADER RECORD*******LIBRARY", ".xpt"],
+  ["<?xml", ".xml"],
+]
+
+const CONTENT_TYPES: [RegExp, string][] = [
+  [/^(text|application)\/csv/, ".csv"],
+  [/^text\/tab-separated-values/, ".tsv"],
+  [/^application\/(x-)?(ndjson|jsonl|jsonlines)/, ".ndjson"],
+  [/[/+]json/, ".json"],
+  [/spreadsheetml\.sheet/, ".xlsx"],
+  [/html/, ".html"],
+  [/[/+]xml/, ".xml"],
+  [/parquet/, ".parquet"],
+  [/arrow\.stream/, ".arrows"],
+  [/arrow/, ".arrow"],
+  [/^text\/plain/, ".txt"],
+]
+
+/**
+ * Downloads a file, reporting progress as the body streams in. Gzipped bodies are expanded,
+ * and a name without a known extension gets one from the body's signature or Content-Type
+ * so the file can be parsed like an upload. Files over `maxBytes` are refused.
+ */
+export async function fetchRemoteFile(
+  url: string,
+  onProgress: DownloadProgressHandler,
+  init: RemoteRequestInit = {},
+): Promise<RemoteFile | null> {
+  const response = await fetchResponse(url, init)
+  if (response.status === 304) return null
+
+  // Content-Length counts compressed bytes when the server compresses the transfer, so it is only a guide
+  const total = Number(response.headers.get("content-length")) || 0
+  const maxBytes = init.maxBytes ?? MAX_REMOTE_BYTES
+  const tooLarge = () => new Error(`The file is larger than the ${formatLimit(maxBytes)} limit`)
+  if (total > maxBytes) {
+    await response.body?.cancel()
+    throw tooLarge()
+  }
+
+  const chunks: Uint8Array[] = []
+  let loaded = 0
+  if (response.body) {
+    const reader = response.body.getReader()
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      loaded += value.length
+      if (loaded > maxBytes) {
+        await reader.cancel()
+        throw tooLarge()
+      }
+      chunks.push(value)
+      onProgress(loaded, Math.max(total, loaded))
+    }
+  }
+
+  let bytes = concatBytes(chunks)
+  let name = fileNameFromResponse(response, url)
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    bytes = await decompress(bytes, "gzip")
+    name = name.replace(/\.gz$/i, "")
+  }
+  if (!AUTO_IMPORT_FILE.test(name) && !/\.zip$/i.test(name)) {
+    name += await detectExtension(bytes, response.headers.get("content-type") ?? "")
+  }
+
+  const file = new File([bytes], name, { type: response.headers.get("content-type") ?? "" })
+  return { file, validators: readValidators(response) }
+}
+
+/**
+ * Fetches directly and falls back to the app's proxy route when that fails, throwing a
+ * readable message for error statuses. Browsers report a missing CORS header as a plain
+ * network error, so any TypeError is retried; if the proxy is unreachable too (as in a
+ * static export), the original error is rethrown.
+ */
+export async function fetchResponse(url: string, init: RemoteRequestInit): Promise<Response> {
+  const { signal, validators } = init
+  const headers = [...(init.headers ?? [])]
+  if (validators?.etag) headers.push(["If-None-Match", validators.etag])
+  if (validators?.lastModified) headers.push(["If-Modified-Since", validators.lastModified])
+  let response: Response
+  try {
+    response = await fetch(url, { headers, signal })
+  } catch (error) {
+    if (!(error instanceof TypeError) || signal?.aborted || typeof window === "undefined") throw error
+    try {
+      // The proxy sends x-forward-* headers on to the target without the prefix
+      const forwarded = headers.map(([name, value]): [string, string] => [`x-forward-${name}`, value])
+      response = await fetch(`${PROXY_ENDPOINT}?url=${encodeURIComponent(url)}`, { headers: forwarded, signal })
+    } catch (proxyError) {
+      throw proxyError instanceof TypeError ? error : proxyError
+    }
+  }
+
+  // Refusals by the proxy itself carry their reason, while upstream errors keep their status
+  if (!response.ok && response.status !== 304) {
+    throw new Error(response.headers.get("x-proxy-error") ?? describeHttpError(response))
+  }
+  return response
+}
+
+export function readValidators(response: Response): CacheValidators {
+  return {
+    etag: response.headers.get("etag") ?? undefined,
+    lastModified: response.headers.get("last-modified") ?? undefined,
+  }
+}
+
+/** The address a response was finally served from, after redirects and the proxy */
+export function finalResponseUrl(response: Response, requestedUrl: string): string {
+  return response.headers.get("x-proxy-final-url") ?? (response.url || requestedUrl)
+}
+
+function describeHttpError(response: Response): string {
+  const status = `HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ""}`
+  if (response.status === 401 || response.status === 403) {
+    return `${status}: the server refused access. The file may be private or need a sign-in or API key.`
+  }
+  if (response.status === 404 || response.status === 410) return `${status}: there is no file at this address.`
+  if (response.status === 429) return `${status}: the server is limiting requests. Try again later.`
+  if (response.status >= 500) return `${status}: the server could not deliver the file. Try again later.`
+  return `The server responded with ${status}.`
+}
+
+function fileNameFromResponse(response: Response, url: string): string {
+  const disposition = response.headers.get("content-disposition") ?? ""
+  const encoded = disposition.match(/filename\*\s*=\s*(?:UTF-8|utf-8)''([^;]+)/)?.[1]
+  const quoted = disposition.match(/filename\s*=\s*"([^"]+)"|filename\s*=\s*([^;\s]+)/)
+  const fromHeader = encoded ? safeDecode(encoded) : (quoted?.[1] ?? quoted?.[2])
+  if (fromHeader) return fromHeader.replace(/^.*[\\/]/, "")
+
+  // The final address after redirects usually names the file best; the proxy reports it in a header
+  const segment = new URL(finalResponseUrl(response, url)).pathname.split("/").filter(Boolean).pop()
+  return segment ? safeDecode(segment) : "download"
+}
+
+/**
+ * Chooses the extension a downloaded file is parsed by: from its signature, then its markup,
+ * then its Content-Type, and last from what its text looks like. A ZIP archive is a workbook
+ * only when it holds `xl/workbook.xml`. Throws when nothing matches.
+ */
+export async function detectExtension(bytes: Uint8Array, contentType: string): Promise<string> {
+  const head = String.fromCharCode(...bytes.subarray(0, 32))
+  if (head.startsWith("PK\x03\x04")) {
+    const archive = await ZipArchive.open(new Blob([bytes]))
+    return archive.entries.some((entry) => entry.name === "xl/workbook.xml") ? ".xlsx" : ".zip"
+  }
+  for (const [signature, extension] of SIGNATURES) {
+    if (head.startsWith(signature)) return extension
+  }
+
+  const text = new TextDecoder().decode(bytes.subarray(0, 4096), { stream: true }).trimStart()
+  if (/^<(!doctype html|html|table)\b/i.test(text)) return ".html"
+
+  const type = contentType.toLowerCase()
+  for (const [pattern, extension] of CONTENT_TYPES) {
+    if (pattern.test(type)) return extension
+  }
+
+  // Unlabelled text: JSON starts with a bracket, JSON Lines has one object per line, and a
+  // delimited file has text only, with a delimiter in its first line
+  if (/^\{[^\n]*\}\r?\n\s*\{/.test(text)) return ".ndjson"
+  if (text.startsWith("{") || text.startsWith("[")) return ".json"
+  if (!/[\x00-\x08\x0e-\x1f\ufffd]/.test(text) && /^[^\n]*[,;\t|]/.test(text)) return ".csv"
+  throw new Error("The file's format could not be recognised from its contents or Content-Type")
+}
+
+function formatLimit(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${Math.round(bytes / (1024 * 1024))} MB` : `${Math.ceil(bytes / 1024)} KB`
+}
+
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text)
+  } catch {
+    return text
+  }
+}
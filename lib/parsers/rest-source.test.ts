@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import {
+  DEFAULT_PAGINATION,
+  fetchRestRecords,
+  type PaginationStrategy,
+  type RestSourceOptions,
+} from "@/lib/parsers/rest-source"
+
+const items = Array.from({ length: 57 }, (_, id) => ({ id }))
+
+// Answers each request from the handler and records the URLs asked for
+function serve(handler: (url: URL) => { body: unknown; headers?: Record<string, string> }) {
+  const requested: string[] = []
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string) => {
+      requested.push(url)
+      const { body, headers } = handler(new URL(url))
+      return new Response(JSON.stringify(body), { headers })
+    }),
+  )
+  return requested
+}
+
+const fetchAll = (pagination: PaginationStrategy, overrides: Partial<RestSourceOptions> = {}) =>
+  fetchRestRecords(
+    {
+      url: "https://api.example/items",
+      headers: [],
+      params: [],
+      recordsPath: "",
+      pagination,
+      maxPages: 20,
+      ...overrides,
+    },
+    () => {},
+  )
+
+const tenPerPage: PaginationStrategy = { kind: "page", param: "page", start: 1, sizeParam: "per_page", size: 10 }
+
+const ids = (records: unknown[] | undefined) => records?.map((record) => (record as { id: number }).id)
+
+describe("fetchRestRecords", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("keeps paging when the API returns smaller pages than requested", async () => {
+    // Asked for 100 per page, the API sends at most 25
+    const requested = serve((url) => {
+      const page = Number(url.searchParams.get("page"))
+      return { body: { data: items.slice((page - 1) * 25, page * 25) } }
+    })
+    const result = await fetchAll(DEFAULT_PAGINATION.page)
+    expect(ids(result?.records)).toEqual(items.map((item) => item.id))
+    expect(result?.pages).toBe(3)
+    expect(result?.truncated).toBe(false)
+    expect(requested[0]).toBe("https://api.example/items?page=1&per_page=100")
+  })
+
+  it("stops at an empty page", async () => {
+    const requested = serve((url) => {
+      const page = Number(url.searchParams.get("page"))
+      return { body: page <= 2 ? items.slice((page - 1) * 10, page * 10) : [] }
+    })
+    const result = await fetchAll(tenPerPage)
+    expect(result?.records).toHaveLength(20)
+    expect(requested).toHaveLength(3)
+  })
+
+  it("moves the offset by the records received", async () => {
+    const requested = serve((url) => {
+      const offset = Number(url.searchParams.get("offset"))
+      return { body: { results: items.slice(offset, offset + 20) } }
+    })
+    const result = await fetchAll(DEFAULT_PAGINATION.offset)
+    expect(ids(result?.records)).toEqual(items.map((item) => item.id))
+    expect(requested.map((url) => new URL(url).searchParams.get("offset"))).toEqual(["0", "20", "40"])
+  })
+
+  it("follows cursors, whether tokens or full URLs, until none is given", async () => {
+    const requested = serve((url) => {
+      const cursor = url.searchParams.get("cursor")
+      const pages: Record<string, unknown> = {
+        "": { items: items.slice(0, 2), next_cursor: "abc" },
+        abc: { items: items.slice(2, 4), next_cursor: "https://api.example/items?cursor=def" },
+        def: { items: items.slice(4, 5), next_cursor: null },
+      }
+      return { body: pages[cursor ?? ""] }
+    })
+    const result = await fetchAll(DEFAULT_PAGINATION.cursor)
+    expect(ids(result?.records)).toEqual([0, 1, 2, 3, 4])
+    expect(requested).toEqual([
+      "https://api.example/items",
+      "https://api.example/items?cursor=abc",
+      "https://api.example/items?cursor=def",
+    ])
+  })
+
+  it("follows next links until a response has none", async () => {
+    serve((url) => {
+      const page = Number(url.searchParams.get("p") ?? 1)
+      const next = page < 3 ? { link: `</items?p=${page + 1}>; rel="next", </items?p=1>; rel="first"` } : undefined
+      return { body: items.slice((page - 1) * 5, page * 5), headers: next }
+    })
+    const result = await fetchAll(DEFAULT_PAGINATION.link)
+    expect(result?.records).toHaveLength(15)
+    expect(result?.pages).toBe(3)
+  })
+
+  it("stops after the page limit and reports that more pages exist", async () => {
+    const requested = serve((url) => {
+      const page = Number(url.searchParams.get("page"))
+      return { body: items.slice((page - 1) * 10, page * 10) }
+    })
+    const result = await fetchAll(tenPerPage, { maxPages: 2 })
+    expect(result?.records).toHaveLength(20)
+    expect(result?.truncated).toBe(true)
+    expect(requested).toHaveLength(2)
+  })
+
+  it("stops when the next address is the one just requested", async () => {
+    const requested = serve(() => ({ body: items.slice(0, 5), headers: { link: '</items>; rel="next"' } }))
+    const result = await fetchAll(DEFAULT_PAGINATION.link)
+    expect(result?.records).toHaveLength(5)
+    expect(requested).toHaveLength(1)
+  })
+})
@@ -0,0 +1,156 @@
+import { JsonParser, selectRecords } from "@/lib/parsers/json-parser"
+import { fetchResponse, finalResponseUrl, readValidators, type CacheValidators } from "@/lib/parsers/remote-file"
+
+export type PaginationStrategy =
+  | { kind: "none" }
+  /** Page numbers in `param`, optionally with the page size in `sizeParam` */
+  | { kind: "page"; param: string; start: number; sizeParam: string; size: number }
+  | { kind: "offset"; param: string; limitParam: string; limit: number }
+  /** The next cursor, or the full next-page URL, is read from the response at `cursorPath` */
+  | { kind: "cursor"; param: string; cursorPath: string }
+  /** Follows `rel="next"` in the Link header */
+  | { kind: "link" }
+
+export interface RestSourceOptions {
+  url: string
+  headers: [string, string][]
+  params: [string, string][]
+  /** JSONPath to the records in each response; empty uses the largest array of the first page */
+  recordsPath: string
+  pagination: PaginationStrategy
+  maxPages: number
+}
+
+export interface RestFetchResult {
+  records: unknown[]
+  pages: number
+  /** Characters received across all pages */
+  bytes: number
+  /** The API had more pages than `maxPages` */
+  truncated: boolean
+  /** Validators of the first page, which only describe the whole result for a single request */
+  validators: CacheValidators
+}
+
+export type RestPageHandler = (pages: number, records: number) => void
+
+export const DEFAULT_PAGINATION: Record<PaginationStrategy["kind"], PaginationStrategy> = {
+  none: { kind: "none" },
+  page: { kind: "page", param: "page", start: 1, sizeParam: "per_page", size: 100 },
+  offset: { kind: "offset", param: "offset", limitParam: "limit", limit: 100 },
+  cursor: { kind: "cursor", param: "cursor", cursorPath: "$.next_cursor" },
+  link: { kind: "link" },
+}
+
+/**
+ * Requests every page of a JSON API and concatenates the records. Paging stops at an empty
+ * page, a page shorter than the first, a missing cursor or next link, or after `maxPages`
+ * requests. With validators the first request is conditional, and a 304 answer resolves to null.
+ */
+export async function fetchRestRecords(
+  options: RestSourceOptions,
+  onPage: RestPageHandler,
+  signal?: AbortSignal,
+  validators?: CacheValidators,
+): Promise<RestFetchResult | null> {
+  const { pagination } = options
+  // Rows left blank in the form, such as an unused Authorization header, are not sent
+  const headers = options.headers
+    .filter(([name, value]) => name.trim() && value)
+    .map(([name, value]): [string, string] => [name.trim(), value])
+  const records: unknown[] = []
+  let recordsPath = options.recordsPath.trim()
+  let nextUrl: string | null = buildPageUrl(options, 0, 0, null)
+  let pages = 0
+  // APIs may ignore the requested size and use their own, so pages are measured against the first
+  let pageSize = 0
+  let bytes = 0
+  let firstValidators: CacheValidators = {}
+
+  while (nextUrl && pages < options.maxPages) {
+    const requestedUrl: string = nextUrl
+    const response = await fetchResponse(requestedUrl, {
+      headers,
+      signal,
+      validators: pages === 0 ? validators : undefined,
+    })
+    if (response.status === 304) return null
+    if (pages === 0) firstValidators = readValidators(response)
+    const text = await response.text()
+    const { value } = JsonParser.read(text)
+    pages++
+    bytes += text.length
+
+    if (!recordsPath) {
+      recordsPath = Array.isArray(value) ? "$" : (JsonParser.findArrays(value)[0]?.path ?? "$")
+    }
+    const pageRecords = selectRecords(value, recordsPath)
+    records.push(...pageRecords)
+    onPage(pages, records.length)
+    if (pages === 1) pageSize = pageRecords.length
+    const lastPage = pageRecords.length === 0 || pageRecords.length < pageSize
+
+    switch (pagination.kind) {
+      case "none":
+        nextUrl = null
+        break
+      case "page":
+      case "offset":
+        nextUrl = lastPage ? null : buildPageUrl(options, pages, records.length, null)
+        break
+      case "cursor": {
+        const cursor = selectRecords(value, pagination.cursorPath)[0]
+        if (cursor === null || cursor === undefined || cursor === "" || pageRecords.length === 0) {
+          nextUrl = null
+        } else if (typeof cursor === "string" && /^https?:\/\//i.test(cursor)) {
+          nextUrl = cursor
+        } else {
+          nextUrl = buildPageUrl(options, pages, records.length, String(cursor))
+        }
+        break
+      }
+      case "link": {
+        const next = findNextLink(response.headers.get("link") ?? "")
+        nextUrl = next ? new URL(next, finalResponseUrl(response, requestedUrl)).href : null
+        break
+      }
+    }
+    // A server that keeps answering with the same address would otherwise be asked maxPages times
+    if (nextUrl === requestedUrl) nextUrl = null
+  }
+
+  return { records, pages, bytes, truncated: nextUrl !== null, validators: firstValidators }
+}
+
+/** `offset` counts the records received so far, which an API with a smaller page size than asked for needs */
+function buildPageUrl(options: RestSourceOptions, pageIndex: number, offset: number, cursor: string | null): string {
+  const url = new URL(options.url)
+  for (const [name, value] of options.params) {
+    if (name.trim()) url.searchParams.set(name.trim(), value)
+  }
+
+  const { pagination } = options
+  switch (pagination.kind) {
+    case "page":
+      url.searchParams.set(pagination.param, String(pagination.start + pageIndex))
+      if (pagination.sizeParam) url.searchParams.set(pagination.sizeParam, String(pagination.size))
+      break
+    case "offset":
+      url.searchParams.set(pagination.param, String(offset))
+      url.searchParams.set(pagination.limitParam, String(pagination.limit))
+      break
+    case "cursor":
+      if (cursor !== null) url.searchParams.set(pagination.param, cursor)
+      break
+  }
+  return url.href
+}
+
+/** Reads the `rel="next"` target of a Link header, e.g. `<https://api/items?page=2>; rel="next"` */
+function findNextLink(header: string): string | null {
+  for (const match of header.matchAll(/<([^>]*)>((?:\s*;\s*[^;,]*)*)/g)) {
+    const rel = match[2].match(/;\s*rel\s*=\s*"?([^";]*)"?/i)?.[1] ?? ""
+    if (rel.toLowerCase().split(/\s+/).includes("next")) return match[1]
+  }
+  return null
+}
@@ -0,0 +1,71 @@
+/**
+ * Decompresses a raw Snappy block (no framing), the codec Parquet writers use by default.
+ */
+export function snappyDecompress(input: Uint8Array, expectedLength?: number): Uint8Array {
+  let position = 0
+  let length = 0
+  let shift = 0
+  for (;;) {
+    const byte = input[position++]
+    length += (byte & 0x7f) * 2 ** shift
+    if ((byte & 0x80) === 0) break
+    shift += 7
+  }
+  if (expectedLength !== undefined && length !== expectedLength) {
+    throw new Error(`Snappy block expands to ${length} bytes, expected ${expectedLength}`)
+  }
+
+  const output = new Uint8Array(length)
+  let outPosition = 0
+
+  while (position < input.length) {
+    const tag = input[position++]
+    const kind = tag & 0x03
+
+    if (kind === 0) {
+      // Literal: short lengths live in the tag, longer ones in the next 1-4 bytes
+      let literalLength = tag >> 2
+      if (literalLength >= 60) {
+        const bytes = literalLength - 59
+        literalLength = 0
+        for (let i = 0; i < bytes; i++) literalLength += input[position++] * 2 ** (8 * i)
+      }
+      literalLength++
+      if (position + literalLength > input.length || outPosition + literalLength > length) {
+        throw new Error("Snappy literal runs past the end of the block")
+      }
+      output.set(input.subarray(position, position + literalLength), outPosition)
+      position += literalLength
+      outPosition += literalLength
+      continue
+    }
+
+    let copyLength: number
+    let offset: number
+    if (kind === 1) {
+      copyLength = ((tag >> 2) & 0x07) + 4
+      offset = ((tag >> 5) << 8) | input[position++]
+    } else if (kind === 2) {
+      copyLength = (tag >> 2) + 1
+      offset = input[position] | (input[position + 1] << 8)
+      position += 2
+    } else {
+      copyLength = (tag >> 2) + 1
+      offset =
+        (input[position] | (input[position + 1] << 8) | (input[position + 2] << 16) | (input[position + 3] << 24)) >>> 0
+      position += 4
+    }
+
+    if (offset === 0 || offset > outPosition || outPosition + copyLength > length) {
+      throw new Error("Invalid Snappy back-reference")
+    }
+    // Copies may overlap their own output, so they go byte by byte
+    for (let i = 0; i < copyLength; i++) {
+      output[outPosition] = output[outPosition - offset]
+      outPosition++
+    }
+  }
+
+  if (outPosition !== length) throw new Error("Snappy block ended early")
+  return output
+}
@@ -0,0 +1,115 @@
+import { CsvTokenizer } from "@/lib/parsers/csv-parser"
+import { detectTableLayout, type TableLayout } from "@/lib/parsers/table-layout"
+
+export interface TextImportOptions extends TableLayout {
+  encoding: string
+  delimiter: string
+  quoteChar: string
+  decimalSeparator: "." | ","
+}
+
+export const SNIFF_SAMPLE_BYTES = 64 * 1024
+const DELIMITER_CANDIDATES = [",", ";", "\t", "|"]
+const QUOTE_CANDIDATES = ['"', "'"]
+const SNIFF_MAX_RECORDS = 50
+
+/**
+ * Guesses the encoding, delimiter, quote character, decimal separator and table layout of
+ * a delimited text file from its first bytes. `totalSize` tells whether the bytes are the
+ * whole file, which is also when footer notes can be recognised.
+ */
+export function sniffTextFile(bytes: Uint8Array, totalSize = bytes.length): TextImportOptions {
+  const sample = bytes.subarray(0, SNIFF_SAMPLE_BYTES)
+  const encoding = detectEncoding(sample)
+  const text = decodeText(sample, encoding)
+  const complete = sample.length >= totalSize
+  const quoteChar = detectQuoteChar(text)
+  const delimiter = detectDelimiter(text, quoteChar, complete)
+  const records = sampleRecords(text, delimiter, quoteChar, complete)
+  const decimalSeparator = detectDecimalSeparator(records.slice(0, SNIFF_MAX_RECORDS))
+  // Footers sit at the end, so a whole file is examined in full
+  const layout = detectTableLayout(complete ? records : records.slice(0, SNIFF_MAX_RECORDS), complete)
+
+  return { encoding, delimiter, quoteChar, decimalSeparator, ...layout }
+}
+
+export function detectEncoding(bytes: Uint8Array): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8"
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le"
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be"
+
+  // UTF-16 without a byte order mark: ASCII text leaves every other byte empty
+  let evenZeros = 0
+  let oddZeros = 0
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] === 0) i % 2 === 0 ? evenZeros++ : oddZeros++
+  }
+  const pairs = bytes.length / 2
+  if (pairs > 0 && oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return "utf-16le"
+  if (pairs > 0 && evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return "utf-16be"
+
+  try {
+    // Streaming mode tolerates a multi-byte character cut off at the end of the sample
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true })
+    return "utf-8"
+  } catch {
+    return "windows-1252"
+  }
+}
+
+export function decodeText(bytes: Uint8Array, encoding: string): string {
+  return new TextDecoder(encoding).decode(bytes)
+}
+
+function detectQuoteChar(text: string): string {
+  const counts = QUOTE_CANDIDATES.map((quote) => {
+    const pattern = new RegExp(`(^|[,;\\t|])${quote}[^${quote}\\n]*${quote}(?=[,;\\t|]|\\r?$)`, "gm")
+    return text.match(pattern)?.length ?? 0
+  })
+  return counts[1] > counts[0] ? QUOTE_CANDIDATES[1] : QUOTE_CANDIDATES[0]
+}
+
+function detectDelimiter(text: string, quoteChar: string, complete: boolean): string {
+  let best = { delimiter: ",", score: -1 }
+
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const fieldCounts = sampleRecords(text, delimiter, quoteChar, complete)
+      .slice(0, SNIFF_MAX_RECORDS)
+      .map((fields) => fields.length)
+    if (fieldCounts.length === 0) continue
+
+    const frequencies = new Map<number, number>()
+    for (const count of fieldCounts) frequencies.set(count, (frequencies.get(count) || 0) + 1)
+    const [modeCount, modeFrequency] = Array.from(frequencies).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0]
+    if (modeCount < 2) continue
+
+    // Consistent field counts matter most; more columns breaks ties
+    const score = (modeFrequency / fieldCounts.length) * 1000 + Math.min(modeCount, 100)
+    if (score > best.score) best = { delimiter, score }
+  }
+
+  return best.delimiter
+}
+
+function detectDecimalSeparator(records: string[][]): "." | "," {
+  let commaDecimals = 0
+  let dotDecimals = 0
+
+  for (const fields of records) {
+    for (const field of fields) {
+      const value = field.trim()
+      if (/^[+-]?(\d{1,3}(\.\d{3})+|\d+),\d+$/.test(value)) commaDecimals++
+      else if (/^[+-]?(\d{1,3}(,\d{3})+|\d+)\.\d+$/.test(value)) dotDecimals++
+    }
+  }
+
+  return commaDecimals > dotDecimals ? "," : "."
+}
+
+function sampleRecords(text: string, delimiter: string, quoteChar: string, complete: boolean): string[][] {
+  const tokenizer = new CsvTokenizer(delimiter, quoteChar)
+  const records = tokenizer.push(text)
+  // The last record of a partial sample may be cut off, so it is only flushed for whole files
+  if (complete) records.push(...tokenizer.flush())
+  return records.map((record) => record.fields)
+}
@@ -0,0 +1,495 @@
+import { BinaryReader, concatBytes, createTextDecoder, trimmedLength } from "@/lib/parsers/binary-reader"
+import { makeUniqueColumnNames } from "@/lib/parsers/columns"
+import { decompress } from "@/lib/parsers/compression"
+import type { ColumnMetadata, MissingValueSpec, ParsedTable } from "@/lib/parsers/types"
+
+interface VariableRecord {
+  width: number
+  slot: number
+  shortName: Uint8Array
+  label?: Uint8Array
+  printFormat: number
+  missingCount: number
+  missingRaw: Uint8Array[]
+}
+
+interface Variable {
+  record: VariableRecord
+  width: number
+  segments: VariableRecord[]
+  name: string
+  meta: ColumnMetadata
+}
+
+const SPSS_EPOCH_OFFSET_SECONDS = 12219379200
+
+const FORMAT_NAMES: Record<number, string> = {
+  1: "A",
+  2: "AHEX",
+  3: "COMMA",
+  4: "DOLLAR",
+  5: "F",
+  6: "IB",
+  7: "PIBHEX",
+  8: "P",
+  9: "PIB",
+  10: "PK",
+  11: "RB",
+  12: "RBHEX",
+  15: "Z",
+  16: "N",
+  17: "E",
+  20: "DATE",
+  21: "TIME",
+  22: "DATETIME",
+  23: "ADATE",
+  24: "JDATE",
+  25: "DTIME",
+  26: "WKDAY",
+  27: "MONTH",
+  28: "MOYR",
+  29: "QYR",
+  30: "WKYR",
+  31: "PCT",
+  32: "DOT",
+  38: "EDATE",
+  39: "SDATE",
+  41: "YMDHMS",
+}
+
+const DATE_FORMATS = new Set([20, 23, 24, 28, 29, 30, 38, 39])
+const DATETIME_FORMATS = new Set([22, 41])
+
+const CODE_PAGES: Record<number, string> = {
+  2: "ascii",
+  20127: "ascii",
+  65001: "utf-8",
+  932: "shift_jis",
+  936: "gbk",
+  949: "euc-kr",
+  950: "big5",
+}
+
+/**
+ * Reader for SPSS system files (.sav and zlib-compressed .zsav). Variable labels, value
+ * labels and user-defined missing values are returned as column metadata.
+ */
+export class SpssParser {
+  static async parse(buffer: ArrayBuffer): Promise<ParsedTable> {
+    const reader = new BinaryReader(buffer)
+    const signature = new TextDecoder("ascii").decode(reader.read(4))
+    if (signature !== "$FL2" && signature !== "$FL3") throw new Error("Not an SPSS system file")
+
+    reader.skip(60)
+    const layoutCode = reader.peekInt32()
+    if (layoutCode !== 2 && layoutCode !== 3) {
+      reader.littleEndian = false
+    }
+    reader.skip(4)
+    reader.int32() // nominal case size
+    const compression = reader.int32()
+    reader.int32() // weight index
+    const caseCount = reader.int32()
+    const bias = reader.float64()
+    reader.skip(9 + 8 + 64 + 3)
+
+    const records: VariableRecord[] = []
+    const valueLabelSets: { labels: { value: Uint8Array; label: Uint8Array }[]; slots: number[] }[] = []
+    const extensions = new Map<number, Uint8Array[]>()
+    let slot = 0
+
+    dictionary: while (true) {
+      const recordType = reader.int32()
+
+      switch (recordType) {
+        case 2: {
+          const width = reader.int32()
+          const hasLabel = reader.int32()
+          const missingCount = reader.int32()
+          const printFormat = reader.int32()
+          reader.int32() // write format
+          const shortName = reader.read(8)
+          let label: Uint8Array | undefined
+
+          if (hasLabel) {
+            const labelLength = reader.int32()
+            label = reader.read(labelLength)
+            reader.skip((4 - (labelLength % 4)) % 4)
+          }
+
+          const missingRaw: Uint8Array[] = []
+          for (let i = 0; i < Math.abs(missingCount); i++) missingRaw.push(reader.read(8))
+
+          if (width !== -1) {
+            records.push({ width, slot, shortName, label, printFormat, missingCount, missingRaw })
+          }
+          slot++
+          break
+        }
+
+        case 3: {
+          const labelCount = reader.int32()
+          const labels: { value: Uint8Array; label: Uint8Array }[] = []
+          for (let i = 0; i < labelCount; i++) {
+            const value = reader.read(8)
+            const labelLength = reader.uint8()
+            const label = reader.read(labelLength)
+            reader.skip((8 - ((labelLength + 1) % 8)) % 8)
+            labels.push({ value, label })
+          }
+
+          if (reader.int32() !== 4) throw new Error("Value labels are not followed by a variable index record")
+          const variableCount = reader.int32()
+          const slots: number[] = []
+          for (let i = 0; i < variableCount; i++) slots.push(reader.int32() - 1)
+          valueLabelSets.push({ labels, slots })
+          break
+        }
+
+        case 6: {
+          const lineCount = reader.int32()
+          reader.skip(lineCount * 80)
+          break
+        }
+
+        case 7: {
+          const subtype = reader.int32()
+          const size = reader.int32()
+          const count = reader.int32()
+          const data = reader.read(size * count)
+          extensions.set(subtype, [...(extensions.get(subtype) || []), data])
+          break
+        }
+
+        case 999:
+          reader.int32()
+          break dictionary
+
+        default:
+          throw new Error(`Unknown SPSS dictionary record type ${recordType}`)
+      }
+    }
+
+    const decoder = createTextDecoder(detectEncoding(extensions, reader.littleEndian))
+    const decode = (bytes: Uint8Array) => decoder.decode(bytes.subarray(0, trimmedLength(bytes))).trim()
+
+    const floatInfo = extensions.get(4)?.[0]
+    const systemMissing = floatInfo ? readFloat(floatInfo, 0, reader.littleEndian) : -Number.MAX_VALUE
+
+    const variables = buildVariables(records, extensions, decode, reader.littleEndian)
+    applyValueLabels(variables, valueLabelSets, decode, reader.littleEndian)
+    applyLongStringExtensions(variables, extensions, decode, reader.littleEndian)
+
+    const columns = makeUniqueColumnNames(variables.map((variable) => variable.name))
+    const slotCount = slot
+
+    let caseData: BinaryReader = reader
+    if (compression === 2) {
+      caseData = new BinaryReader(await inflateZsavData(reader))
+    }
+
+    const data: Record<string, any>[] = []
+    const slotReader = compression === 0 ? uncompressedSlots(caseData) : bytecodeSlots(caseData, bias)
+
+    while (caseCount < 0 || data.length < caseCount) {
+      const slots: (Uint8Array | number | null)[] = []
+      for (let i = 0; i < slotCount; i++) {
+        const next = slotReader()
+        if (next === undefined) break
+        slots.push(next)
+      }
+      if (slots.length < slotCount) break
+
+      const row: Record<string, any> = {}
+      variables.forEach((variable, index) => {
+        row[columns[index]] = readValue(variable, slots, systemMissing, decoder, reader.littleEndian)
+      })
+      data.push(row)
+    }
+
+    const columnMeta: Record<string, ColumnMetadata> = {}
+    variables.forEach((variable, index) => {
+      columnMeta[columns[index]] = variable.meta
+    })
+
+    return { columns, data, errors: [], columnMeta }
+  }
+}
+
+function detectEncoding(extensions: Map<number, Uint8Array[]>, littleEndian: boolean): string | undefined {
+  const encodingRecord = extensions.get(20)?.[0]
+  if (encodingRecord) return new TextDecoder("ascii").decode(encodingRecord).trim()
+
+  const integerInfo = extensions.get(3)?.[0]
+  if (!integerInfo || integerInfo.length < 32) return undefined
+
+  const codePage = new DataView(integerInfo.buffer, integerInfo.byteOffset).getInt32(28, littleEndian)
+  if (CODE_PAGES[codePage]) return CODE_PAGES[codePage]
+  if (codePage >= 28591 && codePage <= 28605) return `iso-8859-${codePage - 28590}`
+  if (codePage >= 874 && codePage <= 1258) return `windows-${codePage}`
+  return undefined
+}
+
+function buildVariables(
+  records: VariableRecord[],
+  extensions: Map<number, Uint8Array[]>,
+  decode: (bytes: Uint8Array) => string,
+  littleEndian: boolean,
+): Variable[] {
+  const longNames = new Map<string, string>()
+  for (const entry of parseKeyValuePairs(extensions.get(13), decode)) longNames.set(entry[0].toUpperCase(), entry[1])
+
+  const veryLongWidths = new Map<string, number>()
+  for (const [name, width] of parseKeyValuePairs(extensions.get(14), decode)) {
+    veryLongWidths.set(name.toUpperCase(), Number.parseInt(width, 10))
+  }
+
+  const variables: Variable[] = []
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i]
+    const shortName = decode(record.shortName)
+    const veryLongWidth = veryLongWidths.get(shortName.toUpperCase())
+    const segmentCount = veryLongWidth ? Math.ceil(veryLongWidth / 252) : 1
+    const segments = records.slice(i, i + segmentCount)
+    i += segmentCount - 1
+
+    variables.push({
+      record,
+      width: veryLongWidth ?? record.width,
+      segments,
+      name: longNames.get(shortName.toUpperCase()) ?? shortName,
+      meta: {
+        label: record.label ? decode(record.label) : undefined,
+        missingValues: readMissingValues(record, decode, littleEndian),
+        format: formatName(record.printFormat),
+      },
+    })
+  }
+
+  return variables
+}
+
+function parseKeyValuePairs(chunks: Uint8Array[] | undefined, decode: (bytes: Uint8Array) => string): string[][] {
+  if (!chunks) return []
+  return chunks
+    .flatMap((chunk) => decodeRaw(chunk, decode).split("\t"))
+    .map((pair) => pair.replace(/\0/g, "").trim())
+    .filter((pair) => pair.includes("="))
+    .map((pair) => [pair.slice(0, pair.indexOf("=")), pair.slice(pair.indexOf("=") + 1)])
+}
+
+function decodeRaw(bytes: Uint8Array, decode: (bytes: Uint8Array) => string): string {
+  // Key/value extension records contain NUL separators, so decode without trimming at the first NUL.
+  return decode(bytes.map((byte) => (byte === 0 ? 0x09 : byte)))
+}
+
+function readMissingValues(
+  record: VariableRecord,
+  decode: (bytes: Uint8Array) => string,
+  littleEndian: boolean,
+): MissingValueSpec | undefined {
+  if (record.missingCount === 0) return undefined
+
+  if (record.width > 0) {
+    return { values: record.missingRaw.map(decode) }
+  }
+
+  const numbers = record.missingRaw.map((raw) => readFloat(raw, 0, littleEndian))
+  if (record.missingCount > 0) return { values: numbers }
+
+  const spec: MissingValueSpec = { range: { low: numbers[0], high: numbers[1] } }
+  if (record.missingCount === -3) spec.values = [numbers[2]]
+  return spec
+}
+
+function applyValueLabels(
+  variables: Variable[],
+  valueLabelSets: { labels: { value: Uint8Array; label: Uint8Array }[]; slots: number[] }[],
+  decode: (bytes: Uint8Array) => string,
+  littleEndian: boolean,
+) {
+  const bySlot = new Map(variables.map((variable) => [variable.record.slot, variable]))
+
+  for (const { labels, slots } of valueLabelSets) {
+    for (const slot of slots) {
+      const variable = bySlot.get(slot)
+      if (!variable) continue
+
+      const valueLabels = { ...variable.meta.valueLabels }
+      for (const { value, label } of labels) {
+        const key = variable.width > 0 ? decode(value) : String(readFloat(value, 0, littleEndian))
+        valueLabels[key] = decode(label)
+      }
+      variable.meta.valueLabels = valueLabels
+    }
+  }
+}
+
+function applyLongStringExtensions(
+  variables: Variable[],
+  extensions: Map<number, Uint8Array[]>,
+  decode: (bytes: Uint8Array) => string,
+  littleEndian: boolean,
+) {
+  const byShortName = new Map(variables.map((variable) => [decode(variable.record.shortName).toUpperCase(), variable]))
+
+  for (const chunk of extensions.get(21) || []) {
+    const reader = new BinaryReader(chunk.slice().buffer)
+    reader.littleEndian = littleEndian
+    while (reader.remaining > 0) {
+      const variable = byShortName.get(decode(reader.read(reader.int32())).toUpperCase())
+      reader.int32() // width
+      const labelCount = reader.int32()
+      const valueLabels: Record<string, string> = { ...variable?.meta.valueLabels }
+      for (let i = 0; i < labelCount; i++) {
+        const value = decode(reader.read(reader.int32()))
+        valueLabels[value] = decode(reader.read(reader.int32()))
+      }
+      if (variable) variable.meta.valueLabels = valueLabels
+    }
+  }
+
+  for (const chunk of extensions.get(22) || []) {
+    const reader = new BinaryReader(chunk.slice().buffer)
+    reader.littleEndian = littleEndian
+    while (reader.remaining > 0) {
+      const variable = byShortName.get(decode(reader.read(reader.int32())).toUpperCase())
+      const missingCount = reader.uint8()
+      const valueLength = reader.int32()
+      const values: string[] = []
+      for (let i = 0; i < missingCount; i++) values.push(decode(reader.read(valueLength)))
+      if (variable) variable.meta.missingValues = { values }
+    }
+  }
+}
+
+async function inflateZsavData(reader: BinaryReader): Promise<ArrayBuffer> {
+  reader.uint64() // zheader offset
+  const trailerOffset = reader.uint64()
+  reader.uint64() // trailer length
+
+  const trailer = new BinaryReader(reader.buffer)
+  trailer.littleEndian = reader.littleEndian
+  trailer.seek(trailerOffset)
+  trailer.skip(8 + 8 + 4) // bias, zero, block size
+  const blockCount = trailer.int32()
+
+  const blocks: Uint8Array[] = []
+  for (let i = 0; i < blockCount; i++) {
+    trailer.uint64() // uncompressed offset
+    const compressedOffset = trailer.uint64()
+    trailer.int32() // uncompressed size
+    const compressedSize = trailer.int32()
+    const compressed = new Uint8Array(reader.buffer, compressedOffset, compressedSize)
+    blocks.push(await decompress(compressed, "deflate"))
+  }
+
+  const total = blocks.reduce((sum, block) => sum + block.length, 0)
+  const combined = new Uint8Array(total)
+  let offset = 0
+  for (const block of blocks) {
+    combined.set(block, offset)
+    offset += block.length
+  }
+  return combined.buffer
+}
+
+type SlotValue = Uint8Array | number | null
+
+function uncompressedSlots(reader: BinaryReader): () => SlotValue | undefined {
+  return () => (reader.remaining >= 8 ? reader.read(8) : undefined)
+}
+
+const SPACES = new Uint8Array(8).fill(0x20)
+
+function bytecodeSlots(reader: BinaryReader, bias: number): () => SlotValue | undefined {
+  let codes: Uint8Array | null = null
+  let codeIndex = 8
+  let ended = false
+
+  return () => {
+    while (!ended) {
+      if (codeIndex >= 8) {
+        if (reader.remaining < 8) {
+          ended = true
+          break
+        }
+        codes = reader.read(8)
+        codeIndex = 0
+      }
+
+      const code = codes![codeIndex++]
+      switch (code) {
+        case 0:
+          continue
+        case 252:
+          ended = true
+          break
+        case 253:
+          if (reader.remaining < 8) {
+            ended = true
+            break
+          }
+          return reader.read(8)
+        case 254:
+          return SPACES
+        case 255:
+          return null
+        default:
+          return code - bias
+      }
+    }
+    return undefined
+  }
+}
+
+function readValue(
+  variable: Variable,
+  slots: SlotValue[],
+  systemMissing: number,
+  decoder: TextDecoder,
+  littleEndian: boolean,
+): any {
+  if (variable.width === 0) {
+    const slot = slots[variable.record.slot]
+    const value = slot instanceof Uint8Array ? readFloat(slot, 0, littleEndian) : slot
+    if (value === null || value === systemMissing || Number.isNaN(value)) return null
+    return convertNumeric(value, variable.record.printFormat)
+  }
+
+  const parts: Uint8Array[] = []
+  variable.segments.forEach((segment, index) => {
+    const segmentSlots = Math.ceil(segment.width / 8)
+    const bytes = new Uint8Array(segmentSlots * 8)
+    for (let i = 0; i < segmentSlots; i++) {
+      const slot = slots[segment.slot + i]
+      if (slot instanceof Uint8Array) bytes.set(slot, i * 8)
+    }
+    const usable = index < variable.segments.length - 1 ? 252 : segment.width
+    parts.push(bytes.subarray(0, usable))
+  })
+
+  const joined = parts.length === 1 ? parts[0] : concatBytes(parts)
+  return decoder.decode(joined.subarray(0, trimmedLength(joined)))
+}
+
+function convertNumeric(value: number, printFormat: number): number | string {
+  const formatType = (printFormat >> 16) & 0xff
+  if (!DATE_FORMATS.has(formatType) && !DATETIME_FORMATS.has(formatType)) return value
+
+  const iso = new Date((value - SPSS_EPOCH_OFFSET_SECONDS) * 1000).toISOString()
+  return DATE_FORMATS.has(formatType) ? iso.slice(0, 10) : iso.slice(0, 19)
+}
+
+function formatName(printFormat: number): string | undefined {
+  const type = (printFormat >> 16) & 0xff
+  const width = (printFormat >> 8) & 0xff
+  const decimals = printFormat & 0xff
+  const name = FORMAT_NAMES[type]
+  if (!name) return undefined
+  return decimals > 0 ? `${name}${width}.${decimals}` : `${name}${width}`
+}
+
+function readFloat(bytes: Uint8Array, offset: number, littleEndian: boolean): number {
+  return new DataView(bytes.buffer, bytes.byteOffset + offset, 8).getFloat64(0, littleEndian)
+}
@@ -0,0 +1,104 @@
+import type { Database, SqlJsStatic } from "sql.js"
+import { makeUniqueColumnNames } from "@/lib/parsers/columns"
+import type { ParsedTable } from "@/lib/parsers/types"
+
+export interface SqliteObject {
+  name: string
+  type: "table" | "view"
+  /** Counted for tables only, since counting a view runs its query */
+  rowCount: number | null
+}
+
+export type SqliteSelection = { kind: "object"; name: string } | { kind: "query"; name: string; sql: string }
+
+let sqlJs: Promise<SqlJsStatic> | null = null
+
+// SQLite is loaded on first use; its WebAssembly build is emitted as a static asset by the
+// bundler, so no server is involved
+function loadSqlJs(): Promise<SqlJsStatic> {
+  sqlJs ??= import("sql.js").then(({ default: initSqlJs }) =>
+    initSqlJs({ locateFile: () => new URL("sql.js/dist/sql-wasm-browser.wasm", import.meta.url).href }),
+  )
+  return sqlJs
+}
+
+/**
+ * A SQLite database opened in memory with sql.js. Tables and views are listed up front;
+ * their rows, or the result of a custom SELECT, are read on demand.
+ */
+export class SqliteDatabase {
+  private constructor(
+    private readonly database: Database,
+    readonly objects: SqliteObject[],
+  ) {}
+
+  static async open(blob: Blob): Promise<SqliteDatabase> {
+    const bytes = new Uint8Array(await blob.arrayBuffer())
+    if (new TextDecoder().decode(bytes.subarray(0, 15)) !== "SQLite format 3") {
+      throw new Error("The file is not a SQLite database")
+    }
+    // Databases in WAL mode cannot be opened without their -wal file; the main file on its own
+    // holds every checkpointed change, so it is read as a rollback-journal database instead
+    if (bytes[18] === 2) bytes[18] = bytes[19] = 1
+
+    const database = new (await loadSqlJs()).Database(bytes)
+    try {
+      const listed = database.exec(
+        "SELECT name, type FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' ORDER BY type, name",
+      )
+      const objects = (listed[0]?.values ?? []).map(([name, type]) => ({
+        name: String(name),
+        type: type as SqliteObject["type"],
+        rowCount:
+          type === "table"
+            ? Number(database.exec(`SELECT count(*) FROM ${quoteIdentifier(String(name))}`)[0].values[0][0])
+            : null,
+      }))
+      return new SqliteDatabase(database, objects)
+    } catch (error) {
+      database.close()
+      throw error
+    }
+  }
+
+  read(selection: SqliteSelection, maxRows = Infinity): ParsedTable {
+    if (selection.kind === "object") {
+      return this.runQuery(`SELECT * FROM ${quoteIdentifier(selection.name)}`, maxRows)
+    }
+    if (!/^\s*(select|with|values)\b/i.test(selection.sql)) throw new Error("Only SELECT queries can be loaded")
+    return this.runQuery(selection.sql, maxRows)
+  }
+
+  close() {
+    this.database.close()
+  }
+
+  private runQuery(sql: string, maxRows: number): ParsedTable {
+    const statement = this.database.prepare(sql)
+    try {
+      // Queries can return the same name twice (e.g. `SELECT a.id, b.id`), which rows cannot hold
+      const columns = makeUniqueColumnNames(statement.getColumnNames())
+      const data: Record<string, any>[] = []
+      while (data.length < maxRows && statement.step()) {
+        const values = statement.get()
+        const row: Record<string, any> = {}
+        columns.forEach((column, index) => {
+          const value = values[index]
+          row[column] = value instanceof Uint8Array ? toHex(value) : value
+        })
+        data.push(row)
+      }
+      return { columns, data, errors: [] }
+    } finally {
+      statement.free()
+    }
+  }
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
@@ -0,0 +1,392 @@
+import { BinaryReader, createTextDecoder } from "@/lib/parsers/binary-reader"
+import { makeUniqueColumnNames } from "@/lib/parsers/columns"
+import type { ColumnMetadata, ParsedTable } from "@/lib/parsers/types"
+
+type StataType =
+  { kind: "str"; width: number } | { kind: "strl" } | { kind: "byte" | "int" | "long" | "float" | "double" }
+
+interface StataVariable {
+  name: string
+  type: StataType
+  format: string
+  valueLabelName: string
+  label: string
+}
+
+interface StataLayout {
+  release: number
+  nameLength: number
+  formatLength: number
+  labelLength: number
+}
+
+const STATA_EPOCH = Date.UTC(1960, 0, 1)
+const MISSING_LETTERS = "abcdefghijklmnopqrstuvwxyz"
+
+/**
+ * Reader for Stata .dta files from release 114 (Stata 10) to 119 (Stata 15+). Extended
+ * missing values (.a to .z) are kept as their codes and listed as missing in the column
+ * metadata so value labels attached to them still resolve.
+ */
+export class StataParser {
+  static parse(buffer: ArrayBuffer): ParsedTable {
+    const reader = new BinaryReader(buffer)
+    const opening = new TextDecoder("ascii").decode(new Uint8Array(buffer, 0, Math.min(11, buffer.byteLength)))
+
+    return opening === "<stata_dta>" ? parseTagged(reader) : parseLegacy(reader)
+  }
+}
+
+function parseLegacy(reader: BinaryReader): ParsedTable {
+  const release = reader.uint8()
+  if (release !== 114 && release !== 115) {
+    throw new Error(`Unsupported Stata release ${release}. Only releases 114 to 119 can be read.`)
+  }
+  reader.littleEndian = reader.uint8() === 2
+  reader.skip(2)
+
+  const variableCount = reader.uint16()
+  const observationCount = reader.int32()
+  reader.skip(81 + 18)
+
+  const decoder = createTextDecoder("windows-1252")
+  const layout: StataLayout = { release, nameLength: 33, formatLength: 49, labelLength: 81 }
+  const types = Array.from({ length: variableCount }, () => legacyType(reader.uint8()))
+  const variables = readDescriptors(reader, types, layout, decoder, 2)
+
+  // Expansion fields
+  while (true) {
+    const fieldType = reader.uint8()
+    const length = reader.int32()
+    if (fieldType === 0 && length === 0) break
+    reader.skip(length)
+  }
+
+  const data = readObservations(reader, variables, observationCount, decoder, release, new Map())
+  const valueLabels = new Map<string, Record<string, string>>()
+  while (reader.remaining > 4) {
+    reader.int32() // table length
+    const name = reader.text(33, decoder)
+    reader.skip(3)
+    valueLabels.set(name, readValueLabelTable(reader, decoder))
+  }
+
+  return buildTable(variables, data, valueLabels)
+}
+
+function parseTagged(reader: BinaryReader): ParsedTable {
+  const ascii = new TextDecoder("ascii")
+  expectTag(reader, "<stata_dta><header><release>")
+  const release = Number(ascii.decode(reader.read(3)))
+  if (release < 117 || release > 119) {
+    throw new Error(`Unsupported Stata release ${release}. Only releases 114 to 119 can be read.`)
+  }
+  expectTag(reader, "</release><byteorder>")
+  reader.littleEndian = ascii.decode(reader.read(3)) === "LSF"
+  expectTag(reader, "</byteorder><K>")
+  const variableCount = release === 119 ? reader.uint32() : reader.uint16()
+  expectTag(reader, "</K><N>")
+  const observationCount = release === 117 ? reader.uint32() : reader.uint64()
+  expectTag(reader, "</N><label>")
+  reader.skip(release === 117 ? reader.uint8() : reader.uint16())
+  expectTag(reader, "</label><timestamp>")
+  reader.skip(reader.uint8())
+  expectTag(reader, "</timestamp></header><map>")
+
+  const map = Array.from({ length: 14 }, () => reader.uint64())
+  const decoder = createTextDecoder(release === 117 ? "windows-1252" : "utf-8")
+  const layout: StataLayout =
+    release === 117
+      ? { release, nameLength: 33, formatLength: 49, labelLength: 81 }
+      : { release, nameLength: 129, formatLength: 57, labelLength: 321 }
+
+  reader.seek(map[2])
+  expectTag(reader, "<variable_types>")
+  const types = Array.from({ length: variableCount }, () => taggedType(reader.uint16()))
+
+  reader.seek(map[3])
+  expectTag(reader, "<varnames>")
+  const variables = readDescriptors(reader, types, layout, decoder, release === 119 ? 4 : 2, map)
+
+  const strls = readStrls(reader, map[10], release, decoder)
+
+  reader.seek(map[9])
+  expectTag(reader, "<data>")
+  const data = readObservations(reader, variables, observationCount, decoder, release, strls)
+
+  reader.seek(map[11])
+  expectTag(reader, "<value_labels>")
+  const valueLabels = new Map<string, Record<string, string>>()
+  while (peekTag(reader, "<lbl>")) {
+    reader.skip(5)
+    reader.int32() // table length
+    const name = reader.text(layout.nameLength, decoder)
+    reader.skip(3)
+    valueLabels.set(name, readValueLabelTable(reader, decoder))
+    expectTag(reader, "</lbl>")
+  }
+
+  return buildTable(variables, data, valueLabels)
+}
+
+function readDescriptors(
+  reader: BinaryReader,
+  types: StataType[],
+  layout: StataLayout,
+  decoder: TextDecoder,
+  sortEntrySize: number,
+  map?: number[],
+): StataVariable[] {
+  const count = types.length
+  const names = Array.from({ length: count }, () => reader.text(layout.nameLength, decoder))
+
+  if (map) reader.seek(map[4] + "<sortlist>".length)
+  reader.skip((count + 1) * sortEntrySize)
+
+  if (map) reader.seek(map[5] + "<formats>".length)
+  const formats = Array.from({ length: count }, () => reader.text(layout.formatLength, decoder))
+
+  if (map) reader.seek(map[6] + "<value_label_names>".length)
+  const valueLabelNames = Array.from({ length: count }, () => reader.text(layout.nameLength, decoder))
+
+  if (map) reader.seek(map[7] + "<variable_labels>".length)
+  const labels = Array.from({ length: count }, () => reader.text(layout.labelLength, decoder))
+
+  return types.map((type, index) => ({
+    name: names[index],
+    type,
+    format: formats[index],
+    valueLabelName: valueLabelNames[index],
+    label: labels[index],
+  }))
+}
+
+function readStrls(reader: BinaryReader, offset: number, release: number, decoder: TextDecoder): Map<string, string> {
+  const strls = new Map<string, string>()
+  reader.seek(offset)
+  expectTag(reader, "<strls>")
+
+  while (peekTag(reader, "GSO")) {
+    reader.skip(3)
+    const v = reader.uint32()
+    const o = release === 117 ? reader.uint32() : reader.uint64()
+    const type = reader.uint8()
+    const length = reader.uint32()
+    const bytes = reader.read(length)
+    const text = decoder.decode(type === 130 ? bytes.subarray(0, Math.max(0, length - 1)) : bytes)
+    strls.set(`${v}:${o}`, text)
+  }
+
+  return strls
+}
+
+function readObservations(
+  reader: BinaryReader,
+  variables: StataVariable[],
+  observationCount: number,
+  decoder: TextDecoder,
+  release: number,
+  strls: Map<string, string>,
+): any[][] {
+  const rows: any[][] = []
+
+  for (let i = 0; i < observationCount; i++) {
+    const values: any[] = []
+    for (const variable of variables) {
+      const { type } = variable
+      switch (type.kind) {
+        case "str":
+          values.push(reader.text(type.width, decoder, false).replace(/\0.*$/s, ""))
+          break
+        case "strl":
+          values.push(strls.get(readStrlReference(reader, release)) ?? "")
+          break
+        case "byte":
+          values.push(missingOrValue(reader.int8(), 100, 101))
+          break
+        case "int":
+          values.push(missingOrValue(reader.int16(), 32740, 32741))
+          break
+        case "long":
+          values.push(missingOrValue(reader.int32(), 2147483620, 2147483621))
+          break
+        case "float":
+          values.push(floatMissingOrValue(reader, 4))
+          break
+        case "double":
+          values.push(floatMissingOrValue(reader, 8))
+          break
+      }
+    }
+    rows.push(values)
+  }
+
+  return rows
+}
+
+function readStrlReference(reader: BinaryReader, release: number): string {
+  if (release === 117) {
+    const v = reader.uint32()
+    const o = reader.uint32()
+    return `${v}:${o}`
+  }
+
+  // Releases 118 and 119 pack (v, o) into 8 bytes: 2+6 and 3+5 bytes respectively.
+  const bytes = reader.read(8)
+  const vBytes = release === 118 ? 2 : 3
+  const ordered = reader.littleEndian ? Array.from(bytes) : Array.from(bytes).reverse()
+  const readUnsigned = (from: number, to: number) =>
+    ordered.slice(from, to).reduceRight((value, byte) => value * 256 + byte, 0)
+  return `${readUnsigned(0, vBytes)}:${readUnsigned(vBytes, 8)}`
+}
+
+function missingOrValue(value: number, maxValid: number, systemMissing: number): number | string | null {
+  if (value <= maxValid) return value
+  if (value === systemMissing) return null
+  return `.${MISSING_LETTERS[value - systemMissing - 1] ?? ""}`
+}
+
+function floatMissingOrValue(reader: BinaryReader, size: 4 | 8): number | string | null {
+  const start = reader.offset
+  const value = size === 4 ? reader.float32() : reader.float64()
+  if (Number.isNaN(value)) return null
+  if (value < (size === 4 ? 2 ** 127 : 2 ** 1023)) return value
+
+  // Extended missing values (.a to .z) are encoded in the bits just below the exponent.
+  const view = new DataView(reader.buffer, start, size)
+  const high = view.getUint32(size === 8 && reader.littleEndian ? 4 : 0, reader.littleEndian)
+  const index = size === 4 ? (high >>> 11) & 0xff : (high >>> 8) & 0xff
+  return index === 0 ? null : `.${MISSING_LETTERS[index - 1] ?? ""}`
+}
+
+function readValueLabelTable(reader: BinaryReader, decoder: TextDecoder): Record<string, string> {
+  const entryCount = reader.int32()
+  const textLength = reader.int32()
+  const offsets = Array.from({ length: entryCount }, () => reader.int32())
+  const values = Array.from({ length: entryCount }, () => reader.int32())
+  const text = reader.read(textLength)
+
+  const labels: Record<string, string> = {}
+  offsets.forEach((offset, index) => {
+    const end = text.indexOf(0, offset)
+    const label = decoder.decode(text.subarray(offset, end === -1 ? text.length : end))
+    const code = missingOrValue(values[index], 2147483620, 2147483621)
+    labels[code === null ? "." : String(code)] = label
+  })
+  return labels
+}
+
+function buildTable(
+  variables: StataVariable[],
+  rows: any[][],
+  valueLabels: Map<string, Record<string, string>>,
+): ParsedTable {
+  const columns = makeUniqueColumnNames(variables.map((variable) => variable.name))
+  const columnMeta: Record<string, ColumnMetadata> = {}
+  const extendedMissing = variables.map(() => new Set<string>())
+
+  const data = rows.map((values) => {
+    const row: Record<string, any> = {}
+    variables.forEach((variable, index) => {
+      let value = values[index]
+      if (typeof value === "string" && variable.type.kind !== "str" && variable.type.kind !== "strl") {
+        extendedMissing[index].add(value)
+      } else if (typeof value === "number") {
+        value = convertDate(value, variable.format)
+      }
+      row[columns[index]] = value
+    })
+    return row
+  })
+
+  variables.forEach((variable, index) => {
+    const meta: ColumnMetadata = { format: variable.format || undefined }
+    if (variable.label) meta.label = variable.label
+    if (variable.valueLabelName && valueLabels.has(variable.valueLabelName)) {
+      meta.valueLabels = valueLabels.get(variable.valueLabelName)
+    }
+    if (extendedMissing[index].size > 0) {
+      meta.missingValues = { values: Array.from(extendedMissing[index]).sort() }
+    }
+    columnMeta[columns[index]] = meta
+  })
+
+  return { columns, data, errors: [], columnMeta }
+}
+
+function convertDate(value: number, format: string): number | string {
+  const match = /^%-?t([cCdwmqhy])/.exec(format) || /^%-?d/.exec(format)
+  if (!match) return value
+
+  const unit = match[1] ?? "d"
+  switch (unit) {
+    case "d":
+      return new Date(STATA_EPOCH + value * 86400000).toISOString().slice(0, 10)
+    case "c":
+    case "C":
+      return new Date(STATA_EPOCH + value).toISOString().slice(0, 19)
+    case "m":
+      return new Date(Date.UTC(1960, value, 1)).toISOString().slice(0, 10)
+    case "q":
+      return new Date(Date.UTC(1960, value * 3, 1)).toISOString().slice(0, 10)
+    case "h":
+      return new Date(Date.UTC(1960, value * 6, 1)).toISOString().slice(0, 10)
+    case "w":
+      return new Date(Date.UTC(1960 + Math.floor(value / 52), 0, 1 + (((value % 52) + 52) % 52) * 7))
+        .toISOString()
+        .slice(0, 10)
+    default:
+      return value
+  }
+}
+
+function legacyType(code: number): StataType {
+  if (code >= 1 && code <= 244) return { kind: "str", width: code }
+  switch (code) {
+    case 251:
+      return { kind: "byte" }
+    case 252:
+      return { kind: "int" }
+    case 253:
+      return { kind: "long" }
+    case 254:
+      return { kind: "float" }
+    case 255:
+      return { kind: "double" }
+    default:
+      throw new Error(`Unknown Stata variable type ${code}`)
+  }
+}
+
+function taggedType(code: number): StataType {
+  if (code >= 1 && code <= 2045) return { kind: "str", width: code }
+  switch (code) {
+    case 32768:
+      return { kind: "strl" }
+    case 65526:
+      return { kind: "double" }
+    case 65527:
+      return { kind: "float" }
+    case 65528:
+      return { kind: "long" }
+    case 65529:
+      return { kind: "int" }
+    case 65530:
+      return { kind: "byte" }
+    default:
+      throw new Error(`Unknown Stata variable type ${code}`)
+  }
+}
+
+function expectTag(reader: BinaryReader, tag: string) {
+  const found = new TextDecoder("ascii").decode(reader.read(tag.length))
+  if (found !== tag) throw new Error(`Malformed Stata file: expected ${tag}`)
+}
+
+function peekTag(reader: BinaryReader, tag: string): boolean {
+  if (reader.remaining < tag.length) return false
+  const start = reader.offset
+  const found = new TextDecoder("ascii").decode(reader.read(tag.length))
+  reader.seek(start)
+  return found === tag
+}
@@ -0,0 +1,143 @@
+/**
+ * Where the table sits inside a grid of rows: title rows to skip, how many stacked header
+ * rows to combine into column names, and footer notes to drop at the end.
+ */
+export interface TableLayout {
+  skipRows: number
+  headerRows: number
+  skipFooterRows: number
+}
+
+export const DEFAULT_TABLE_LAYOUT: TableLayout = { skipRows: 0, headerRows: 1, skipFooterRows: 0 }
+
+const MAX_HEADER_ROWS = 3
+const MAX_FOOTER_ROWS = 10
+
+type CellKind = "empty" | "number" | "text"
+
+function cellKind(value: unknown): CellKind {
+  if (value === null || value === undefined) return "empty"
+  if (typeof value === "number" || typeof value === "boolean") return "number"
+  const text = String(value).trim()
+  if (text === "") return "empty"
+  return /^[+-]?[\d.,]*\d%?$/.test(text) ? "number" : "text"
+}
+
+function filledCount(row: unknown[]): number {
+  return row.reduce<number>((count, value) => count + (cellKind(value) === "empty" ? 0 : 1), 0)
+}
+
+/**
+ * Guesses the table layout from the first rows of a file. Data rows are recognised by
+ * matching the column types of the body (numeric columns hold numbers); the non-blank rows
+ * directly above them are headers and anything before those is skipped. Footer notes are
+ * only detected when `complete` says the rows reach the end of the file.
+ */
+export function detectTableLayout(rows: unknown[][], complete = false): TableLayout {
+  const widths = rows.map(filledCount)
+  const tableWidth = mostCommon(widths.filter((width) => width > 0))
+  if (tableWidth === 0) return DEFAULT_TABLE_LAYOUT
+
+  const isWide = (index: number) => widths[index] >= Math.max(1, Math.ceil(tableWidth / 2))
+
+  // A column is numeric when most of its filled cells in wide rows are numbers
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0)
+  const numericColumns: number[] = []
+  for (let column = 0; column < columnCount; column++) {
+    let numbers = 0
+    let texts = 0
+    rows.forEach((row, index) => {
+      if (!isWide(index)) return
+      const kind = cellKind(row[column])
+      if (kind === "number") numbers++
+      else if (kind === "text") texts++
+    })
+    if (numbers > texts) numericColumns.push(column)
+  }
+
+  const matchesBody = (index: number) =>
+    isWide(index) && numericColumns.every((column) => cellKind(rows[index][column]) !== "text")
+
+  // Without numeric columns the first wide row is the only header we can find
+  if (numericColumns.length === 0) {
+    const headerIndex = rows.findIndex((_, index) => isWide(index))
+    return {
+      skipRows: Math.max(0, headerIndex),
+      headerRows: 1,
+      skipFooterRows: complete ? countFooterRows(rows, widths, isWide) : 0,
+    }
+  }
+
+  let dataStart = rows.findIndex(
+    (_, index) => matchesBody(index) && (index + 1 >= rows.length || matchesBody(index + 1)),
+  )
+  if (dataStart === -1) dataStart = rows.length
+
+  let headerRows = 0
+  for (let index = dataStart - 1; index >= 0 && headerRows < MAX_HEADER_ROWS; index--) {
+    if (widths[index] === 0 || matchesBody(index)) break
+    // The row just above the data names most columns; rows above it may span several
+    if (headerRows === 0 ? !isWide(index) : widths[index] < 2 && tableWidth > 2) break
+    headerRows++
+  }
+
+  return {
+    skipRows: dataStart - headerRows,
+    headerRows,
+    skipFooterRows: complete ? countFooterRows(rows, widths, matchesBody) : 0,
+  }
+}
+
+function countFooterRows(rows: unknown[][], widths: number[], isBodyRow: (index: number) => boolean): number {
+  let count = 0
+  for (let index = rows.length - 1; index > 0 && count < MAX_FOOTER_ROWS; index--) {
+    if (widths[index] > 0 && isBodyRow(index)) break
+    count++
+  }
+  // Trailing blank rows alone are not footer notes
+  const hasNotes = rows.slice(rows.length - count).some((_, offset) => widths[rows.length - count + offset] > 0)
+  return hasNotes ? count : 0
+}
+
+function mostCommon(values: number[]): number {
+  const counts = new Map<number, number>()
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1)
+  let best = 0
+  let bestCount = 0
+  counts.forEach((count, value) => {
+    if (count > bestCount || (count === bestCount && value > best)) {
+      best = value
+      bestCount = count
+    }
+  })
+  return best
+}
+
+/**
+ * Collapses stacked header rows into one name per column. Blank cells in upper rows are
+ * filled from the left, since a label like "Q1" usually spans the columns after it, so
+ * `Q1 / Male, (blank) / Female` becomes `Q1_Male, Q1_Female`.
+ */
+export function combineHeaderRows(rows: unknown[][], width: number): string[] {
+  const levels = rows.map((row, level) => {
+    const values = Array.from({ length: width }, (_, column) => {
+      const value = row[column]
+      return value === null || value === undefined ? "" : String(value).trim()
+    })
+    if (level < rows.length - 1) {
+      for (let column = 1; column < width; column++) {
+        if (values[column] === "") values[column] = values[column - 1]
+      }
+    }
+    return values
+  })
+
+  return Array.from({ length: width }, (_, column) => {
+    const parts: string[] = []
+    for (const level of levels) {
+      const part = level[column]
+      if (part && parts[parts.length - 1] !== part) parts.push(part)
+    }
+    return parts.join("_")
+  })
+}
@@ -0,0 +1,206 @@
+/**
+ * Thrift compact protocol, as used for Parquet file and page metadata. Structs are read
+ * generically into objects keyed by field id; callers pick out the fields they know.
+ */
+export type ThriftStruct = Record<number, any>
+
+const TYPE_STOP = 0
+const TYPE_TRUE = 1
+const TYPE_FALSE = 2
+const TYPE_BYTE = 3
+const TYPE_I16 = 4
+const TYPE_I32 = 5
+const TYPE_I64 = 6
+const TYPE_DOUBLE = 7
+const TYPE_BINARY = 8
+const TYPE_LIST = 9
+const TYPE_SET = 10
+const TYPE_MAP = 11
+const TYPE_STRUCT = 12
+
+export class ThriftReader {
+  offset: number
+  private readonly view: DataView
+
+  constructor(
+    private readonly bytes: Uint8Array,
+    offset = 0,
+  ) {
+    this.offset = offset
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  readStruct(): ThriftStruct {
+    const struct: ThriftStruct = {}
+    let fieldId = 0
+
+    for (;;) {
+      const header = this.byte()
+      const type = header & 0x0f
+      if (type === TYPE_STOP) return struct
+
+      const delta = header >> 4
+      fieldId = delta === 0 ? zigzag(this.varint()) : fieldId + delta
+      struct[fieldId] = type === TYPE_TRUE ? true : type === TYPE_FALSE ? false : this.readValue(type)
+    }
+  }
+
+  private readValue(type: number): any {
+    switch (type) {
+      case TYPE_TRUE:
+        // Booleans inside lists are written as a whole byte
+        return this.byte() === TYPE_TRUE
+      case TYPE_BYTE:
+        return (this.byte() << 24) >> 24
+      case TYPE_I16:
+      case TYPE_I32:
+      case TYPE_I64:
+        return zigzag(this.varint())
+      case TYPE_DOUBLE: {
+        const value = this.view.getFloat64(this.offset, true)
+        this.offset += 8
+        return value
+      }
+      case TYPE_BINARY: {
+        const length = this.varint()
+        const value = this.bytes.subarray(this.offset, this.offset + length)
+        this.offset += length
+        return value
+      }
+      case TYPE_LIST:
+      case TYPE_SET: {
+        const header = this.byte()
+        const size = header >> 4 === 15 ? this.varint() : header >> 4
+        const elementType = header & 0x0f
+        const items: any[] = []
+        for (let i = 0; i < size; i++) items.push(this.readValue(elementType === TYPE_FALSE ? TYPE_TRUE : elementType))
+        return items
+      }
+      case TYPE_MAP: {
+        const size = this.varint()
+        const entries: [any, any][] = []
+        if (size === 0) return entries
+        const types = this.byte()
+        for (let i = 0; i < size; i++) entries.push([this.readValue(types >> 4), this.readValue(types & 0x0f)])
+        return entries
+      }
+      case TYPE_STRUCT:
+        return this.readStruct()
+      default:
+        throw new Error(`Unknown Thrift field type ${type}`)
+    }
+  }
+
+  private byte(): number {
+    if (this.offset >= this.bytes.length) throw new Error("Unexpected end of Thrift data")
+    return this.bytes[this.offset++]
+  }
+
+  // Unsigned LEB128; plain arithmetic keeps 64-bit offsets exact up to 2^53
+  private varint(): number {
+    let result = 0
+    let multiplier = 1
+    for (;;) {
+      const byte = this.byte()
+      result += (byte & 0x7f) * multiplier
+      if ((byte & 0x80) === 0) return result
+      multiplier *= 128
+    }
+  }
+}
+
+function zigzag(value: number): number {
+  return value % 2 === 0 ? value / 2 : -(value + 1) / 2
+}
+
+/** A field to encode: the struct and list forms nest further fields and items. */
+export type ThriftField =
+  | { id: number; type: "bool"; value: boolean }
+  | { id: number; type: "i32" | "i64"; value: number }
+  | { id: number; type: "binary"; value: string | Uint8Array }
+  | { id: number; type: "struct"; value: ThriftField[] }
+  | { id: number; type: "list"; elementType: "i32" | "binary"; value: (number | string)[] }
+  | { id: number; type: "list"; elementType: "struct"; value: ThriftField[][] }
+
+export class ThriftWriter {
+  private readonly chunks: number[] = []
+
+  static encode(fields: ThriftField[]): Uint8Array {
+    const writer = new ThriftWriter()
+    writer.writeStruct(fields)
+    return new Uint8Array(writer.chunks)
+  }
+
+  private writeStruct(fields: ThriftField[]) {
+    let lastId = 0
+    for (const field of [...fields].sort((a, b) => a.id - b.id)) {
+      const type = field.type === "bool" ? (field.value ? TYPE_TRUE : TYPE_FALSE) : typeCode(field.type)
+      const delta = field.id - lastId
+      if (delta > 0 && delta <= 15) {
+        this.chunks.push((delta << 4) | type)
+      } else {
+        this.chunks.push(type)
+        this.varint(zigzagEncode(field.id))
+      }
+      lastId = field.id
+
+      if (field.type === "list") {
+        const elementType = typeCode(field.elementType)
+        const size = field.value.length
+        if (size < 15) {
+          this.chunks.push((size << 4) | elementType)
+        } else {
+          this.chunks.push(0xf0 | elementType)
+          this.varint(size)
+        }
+        for (const item of field.value) {
+          if (field.elementType === "struct") this.writeStruct(item as ThriftField[])
+          else this.writeValue(field.elementType, item as number | string)
+        }
+      } else if (field.type === "struct") {
+        this.writeStruct(field.value)
+      } else if (field.type !== "bool") {
+        this.writeValue(field.type, field.value)
+      }
+    }
+    this.chunks.push(TYPE_STOP)
+  }
+
+  private writeValue(type: "i32" | "i64" | "binary", value: number | string | Uint8Array) {
+    if (type === "binary") {
+      const bytes = typeof value === "string" ? new TextEncoder().encode(value) : (value as Uint8Array)
+      this.varint(bytes.length)
+      for (let i = 0; i < bytes.length; i++) this.chunks.push(bytes[i])
+    } else {
+      this.varint(zigzagEncode(value as number))
+    }
+  }
+
+  private varint(value: number) {
+    let remaining = value
+    while (remaining >= 0x80) {
+      this.chunks.push((remaining % 128) | 0x80)
+      remaining = Math.floor(remaining / 128)
+    }
+    this.chunks.push(remaining)
+  }
+}
+
+function typeCode(type: "i32" | "i64" | "binary" | "struct" | "list"): number {
+  switch (type) {
+    case "i32":
+      return TYPE_I32
+    case "i64":
+      return TYPE_I64
+    case "binary":
+      return TYPE_BINARY
+    case "struct":
+      return TYPE_STRUCT
+    case "list":
+      return TYPE_LIST
+  }
+}
+
+function zigzagEncode(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1
+}
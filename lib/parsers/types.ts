@@ -0,0 +1,25 @@
+export interface ParseError {
+  row: number
+  line?: number
+  type: "unclosed_quote" | "invalid_quote" | "too_few_fields" | "too_many_fields" | "invalid_json"
+  message: string
+}
+
+export interface MissingValueSpec {
+  values?: (number | string)[]
+  range?: { low: number; high: number }
+}
+
+export interface ColumnMetadata {
+  label?: string
+  valueLabels?: Record<string, string>
+  missingValues?: MissingValueSpec
+  format?: string
+}
+
+export interface ParsedTable {
+  columns: string[]
+  data: Record<string, any>[]
+  errors: ParseError[]
+  columnMeta?: Record<string, ColumnMetadata>
+}
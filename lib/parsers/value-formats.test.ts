@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest"
+import { readValueFormats } from "@/lib/parsers/value-formats"
+
+// Reads a single column of text and returns what became of it
+const read = (...values: string[]) => {
+  const rows = values.map((x) => ({ x }))
+  const { data, formats } = readValueFormats(["x"], rows)
+  return { values: data.map((row) => row.x), detected: formats.x }
+}
+
+describe("readValueFormats", () => {
+  it("reads decimal commas", () => {
+    const { values, detected } = read("1,5", "2,25", "-0,75")
+    expect(values).toEqual([1.5, 2.25, -0.75])
+    expect(detected).toMatchObject({ format: { decimal: ",", thousands: null }, applied: true })
+  })
+
+  it("reads dots that group thousands when a decimal comma settles it", () => {
+    const { values, detected } = read("1.234,5", "12.345", "999")
+    expect(values).toEqual([1234.5, 12345, 999])
+    expect(detected).toMatchObject({ format: { decimal: ",", thousands: "." }, applied: true })
+  })
+
+  it("reads digits grouped by spaces when the values vary in layout", () => {
+    expect(read("1 234 567", "89", "12 345").values).toEqual([1234567, 89, 12345])
+    expect(read("1 234,5", "12,25").values).toEqual([1234.5, 12.25])
+    expect(read("1 234 €", "5 678 €").values).toEqual([1234, 5678])
+  })
+
+  it("leaves numbers already written plainly alone", () => {
+    expect(read("12", "3.5").detected).toBeUndefined()
+  })
+
+  it("asks about dots that could be decimals or thousands", () => {
+    const { values, detected } = read("1.234", "2.345")
+    expect(values).toEqual(["1.234", "2.345"])
+    expect(detected.applied).toBe(false)
+    expect([detected.format, ...detected.alternatives]).toEqual(
+      expect.arrayContaining([
+        { kind: "number", decimal: ".", thousands: null },
+        { kind: "number", decimal: ",", thousands: "." },
+      ]),
+    )
+  })
+
+  it("asks about space-grouped values that all share one layout, like codes", () => {
+    const { values, detected } = read("123 456", "234 567", "345 678")
+    expect(values).toEqual(["123 456", "234 567", "345 678"])
+    expect(detected).toMatchObject({ format: { thousands: " " }, confidence: 0.5, applied: false })
+  })
+
+  it("asks about space-grouped columns that also hold values with leading zeros", () => {
+    expect(read("123 456", "012 345", "1 234 567").detected).toMatchObject({ applied: false })
+    expect(read("123 456", "0123", "45").detected).toMatchObject({ applied: false })
+  })
+
+  it("keeps codes with leading zeros as text", () => {
+    expect(read("0123", "0456").detected).toBeUndefined()
+    expect(read("0123", "1,234").detected).toBeUndefined()
+  })
+
+  it("does not let a doubtful column settle the decimal separator of others", () => {
+    const { formats } = readValueFormats(["code", "amount"], [{ code: "123 456", amount: "1.234" }])
+    expect(formats.code.applied).toBe(false)
+    expect(formats.amount.confidence).toBeLessThan(0.8)
+  })
+})
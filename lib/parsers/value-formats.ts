@@ -0,0 +1,451 @@
+export type DateOrder = "ymd" | "dmy" | "mdy"
+
+export type ValueFormat =
+  | {
+      kind: "number"
+      decimal: "." | ","
+      /** Digit grouping character, such as the `.` in `1.234,56` */
+      thousands: string | null
+      currency?: string
+      /** Values end in `%` and are read as fractions, so `12.5%` becomes 0.125 */
+      percent?: boolean
+    }
+  | {
+      kind: "date"
+      order: DateOrder
+      /** Months are written as names, as in `03-Dec-24` */
+      monthNames?: boolean
+      /** Some values carry a time of day, so the column becomes date-times */
+      time?: boolean
+    }
+
+export interface DetectedFormat {
+  /** The most likely reading of the column's text */
+  format: ValueFormat
+  /** From 0.5 for a coin toss to 1 when only one reading fits every value */
+  confidence: number
+  /** Other readings that fit every value but give different results */
+  alternatives: ValueFormat[]
+  /** The values were converted with `format`; ambiguous columns stay text until the user confirms one */
+  applied: boolean
+}
+
+/** Readings the rest of a table or the user's locale lean towards, used to settle ambiguous columns */
+interface FormatHints {
+  decimal?: "." | ","
+  order?: "dmy" | "mdy"
+}
+
+/** The formats that read every value of a column; doubtful ones are only applied once confirmed */
+interface ColumnReadings {
+  readings: ValueFormat[]
+  doubtful: boolean
+}
+
+const PLAIN_NUMBER = /^[+-]?(0|[1-9]\d*)(\.\d+)?$/
+const NUMBER_TEXT =
+  /^([-+\u2212]?)\s*([$€£¥₹₩₽]|[A-Z]{3}\s+)?([-+\u2212]?)\s*([\d.,'\s]*\d)\s*([$€£¥₹₩₽]|[A-Z]{3})?\s*(%?)$/
+const GROUP_SEPARATORS = [",", ".", "'", " ", "\u00a0", "\u202f"]
+const SPACE_SEPARATORS = [" ", "\u00a0", "\u202f"]
+// Codes such as ZIP codes or "012 345" start with a zero that quantities never have
+const LEADING_ZERO = /^[-+\u2212]?0[\d\s\u00a0\u202f]*\d/
+
+const NUMERIC_DATE = /^(\d{1,4})([./-])(\d{1,2})\2(\d{1,4})$/
+const NAMED_DATE_DAY_FIRST = /^(\d{1,2})(?:st|nd|rd|th)?[\s./-]*([a-z]+)\.?[\s.,/-]*(\d{4}|\d{2})$/i
+const NAMED_DATE_MONTH_FIRST = /^([a-z]+)\.?[\s./-]*(\d{1,2})(?:st|nd|rd|th)?(?:,\s*|[\s./-]+)(\d{4}|\d{2})$/i
+const TIME_OF_DAY = /^(\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*([ap]m)?$/i
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+]
+
+const TABLE_HINT_CONFIDENCE = 0.8
+const LOCALE_HINT_CONFIDENCE = 0.6
+
+/**
+ * Finds text columns holding numbers or dates written for people, such as `1.234,56 €` or
+ * `03-Dec-24`, and converts them to numbers and ISO dates. Columns that two formats read
+ * differently are described but left as text. Formats in `known`, such as ones the user
+ * confirmed before a reload, are tried first.
+ */
+export function readValueFormats(
+  columns: string[],
+  data: Record<string, any>[],
+  known: Record<string, ValueFormat> = {},
+): { data: Record<string, any>[]; formats: Record<string, DetectedFormat> } {
+  const candidates = new Map<string, ColumnReadings>()
+  const formats: Record<string, DetectedFormat> = {}
+
+  for (const column of columns) {
+    const values = data.map((row) => row[column])
+    const format = known[column]
+    if (format && values.every((value) => isBlank(value) || convertValue(value, format) !== null)) {
+      formats[column] = { format, confidence: 1, alternatives: [], applied: true }
+      continue
+    }
+    const detected = detectReadings(values)
+    if (detected.readings.length > 0) candidates.set(column, detected)
+  }
+
+  // Columns only one reading fits tell which way the ambiguous ones lean, then the user's locale
+  const settled = Array.from(candidates.values()).filter((detected) => !detected.doubtful)
+  const hints = [
+    { hints: tableHints(settled.map((detected) => detected.readings)), confidence: TABLE_HINT_CONFIDENCE },
+    { hints: localeHints(), confidence: LOCALE_HINT_CONFIDENCE },
+  ]
+  candidates.forEach(({ readings, doubtful }, column) => {
+    formats[column] = doubtful
+      ? { format: readings[0], confidence: 0.5, alternatives: readings.slice(1), applied: false }
+      : chooseReading(readings, hints)
+  })
+
+  const converted = Object.entries(formats).filter(([, detected]) => detected.applied)
+  if (converted.length === 0) return { data, formats }
+
+  return {
+    data: data.map((row) => {
+      const record = { ...row }
+      for (const [column, { format }] of converted) {
+        if (!isBlank(record[column])) record[column] = convertValue(record[column], format)
+      }
+      return record
+    }),
+    formats,
+  }
+}
+
+/** Reads one value in a format, or returns null when it does not fit */
+export function convertValue(value: unknown, format: ValueFormat): number | string | null {
+  if (format.kind === "number") {
+    if (typeof value === "number") return value
+    return typeof value === "string" ? readNumber(value, format) : null
+  }
+  return typeof value === "string" ? readDate(value, format) : null
+}
+
+/** Converts one column in a confirmed format; values that do not fit are kept as they are */
+export function convertColumn(data: Record<string, any>[], column: string, format: ValueFormat): Record<string, any>[] {
+  return data.map((row) => {
+    if (isBlank(row[column])) return row
+    const value = convertValue(row[column], format)
+    return value === null ? row : { ...row, [column]: value }
+  })
+}
+
+/** Short description for format pickers, e.g. `1.234,56 €` or `DD/MM/YYYY` */
+export function describeValueFormat(format: ValueFormat): string {
+  if (format.kind === "number") {
+    const thousands = format.thousands === null ? "" : format.thousands.replace(/[\u00a0\u202f]/, " ")
+    const number = `1${thousands}234${format.decimal}56`
+    if (format.percent) return `${number}%`
+    return format.currency ? `${number} ${format.currency.trim()}` : number
+  }
+  const parts = { ymd: ["YYYY", "MM", "DD"], dmy: ["DD", "MM", "YYYY"], mdy: ["MM", "DD", "YYYY"] }[format.order]
+  const date = format.monthNames ? parts.join(" ").replace("MM", "Mon") : parts.join("/")
+  return format.time ? `${date} hh:mm` : date
+}
+
+/** Every format that reads all of the column's text, or none when nothing needs converting */
+function detectReadings(values: unknown[]): ColumnReadings {
+  const present = values.filter((value) => !isBlank(value))
+  if (present.length === 0 || !present.some((value) => typeof value === "string")) {
+    return { readings: [], doubtful: false }
+  }
+  const texts = present.map((value) => (typeof value === "string" ? value.trim() : value))
+
+  const numbers = numberReadings(texts)
+  if (numbers.readings.length > 0) return numbers
+  return { readings: dateReadings(texts), doubtful: false }
+}
+
+/**
+ * Number readings of a column. Digits grouped by spaces, as in `123 456`, are also how codes
+ * are written, so such a reading is doubtful when any value has a leading zero, or when every
+ * value has the same layout and none is an amount or percentage. Values with leading zeros
+ * are set aside while a grouped reading is looked for; without one they keep the column as text.
+ */
+function numberReadings(values: unknown[]): ColumnReadings {
+  const codes = values.filter((value) => typeof value === "string" && LEADING_ZERO.test(value))
+  const readings = fittingNumberReadings(values.filter((value) => !codes.includes(value)))
+  const spaced = readings.some(
+    (reading) => reading.kind === "number" && SPACE_SEPARATORS.includes(reading.thousands ?? ""),
+  )
+  if (!spaced) return { readings: codes.length > 0 ? [] : readings, doubtful: false }
+
+  // Amounts and percentages are quantities, while codes share one layout, such as 999 999
+  const quantity = readings.some((reading) => reading.kind === "number" && (reading.currency || reading.percent))
+  const layouts = new Set(values.map((value) => String(value).replace(/\d/g, "9")))
+  return { readings, doubtful: codes.length > 0 || (!quantity && layouts.size === 1) }
+}
+
+function fittingNumberReadings(values: unknown[]): ValueFormat[] {
+  const readings: ValueFormat[] = []
+  for (const decimal of [".", ","] as const) {
+    let thousands: string | null = null
+    let currency: string | undefined
+    let percent: boolean | undefined
+    const fits = values.every((value) => {
+      if (typeof value === "number") return true
+      const parts = splitNumber(String(value), decimal)
+      if (!parts) return false
+      if (parts.thousands !== null) {
+        if (thousands !== null && thousands !== parts.thousands) return false
+        thousands = parts.thousands
+      }
+      if (parts.currency) {
+        if (currency !== undefined && currency !== parts.currency) return false
+        currency = parts.currency
+      }
+      percent = percent || parts.percent || undefined
+      return true
+    })
+    if (fits)
+      readings.push({ kind: "number", decimal, thousands, ...(currency && { currency }), ...(percent && { percent }) })
+  }
+
+  if (readings.length === 2) {
+    const [dot, comma] = readings
+    const differ = values.some(
+      (value) => typeof value === "string" && convertValue(value, dot) !== convertValue(value, comma),
+    )
+    if (!differ) readings.pop()
+  }
+  // Numbers the existing checks already read correctly need no conversion
+  const plain = values.every((value) => typeof value === "number" || PLAIN_NUMBER.test(String(value)))
+  return plain && readings.length === 1 && readings[0].kind === "number" && readings[0].decimal === "." ? [] : readings
+}
+
+function dateReadings(values: unknown[]): ValueFormat[] {
+  let orders: DateOrder[] = ["ymd", "dmy", "mdy"]
+  let monthNames = false
+  let time = false
+  let changed = false
+
+  for (const value of values) {
+    if (typeof value !== "string") return []
+    const parts = splitDateTime(value)
+    if (!parts) return []
+    orders = orders.filter((order) => parts.orders.includes(order))
+    if (orders.length === 0) return []
+    monthNames = monthNames || parts.monthNames
+    time = time || parts.time !== null
+    changed = changed || !/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}:\d{2}(\.\d{1,3})?)?$/.test(value)
+  }
+  if (!changed) return []
+
+  const readings = orders.map((order): ValueFormat => ({ kind: "date", order, monthNames, time }))
+  if (readings.length === 2) {
+    const differ = values.some((value) => convertValue(value, readings[0]) !== convertValue(value, readings[1]))
+    if (!differ) readings.pop()
+  }
+  return readings
+}
+
+function chooseReading(readings: ValueFormat[], sources: { hints: FormatHints; confidence: number }[]): DetectedFormat {
+  if (readings.length === 1) return { format: readings[0], confidence: 1, alternatives: [], applied: true }
+
+  for (const { hints, confidence } of sources) {
+    const format = readings.find((reading) =>
+      reading.kind === "number" ? reading.decimal === hints.decimal : reading.order === hints.order,
+    )
+    if (format)
+      return { format, confidence, alternatives: readings.filter((other) => other !== format), applied: false }
+  }
+  return { format: readings[0], confidence: 0.5, alternatives: readings.slice(1), applied: false }
+}
+
+function tableHints(columns: ValueFormat[][]): FormatHints {
+  const decimals = new Set<"." | ",">()
+  const orders = new Set<"dmy" | "mdy">()
+  for (const readings of columns) {
+    if (readings.length !== 1) continue
+    const [format] = readings
+    if (format.kind === "number") decimals.add(format.decimal)
+    else if (format.order !== "ymd") orders.add(format.order)
+  }
+
+  // Columns that disagree say nothing
+  const hints: FormatHints = {}
+  if (decimals.size === 1) hints.decimal = decimals.values().next().value
+  if (orders.size === 1) hints.order = orders.values().next().value
+  // A decimal comma is written in countries that put the day first
+  else if (orders.size === 0 && hints.decimal === ",") hints.order = "dmy"
+  return hints
+}
+
+function localeHints(): FormatHints {
+  try {
+    const decimal = new Intl.NumberFormat().formatToParts(1.5).find((part) => part.type === "decimal")?.value
+    const parts = new Intl.DateTimeFormat(undefined, { day: "numeric", month: "numeric" }).formatToParts(
+      new Date(2024, 11, 31),
+    )
+    const dayFirst = parts.findIndex((part) => part.type === "day") < parts.findIndex((part) => part.type === "month")
+    return { decimal: decimal === "," ? "," : ".", order: dayFirst ? "dmy" : "mdy" }
+  } catch {
+    return {}
+  }
+}
+
+function splitNumber(
+  text: string,
+  decimal: "." | ",",
+): { value: number; thousands: string | null; currency?: string; percent: boolean } | null {
+  let body = text.trim()
+  let negative = false
+  const accounting = /^\((.+)\)$/.exec(body)
+  if (accounting) {
+    body = accounting[1].trim()
+    negative = true
+  }
+
+  const match = NUMBER_TEXT.exec(body)
+  if (!match) return null
+  const [, leadingSign, prefix, innerSign, digits, suffix, percent] = match
+  if ((leadingSign && innerSign) || (prefix && suffix) || (percent && (prefix || suffix))) return null
+  if (negative && (leadingSign || innerSign)) return null
+  const sign = leadingSign || innerSign
+  negative = negative || sign === "-" || sign === "\u2212"
+
+  const decimalAt = digits.indexOf(decimal)
+  if (decimalAt !== digits.lastIndexOf(decimal)) return null
+  const whole = decimalAt < 0 ? digits : digits.slice(0, decimalAt)
+  const fraction = decimalAt < 0 ? "" : digits.slice(decimalAt + 1)
+  if (decimalAt >= 0 && !/^\d+$/.test(fraction)) return null
+
+  let thousands: string | null = null
+  if (!/^\d*$/.test(whole)) {
+    thousands = whole.replace(/\d/g, "")[0]
+    if (thousands === decimal || !GROUP_SEPARATORS.includes(thousands)) return null
+    const groups = whole.split(thousands)
+    if (!/^[1-9]\d{0,2}$/.test(groups[0]) || !groups.slice(1).every((group) => /^\d{3}$/.test(group))) return null
+  } else if (!/^(0|[1-9]\d*)?$/.test(whole) || (whole === "" && fraction === "")) {
+    // Leading zeros mark codes such as ZIP codes rather than quantities
+    return null
+  }
+
+  const magnitude = Number(`${(thousands ? whole.split(thousands).join("") : whole) || "0"}.${fraction || "0"}`)
+  const value = (negative ? -magnitude : magnitude) / (percent ? 100 : 1)
+  return { value, thousands, ...((prefix || suffix) && { currency: (prefix || suffix).trim() }), percent: !!percent }
+}
+
+function readNumber(text: string, format: Extract<ValueFormat, { kind: "number" }>): number | null {
+  const parts = splitNumber(text, format.decimal)
+  if (!parts || (parts.thousands !== null && parts.thousands !== format.thousands)) return null
+  return parts.value
+}
+
+interface DateParts {
+  orders: DateOrder[]
+  monthNames: boolean
+  time: string | null
+  read: (order: DateOrder) => string | null
+}
+
+function splitDateTime(text: string): DateParts | null {
+  const trimmed = text.trim()
+  const iso = /^(\d{4}-\d{2}-\d{2})T(.+)$/.exec(trimmed)
+  const [datePart, timePart] = iso ? [iso[1], iso[2]] : splitAtTime(trimmed)
+  const time = timePart === null ? null : readTime(timePart)
+  if (timePart !== null && time === null) return null
+
+  const date = splitDate(datePart)
+  if (!date) return null
+  return {
+    ...date,
+    time,
+    read: (order) => {
+      const day = date.read(order)
+      if (day === null) return null
+      return time === null ? day : `${day}T${time}`
+    },
+  }
+}
+
+function splitAtTime(text: string): [string, string | null] {
+  const match = /^(.*?\S)[\sT]+(\d{1,2}:\d{2}.*)$/.exec(text)
+  return match ? [match[1], match[2]] : [text, null]
+}
+
+function splitDate(text: string): Omit<DateParts, "time"> | null {
+  const numeric = NUMERIC_DATE.exec(text)
+  if (numeric) {
+    const [, first, , second, third] = numeric
+    if (first.length === 4) {
+      if (third.length > 2) return null
+      const read = (order: DateOrder) => (order === "ymd" ? isoDate(first, second, third) : null)
+      return { orders: ["ymd"], monthNames: false, read }
+    }
+    if (first.length > 2 || (third.length !== 2 && third.length !== 4)) return null
+    const read = (order: DateOrder) =>
+      order === "dmy" ? isoDate(third, second, first) : order === "mdy" ? isoDate(third, first, second) : null
+    return { orders: (["dmy", "mdy"] as const).filter((order) => read(order) !== null), monthNames: false, read }
+  }
+
+  const dayFirst = NAMED_DATE_DAY_FIRST.exec(text)
+  const monthFirst = dayFirst ? null : NAMED_DATE_MONTH_FIRST.exec(text)
+  const named = dayFirst
+    ? { day: dayFirst[1], month: monthNumber(dayFirst[2]), year: dayFirst[3], order: "dmy" as const }
+    : monthFirst && {
+        day: monthFirst[2],
+        month: monthNumber(monthFirst[1]),
+        year: monthFirst[3],
+        order: "mdy" as const,
+      }
+  if (!named || named.month === null) return null
+
+  const date = isoDate(named.year, String(named.month), named.day)
+  if (date === null) return null
+  return { orders: [named.order], monthNames: true, read: (order) => (order === named.order ? date : null) }
+}
+
+function readDate(text: string, format: Extract<ValueFormat, { kind: "date" }>): string | null {
+  const parts = splitDateTime(text)
+  if (!parts) return null
+  const value = parts.read(format.order)
+  // Dates in a column that also holds times are read as midnight
+  return value !== null && format.time && parts.time === null ? `${value}T00:00:00` : value
+}
+
+function readTime(text: string): string | null {
+  const match = TIME_OF_DAY.exec(text.trim())
+  if (!match) return null
+  const [, hourText, minutes, seconds = "00", meridiem] = match
+  let hour = Number(hourText)
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null
+    hour = (hour % 12) + (/p/i.test(meridiem) ? 12 : 0)
+  }
+  if (hour > 23 || Number(minutes) > 59 || Number(seconds) > 59) return null
+  return `${String(hour).padStart(2, "0")}:${minutes}:${seconds}`
+}
+
+function isoDate(yearText: string, monthText: string, dayText: string): string | null {
+  // Two-digit years follow the POSIX convention: 69-99 are 1900s, 00-68 are 2000s
+  const year = yearText.length === 2 ? Number(yearText) + (Number(yearText) < 69 ? 2000 : 1900) : Number(yearText)
+  const month = Number(monthText)
+  const day = Number(dayText)
+  if (month < 1 || month > 12 || day < 1) return null
+  if (day > new Date(Date.UTC(year, month, 0)).getUTCDate()) return null
+  return `${String(year).padStart(4, "0")}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`
+}
+
+function monthNumber(name: string): number | null {
+  const lower = name.toLowerCase()
+  // Names and abbreviations of at least three letters, so "Sept" is September but "Ma" is nothing
+  const index = lower.length < 3 ? -1 : MONTHS.findIndex((month) => month.startsWith(lower))
+  return index < 0 ? null : index + 1
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === ""
+}
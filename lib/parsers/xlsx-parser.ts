@@ -0,0 +1,228 @@
+import { ZipArchive } from "@/lib/parsers/zip-reader"
+import type { TableLayout } from "@/lib/parsers/table-layout"
+import {
+  childElements,
+  findElements,
+  firstChild,
+  localName,
+  parseXml,
+  textContent,
+  type XmlElement,
+} from "@/lib/parsers/xml"
+
+export interface XlsxSheetInfo {
+  name: string
+  path: string
+  hidden: boolean
+}
+
+export interface SheetSelection extends TableLayout {
+  sheetName: string
+}
+
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 22, 27, 28, 29, 30, 31, 34, 35, 36, 50, 51, 52, 53, 54, 57, 58])
+const BUILTIN_DATETIME_FORMATS = new Set([18, 19, 20, 21, 22, 32, 33, 45, 46, 47, 55, 56])
+
+type CellDateKind = "date" | "datetime" | null
+
+/**
+ * Reads Office Open XML workbooks. Shared strings are resolved, booleans and numbers
+ * stay typed, and numeric cells with a date number format become ISO date strings.
+ */
+export class XlsxWorkbook {
+  private constructor(
+    private readonly archive: ZipArchive,
+    readonly sheets: XlsxSheetInfo[],
+    private readonly sharedStrings: string[],
+    private readonly styleDateKinds: CellDateKind[],
+    private readonly date1904: boolean,
+  ) {}
+
+  static async open(blob: Blob): Promise<XlsxWorkbook> {
+    const archive = await ZipArchive.open(blob)
+    const workbookEntry = archive.getEntry("xl/workbook.xml")
+    if (!workbookEntry) throw new Error("Not an XLSX workbook (xl/workbook.xml is missing)")
+
+    const workbook = parseXml(await archive.readText(workbookEntry))
+    const relationships = await readRelationships(archive, "xl/_rels/workbook.xml.rels")
+    const workbookPr = findElements(workbook, "workbookPr")[0]
+    const date1904 = workbookPr?.attributes.date1904 === "1" || workbookPr?.attributes.date1904 === "true"
+
+    const sheets = findElements(workbook, "sheet").map((sheet) => {
+      const relationId = Object.entries(sheet.attributes).find(([key]) => localName(key) === "id")?.[1] ?? ""
+      return {
+        name: sheet.attributes.name,
+        path: resolvePartPath("xl/", relationships.get(relationId) ?? ""),
+        hidden: sheet.attributes.state === "hidden" || sheet.attributes.state === "veryHidden",
+      }
+    })
+
+    const sharedStringsEntry = archive.getEntry("xl/sharedStrings.xml")
+    const sharedStrings = sharedStringsEntry
+      ? readSharedStrings(parseXml(await archive.readText(sharedStringsEntry)))
+      : []
+
+    const stylesEntry = archive.getEntry("xl/styles.xml")
+    const styleDateKinds = stylesEntry ? readStyleDateKinds(parseXml(await archive.readText(stylesEntry))) : []
+
+    return new XlsxWorkbook(archive, sheets, sharedStrings, styleDateKinds, date1904)
+  }
+
+  async readSheet(name: string, maxRows = Infinity): Promise<any[][]> {
+    const sheet = this.sheets.find((s) => s.name === name)
+    const entry = sheet && this.archive.getEntry(sheet.path)
+    if (!entry) throw new Error(`Sheet "${name}" was not found in the workbook`)
+
+    const sheetData = findElements(parseXml(await this.archive.readText(entry)), "sheetData")[0]
+    if (!sheetData) return []
+
+    const grid: any[][] = []
+    let nextRowIndex = 0
+
+    for (const row of childElements(sheetData, "row")) {
+      const rowIndex = row.attributes.r ? Number(row.attributes.r) - 1 : nextRowIndex
+      nextRowIndex = rowIndex + 1
+      if (rowIndex >= maxRows) break
+
+      const values: any[] = []
+      let nextColumnIndex = 0
+
+      for (const cell of childElements(row, "c")) {
+        const columnIndex = cell.attributes.r ? columnIndexFromReference(cell.attributes.r) : nextColumnIndex
+        nextColumnIndex = columnIndex + 1
+        values[columnIndex] = this.readCell(cell)
+      }
+
+      for (let i = 0; i < values.length; i++) {
+        if (values[i] === undefined) values[i] = null
+      }
+      grid[rowIndex] = values
+    }
+
+    for (let i = 0; i < grid.length; i++) {
+      if (!grid[i]) grid[i] = []
+    }
+
+    return grid
+  }
+
+  private readCell(cell: XmlElement): any {
+    const type = cell.attributes.t || "n"
+    const valueElement = firstChild(cell, "v")
+    const raw = valueElement ? textContent(valueElement) : null
+
+    switch (type) {
+      case "s":
+        return raw === null ? null : (this.sharedStrings[Number(raw)] ?? null)
+      case "b":
+        return raw === null ? null : raw === "1"
+      case "inlineStr": {
+        const inline = firstChild(cell, "is")
+        return inline ? readRichText(inline) : null
+      }
+      case "str":
+      case "e":
+      case "d":
+        return raw
+      default: {
+        if (raw === null || raw === "") return null
+        const number = Number(raw)
+        const dateKind = this.styleDateKinds[Number(cell.attributes.s ?? 0)]
+        return dateKind ? excelSerialToIso(number, this.date1904, dateKind) : number
+      }
+    }
+  }
+}
+
+export function excelSerialToIso(serial: number, date1904: boolean, kind: "date" | "datetime"): string {
+  // The 1900 date system counts a non-existent 29 Feb 1900, so serials before it are shifted by a day.
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, serial < 61 ? 31 : 30)
+  const iso = new Date(epoch + Math.round(serial * 86400000)).toISOString()
+  if (kind === "date") return iso.slice(0, 10)
+  return serial < 1 ? iso.slice(11, 19) : iso.slice(0, 19)
+}
+
+function columnIndexFromReference(reference: string): number {
+  let index = 0
+  for (const char of reference) {
+    const code = char.charCodeAt(0)
+    if (code < 65 || code > 90) break
+    index = index * 26 + (code - 64)
+  }
+  return index - 1
+}
+
+function resolvePartPath(base: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1)
+
+  const parts = (base + target).split("/")
+  const resolved: string[] = []
+  for (const part of parts) {
+    if (part === "..") resolved.pop()
+    else if (part !== ".") resolved.push(part)
+  }
+  return resolved.join("/")
+}
+
+async function readRelationships(archive: ZipArchive, path: string): Promise<Map<string, string>> {
+  const entry = archive.getEntry(path)
+  const relationships = new Map<string, string>()
+  if (!entry) return relationships
+
+  for (const relationship of findElements(parseXml(await archive.readText(entry)), "Relationship")) {
+    relationships.set(relationship.attributes.Id, relationship.attributes.Target)
+  }
+  return relationships
+}
+
+function readRichText(element: XmlElement): string {
+  return childElements(element)
+    .map((child) => {
+      const name = localName(child.name)
+      if (name === "t") return textContent(child)
+      if (name === "r") return childElements(child, "t").map(textContent).join("")
+      return ""
+    })
+    .join("")
+}
+
+function readSharedStrings(document: XmlElement): string[] {
+  return findElements(document, "si").map(readRichText)
+}
+
+function readStyleDateKinds(document: XmlElement): CellDateKind[] {
+  const customFormats = new Map<number, string>()
+  for (const format of findElements(document, "numFmt")) {
+    customFormats.set(Number(format.attributes.numFmtId), format.attributes.formatCode)
+  }
+
+  const cellXfs = findElements(document, "cellXfs")[0]
+  if (!cellXfs) return []
+
+  return childElements(cellXfs, "xf").map((xf) => {
+    const formatId = Number(xf.attributes.numFmtId ?? 0)
+    if (BUILTIN_DATETIME_FORMATS.has(formatId)) return "datetime"
+    if (BUILTIN_DATE_FORMATS.has(formatId)) return "date"
+
+    const code = customFormats.get(formatId)
+    return code ? dateKindFromFormatCode(code) : null
+  })
+}
+
+function dateKindFromFormatCode(code: string): CellDateKind {
+  // Strip literal text, escaped characters and bracketed sections such as colours and locales.
+  const stripped = code
+    .split(";")[0]
+    .replace(/"[^"]*"/g, "")
+    .replace(/\\./g, "")
+    .replace(/\[[^\]]*\]/g, "")
+    .toLowerCase()
+
+  const hasDate = /[dy]/.test(stripped) || /(^|[^h:])m+([^:s]|$)/.test(stripped)
+  const hasTime = /[hs]/.test(stripped)
+
+  if (hasDate && hasTime) return "datetime"
+  if (hasDate) return "date"
+  if (hasTime) return "datetime"
+  return null
+}
@@ -0,0 +1,167 @@
+export interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlNode[]
+}
+
+export type XmlNode = XmlElement | string
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+}
+
+export function decodeXmlEntities(text: string): string {
+  if (!text.includes("&")) return text
+
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" ? Number.parseInt(entity.slice(2), 16) : Number.parseInt(entity.slice(1), 10)
+      return Number.isNaN(code) ? match : String.fromCodePoint(code)
+    }
+    return NAMED_ENTITIES[entity] ?? match
+  })
+}
+
+/**
+ * Small non-validating XML parser. It runs without the DOM so it also works inside
+ * web workers, and keeps namespace prefixes as part of element names.
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [] }
+  const stack: XmlElement[] = [root]
+  const tagPattern = /<(\/?)([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y
+  const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+  let position = 0
+
+  while (position < xml.length) {
+    const tagStart = xml.indexOf("<", position)
+    const current = stack[stack.length - 1]
+
+    if (tagStart === -1) {
+      appendText(current, xml.slice(position))
+      break
+    }
+
+    if (tagStart > position) {
+      appendText(current, xml.slice(position, tagStart))
+    }
+
+    if (xml.startsWith("<!--", tagStart)) {
+      position = skipPast(xml, "-->", tagStart)
+      continue
+    }
+
+    if (xml.startsWith("<![CDATA[", tagStart)) {
+      const end = xml.indexOf("]]>", tagStart)
+      const cdataEnd = end === -1 ? xml.length : end
+      current.children.push(xml.slice(tagStart + 9, cdataEnd))
+      position = cdataEnd + 3
+      continue
+    }
+
+    if (xml.startsWith("<?", tagStart)) {
+      position = skipPast(xml, "?>", tagStart)
+      continue
+    }
+
+    if (xml.startsWith("<!", tagStart)) {
+      position = skipDeclaration(xml, tagStart)
+      continue
+    }
+
+    tagPattern.lastIndex = tagStart
+    const match = tagPattern.exec(xml)
+
+    if (!match) {
+      appendText(current, "<")
+      position = tagStart + 1
+      continue
+    }
+
+    const [, closing, name, rawAttributes, selfClosing] = match
+    position = tagPattern.lastIndex
+
+    if (closing) {
+      const openIndex = findOpenElement(stack, name)
+      if (openIndex > 0) stack.length = openIndex
+      continue
+    }
+
+    const element: XmlElement = { name, attributes: {}, children: [] }
+    if (rawAttributes) {
+      attributePattern.lastIndex = 0
+      let attribute: RegExpExecArray | null
+      while ((attribute = attributePattern.exec(rawAttributes))) {
+        element.attributes[attribute[1]] = decodeXmlEntities(attribute[2] ?? attribute[3] ?? "")
+      }
+    }
+
+    current.children.push(element)
+    if (!selfClosing) stack.push(element)
+  }
+
+  return root
+}
+
+export function localName(name: string): string {
+  const colon = name.indexOf(":")
+  return colon === -1 ? name : name.slice(colon + 1)
+}
+
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement => typeof child !== "string" && (!name || localName(child.name) === name),
+  )
+}
+
+export function firstChild(element: XmlElement, name: string): XmlElement | undefined {
+  return childElements(element, name)[0]
+}
+
+export function findElements(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = []
+  const visit = (node: XmlElement) => {
+    for (const child of node.children) {
+      if (typeof child === "string") continue
+      if (localName(child.name) === name) found.push(child)
+      visit(child)
+    }
+  }
+  visit(element)
+  return found
+}
+
+export function textContent(node: XmlNode): string {
+  if (typeof node === "string") return node
+  return node.children.map(textContent).join("")
+}
+
+function appendText(element: XmlElement, raw: string) {
+  element.children.push(decodeXmlEntities(raw))
+}
+
+function skipPast(xml: string, terminator: string, from: number): number {
+  const end = xml.indexOf(terminator, from)
+  return end === -1 ? xml.length : end + terminator.length
+}
+
+function skipDeclaration(xml: string, from: number): number {
+  let depth = 0
+  for (let i = from; i < xml.length; i++) {
+    if (xml[i] === "[") depth++
+    else if (xml[i] === "]") depth--
+    else if (xml[i] === ">" && depth <= 0) return i + 1
+  }
+  return xml.length
+}
+
+function findOpenElement(stack: XmlElement[], name: string): number {
+  for (let i = stack.length - 1; i > 0; i--) {
+    if (stack[i].name === name) return i
+  }
+  return -1
+}
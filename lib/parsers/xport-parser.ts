@@ -0,0 +1,186 @@
+import { createTextDecoder, trimmedLength } from "@/lib/parsers/binary-reader"
+import { makeUniqueColumnNames } from "@/lib/parsers/columns"
+import type { ColumnMetadata, ParsedTable } from "@/lib/parsers/types"
+
+export interface XportDataset {
+  name: string
+  label: string
+  table: ParsedTable
+}
+
+interface XportVariable {
+  name: string
+  label: string
+  format: string
+  numeric: boolean
+  length: number
+  position: number
+}
+
+const RECORD_LENGTH = 80
+const SAS_EPOCH = Date.UTC(1960, 0, 1)
+const LIBRARY_HEADER = "HEADER RECORD*******LIBRARY HEADER RECORD!!!!!!!"
+const MEMBER_HEADER = "HEADER RECORD*******MEMBER  HEADER RECORD!!!!!!!"
+const NAMESTR_HEADER = "HEADER RECORD*******NAMESTR HEADER RECORD!!!!!!!"
+const OBS_HEADER = "HEADER RECORD*******OBS     HEADER RECORD!!!!!!!"
+const DATE_FORMATS = /^(DATE|DAY|DDMMYY|MMDDYY|YYMMDD|YYMMN|MONYY|WEEKDATE|WORDDATE|E8601DA|IS8601DA|B8601DA)/
+const DATETIME_FORMATS = /^(DATETIME|E8601DT|IS8601DT|B8601DT|DATEAMPM)/
+const TIME_FORMATS = /^(TIME|HHMM|TOD|E8601TM|IS8601TM)/
+
+/**
+ * Reader for SAS transport (XPORT version 5/6) files, the format used for regulatory
+ * submissions. A library can hold several datasets; each is returned separately.
+ */
+export class XportParser {
+  static parse(buffer: ArrayBuffer): XportDataset[] {
+    const bytes = new Uint8Array(buffer)
+    const ascii = new TextDecoder("ascii")
+    const decoder = createTextDecoder("windows-1252")
+    const record = (index: number) => ascii.decode(bytes.subarray(index * RECORD_LENGTH, (index + 1) * RECORD_LENGTH))
+
+    if (!record(0).startsWith(LIBRARY_HEADER)) {
+      if (record(0).startsWith("HEADER RECORD*******LIBV8 HEADER RECORD")) {
+        throw new Error("SAS transport version 8/9 files are not supported. Export the dataset as XPORT version 5.")
+      }
+      throw new Error("Not a SAS transport file")
+    }
+
+    const datasets: XportDataset[] = []
+    let offset = 3 * RECORD_LENGTH
+
+    while (offset < bytes.length && ascii.decode(bytes.subarray(offset, offset + 48)) === MEMBER_HEADER) {
+      const namestrLength = Number(ascii.decode(bytes.subarray(offset + 74, offset + 78))) || 140
+      // Member header, descriptor header and two descriptor records
+      const descriptor = offset + 2 * RECORD_LENGTH
+      const name = readText(bytes, descriptor + 8, 8, decoder)
+      const label = readText(bytes, descriptor + RECORD_LENGTH + 32, 40, decoder)
+      offset += 4 * RECORD_LENGTH
+
+      if (ascii.decode(bytes.subarray(offset, offset + 48)) !== NAMESTR_HEADER) {
+        throw new Error("Malformed SAS transport file: missing variable descriptors")
+      }
+      const variableCount = Number(ascii.decode(bytes.subarray(offset + 54, offset + 58)))
+      offset += RECORD_LENGTH
+
+      const view = new DataView(buffer)
+      const variables: XportVariable[] = []
+      for (let i = 0; i < variableCount; i++) {
+        const start = offset + i * namestrLength
+        const formatName = readText(bytes, start + 56, 8, decoder)
+        const formatWidth = view.getInt16(start + 64)
+        const formatDecimals = view.getInt16(start + 66)
+        variables.push({
+          numeric: view.getInt16(start) === 1,
+          length: view.getInt16(start + 4),
+          name: readText(bytes, start + 8, 8, decoder),
+          label: readText(bytes, start + 16, 40, decoder),
+          format: formatName ? `${formatName}${formatWidth || ""}.${formatDecimals || ""}` : "",
+          position: view.getInt32(start + 84),
+        })
+      }
+      offset += roundUpToRecord(variableCount * namestrLength)
+
+      if (ascii.decode(bytes.subarray(offset, offset + 48)) !== OBS_HEADER) {
+        throw new Error("Malformed SAS transport file: missing observations")
+      }
+      offset += RECORD_LENGTH
+
+      let end = bytes.length
+      for (let next = offset; next < bytes.length; next += RECORD_LENGTH) {
+        if (ascii.decode(bytes.subarray(next, next + 48)) === MEMBER_HEADER) {
+          end = next
+          break
+        }
+      }
+
+      datasets.push({ name, label, table: readObservations(bytes, offset, end, variables, decoder) })
+      offset = end
+    }
+
+    return datasets
+  }
+}
+
+function readObservations(
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  variables: XportVariable[],
+  decoder: TextDecoder,
+): ParsedTable {
+  const columns = makeUniqueColumnNames(variables.map((variable) => variable.name))
+  const observationLength = variables.reduce((total, variable) => total + variable.length, 0)
+  const specialMissing = variables.map(() => new Set<string>())
+
+  // The last record is padded with blanks, which can look like extra observations.
+  let count = observationLength > 0 ? Math.floor((end - start) / observationLength) : 0
+  while (count > 0) {
+    const lastStart = start + (count - 1) * observationLength
+    if (end - lastStart >= RECORD_LENGTH || !bytes.subarray(lastStart, end).every((byte) => byte === 0x20)) break
+    count--
+  }
+
+  const data: Record<string, any>[] = []
+  for (let i = 0; i < count; i++) {
+    const base = start + i * observationLength
+    const row: Record<string, any> = {}
+    variables.forEach((variable, index) => {
+      const field = bytes.subarray(base + variable.position, base + variable.position + variable.length)
+      if (!variable.numeric) {
+        row[columns[index]] = readText(field, 0, field.length, decoder)
+        return
+      }
+
+      const value = readIbmFloat(field)
+      if (typeof value === "string") specialMissing[index].add(value)
+      row[columns[index]] = typeof value === "number" ? convertDate(value, variable.format) : value
+    })
+    data.push(row)
+  }
+
+  const columnMeta: Record<string, ColumnMetadata> = {}
+  variables.forEach((variable, index) => {
+    const meta: ColumnMetadata = {}
+    if (variable.label) meta.label = variable.label
+    if (variable.format) meta.format = variable.format
+    if (specialMissing[index].size > 0) meta.missingValues = { values: Array.from(specialMissing[index]).sort() }
+    columnMeta[columns[index]] = meta
+  })
+
+  return { columns, data, errors: [], columnMeta }
+}
+
+// Numbers are stored as (possibly truncated) IBM System/370 hexadecimal floats.
+// Missing values are a single marker byte ('.', '_' or 'A'-'Z') followed by zeros.
+function readIbmFloat(field: Uint8Array): number | string | null {
+  const first = field[0]
+  if (field.subarray(1).every((byte) => byte === 0)) {
+    if (first === 0x2e) return null
+    if (first === 0x5f || (first >= 0x41 && first <= 0x5a)) return `.${String.fromCharCode(first)}`
+    if (first === 0) return 0
+  }
+
+  let mantissa = 0
+  for (let i = 1; i < 8; i++) {
+    mantissa = mantissa * 256 + (field[i] ?? 0)
+  }
+  const exponent = (first & 0x7f) - 64
+  const value = (mantissa / 2 ** 56) * 16 ** exponent
+  return first & 0x80 ? -value : value
+}
+
+function convertDate(value: number, format: string): number | string {
+  if (DATETIME_FORMATS.test(format)) return new Date(SAS_EPOCH + value * 1000).toISOString().slice(0, 19)
+  if (DATE_FORMATS.test(format)) return new Date(SAS_EPOCH + value * 86400000).toISOString().slice(0, 10)
+  if (TIME_FORMATS.test(format)) return new Date(value * 1000).toISOString().slice(11, 19)
+  return value
+}
+
+function readText(bytes: Uint8Array, start: number, length: number, decoder: TextDecoder): string {
+  const field = bytes.subarray(start, start + length)
+  return decoder.decode(field.subarray(0, trimmedLength(field)))
+}
+
+function roundUpToRecord(length: number): number {
+  return Math.ceil(length / RECORD_LENGTH) * RECORD_LENGTH
+}
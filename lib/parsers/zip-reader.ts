@@ -0,0 +1,138 @@
+import { decompress } from "@/lib/parsers/compression"
+
+export interface ZipEntry {
+  name: string
+  compressedSize: number
+  uncompressedSize: number
+  compressionMethod: number
+  localHeaderOffset: number
+  isDirectory: boolean
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50
+const ZIP64_LOCATOR = 0x07064b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+/**
+ * Random-access ZIP reader backed by Blob slices, so only the central directory and
+ * the requested members are ever read into memory.
+ */
+export class ZipArchive {
+  private constructor(
+    private readonly blob: Blob,
+    readonly entries: ZipEntry[],
+  ) {}
+
+  static async open(blob: Blob): Promise<ZipArchive> {
+    const tailSize = Math.min(blob.size, 65535 + 22)
+    const tail = await readView(blob, blob.size - tailSize, tailSize)
+
+    let eocd = -1
+    for (let i = tail.byteLength - 22; i >= 0; i--) {
+      if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+        eocd = i
+        break
+      }
+    }
+    if (eocd === -1) throw new Error("Not a valid ZIP archive")
+
+    let entryCount = tail.getUint16(eocd + 10, true)
+    let directorySize = tail.getUint32(eocd + 12, true)
+    let directoryOffset = tail.getUint32(eocd + 16, true)
+
+    if (directoryOffset === 0xffffffff && eocd >= 20 && tail.getUint32(eocd - 20, true) === ZIP64_LOCATOR) {
+      const zip64Offset = Number(tail.getBigUint64(eocd - 12, true))
+      const zip64 = await readView(blob, zip64Offset, 56)
+      if (zip64.getUint32(0, true) !== ZIP64_END_OF_CENTRAL_DIRECTORY) throw new Error("Corrupt ZIP64 directory")
+      entryCount = Number(zip64.getBigUint64(32, true))
+      directorySize = Number(zip64.getBigUint64(40, true))
+      directoryOffset = Number(zip64.getBigUint64(48, true))
+    }
+
+    const directory = await readView(blob, directoryOffset, directorySize)
+    const entries: ZipEntry[] = []
+    let offset = 0
+
+    for (let i = 0; i < entryCount; i++) {
+      if (directory.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) throw new Error("Corrupt ZIP directory")
+
+      const nameLength = directory.getUint16(offset + 28, true)
+      const extraLength = directory.getUint16(offset + 30, true)
+      const commentLength = directory.getUint16(offset + 32, true)
+      const nameBytes = new Uint8Array(directory.buffer, directory.byteOffset + offset + 46, nameLength)
+      const name = new TextDecoder("utf-8").decode(nameBytes)
+
+      const entry: ZipEntry = {
+        name,
+        compressionMethod: directory.getUint16(offset + 10, true),
+        compressedSize: directory.getUint32(offset + 20, true),
+        uncompressedSize: directory.getUint32(offset + 24, true),
+        localHeaderOffset: directory.getUint32(offset + 42, true),
+        isDirectory: name.endsWith("/"),
+      }
+
+      applyZip64Extra(entry, directory, offset + 46 + nameLength, extraLength)
+      entries.push(entry)
+      offset += 46 + nameLength + extraLength + commentLength
+    }
+
+    return new ZipArchive(blob, entries)
+  }
+
+  getEntry(name: string): ZipEntry | undefined {
+    return this.entries.find((entry) => entry.name === name)
+  }
+
+  async readBytes(entry: ZipEntry): Promise<Uint8Array> {
+    const header = await readView(this.blob, entry.localHeaderOffset, 30)
+    if (header.getUint32(0, true) !== LOCAL_FILE_HEADER) throw new Error(`Corrupt ZIP entry: ${entry.name}`)
+
+    const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true)
+    const compressed = this.blob.slice(dataStart, dataStart + entry.compressedSize)
+
+    switch (entry.compressionMethod) {
+      case 0:
+        return new Uint8Array(await compressed.arrayBuffer())
+      case 8:
+        return decompress(compressed, "deflate-raw")
+      default:
+        throw new Error(`Unsupported ZIP compression method ${entry.compressionMethod} in ${entry.name}`)
+    }
+  }
+
+  async readText(entry: ZipEntry): Promise<string> {
+    return new TextDecoder("utf-8").decode(await this.readBytes(entry))
+  }
+}
+
+async function readView(blob: Blob, start: number, length: number): Promise<DataView> {
+  return new DataView(await blob.slice(start, start + length).arrayBuffer())
+}
+
+function applyZip64Extra(entry: ZipEntry, view: DataView, start: number, length: number) {
+  let offset = start
+  while (offset + 4 <= start + length) {
+    const headerId = view.getUint16(offset, true)
+    const size = view.getUint16(offset + 2, true)
+
+    if (headerId === 0x0001) {
+      let field = offset + 4
+      if (entry.uncompressedSize === 0xffffffff) {
+        entry.uncompressedSize = Number(view.getBigUint64(field, true))
+        field += 8
+      }
+      if (entry.compressedSize === 0xffffffff) {
+        entry.compressedSize = Number(view.getBigUint64(field, true))
+        field += 8
+      }
+      if (entry.localHeaderOffset === 0xffffffff) {
+        entry.localHeaderOffset = Number(view.getBigUint64(field, true))
+      }
+      return
+    }
+
+    offset += 4 + size
+  }
+}
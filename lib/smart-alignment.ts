@@ -1,3 +1,11 @@
+import {
+  inferLogicalType,
+  isNumericType,
+  isTemporalType,
+  type ColumnSchema,
+  type LogicalType,
+} from "@/lib/column-schema"
+
 export interface ColumnMatch {
   sourceColumn: string
   targetColumn: string
@@ -24,6 +32,8 @@ export class SmartAlignmentEngine {
     targetColumns: string[],
     sourceData?: any[],
     targetData?: any[],
+    sourceSchema?: ColumnSchema[],
+    targetSchema?: ColumnSchema[],
   ): AlignmentSuggestion {
     const matches: ColumnMatch[] = []
     const usedTargetColumns = new Set<string>()
@@ -90,7 +100,10 @@ export class SmartAlignmentEngine {
       for (const targetCol of targetColumns) {
         if (usedTargetColumns.has(targetCol)) continue
 
-        const patternScore = this.calculatePatternSimilarity(sourceCol, targetCol, sourceData, targetData)
+        const patternScore = this.calculatePatternSimilarity(
+          { column: sourceCol, data: sourceData, schema: sourceSchema },
+          { column: targetCol, data: targetData, schema: targetSchema },
+        )
 
         if (patternScore.score >= this.PATTERN_MATCH_THRESHOLD) {
           if (!bestMatch || patternScore.score > bestMatch.score) {
@@ -188,43 +201,44 @@ export class SmartAlignmentEngine {
   }
 
   private static calculatePatternSimilarity(
-    sourceCol: string,
-    targetCol: string,
-    sourceData?: any[],
-    targetData?: any[],
+    source: { column: string; data?: any[]; schema?: ColumnSchema[] },
+    target: { column: string; data?: any[]; schema?: ColumnSchema[] },
   ): { score: number; reasons: string[] } {
     const reasons: string[] = []
     let score = 0
 
-    if (!sourceData || !targetData) {
+    if (!source.data || !target.data) {
       return { score: 0, reasons: [] }
     }
 
     // Sample data for analysis
-    const sourceSample = sourceData
+    const sourceSample = source.data
       .slice(0, 100)
-      .map((row) => row[sourceCol])
+      .map((row) => row[source.column])
       .filter((v) => v != null)
-    const targetSample = targetData
+    const targetSample = target.data
       .slice(0, 100)
-      .map((row) => row[targetCol])
+      .map((row) => row[target.column])
       .filter((v) => v != null)
 
     if (sourceSample.length === 0 || targetSample.length === 0) {
       return { score: 0, reasons: [] }
     }
 
-    // Data type similarity
-    const sourceTypes = this.analyzeDataTypes(sourceSample)
-    const targetTypes = this.analyzeDataTypes(targetSample)
-
-    const typeOverlap = Object.keys(sourceTypes).filter((type) => targetTypes[type]).length
-    const totalTypes = new Set([...Object.keys(sourceTypes), ...Object.keys(targetTypes)]).size
+    // Data type similarity, from the schema when the dataset has one
+    const sourceType =
+      source.schema?.find((column) => column.name === source.column)?.type ?? inferLogicalType(sourceSample)
+    const targetType =
+      target.schema?.find((column) => column.name === target.column)?.type ?? inferLogicalType(targetSample)
+    const typeScore = this.calculateTypeSimilarity(sourceType, targetType)
 
-    if (typeOverlap > 0) {
-      const typeScore = typeOverlap / totalTypes
+    if (typeScore > 0) {
       score += typeScore * 0.4
-      reasons.push(`Similar data types (${Math.round(typeScore * 100)}% overlap)`)
+      reasons.push(
+        sourceType === targetType
+          ? `Same data type (${sourceType})`
+          : `Compatible data types (${sourceType} and ${targetType})`,
+      )
     }
 
     // Value pattern similarity
@@ -289,24 +303,12 @@ export class SmartAlignmentEngine {
     return { score, reasons }
   }
 
-  private static analyzeDataTypes(sample: any[]): Record<string, number> {
-    const types: Record<string, number> = {}
-
-    for (const value of sample) {
-      let type = "string"
-
-      if (typeof value === "number" || !isNaN(Number(value))) {
-        type = "number"
-      } else if (typeof value === "boolean" || ["true", "false", "1", "0"].includes(String(value).toLowerCase())) {
-        type = "boolean"
-      } else if (!isNaN(Date.parse(String(value)))) {
-        type = "date"
-      }
-
-      types[type] = (types[type] || 0) + 1
-    }
-
-    return types
+  private static calculateTypeSimilarity(a: LogicalType, b: LogicalType): number {
+    if (a === b) return 1
+    if ((isNumericType(a) && isNumericType(b)) || (isTemporalType(a) && isTemporalType(b))) return 0.75
+    // Codes are often stored as text in one dataset and as categories in another
+    const textual: LogicalType[] = ["string", "categorical"]
+    return textual.includes(a) && textual.includes(b) ? 0.5 : 0
   }
 
   private static extractValuePatterns(sample: any[]): string[] {
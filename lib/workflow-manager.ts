@@ -152,6 +152,7 @@ export class WorkflowManager {
           data: currentFiles[0]?.data?.slice(0, 50) || [],
           columns: currentFiles[0]?.columns || [],
           rows: currentFiles[0]?.rows || 0,
+          schema: currentFiles[0]?.schema,
         }
 
         results.push(mockResult)